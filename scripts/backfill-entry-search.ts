@@ -0,0 +1,67 @@
+/**
+ * Store the lowercased `search` fields on entries that were submitted before
+ * entries could be searched or sorted by wallet, email or handle. Field
+ * searches and sorts only include entries that have them, so legacy entries
+ * are missing from search results and sorted lists until this has run.
+ *
+ * Usage: npm run backfill:entry-search
+ */
+import {
+  DocumentData,
+  QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import { firestoreDB } from "@/utils/firebaseAdmin";
+import {
+  canonicalizeEntry,
+  CanonicalFields,
+  CanonicalSource,
+} from "@/utils/canonical";
+import { buildSearchFields } from "@/utils/entrySearch";
+
+const BATCH_SIZE = 500;
+
+async function main() {
+  const baseQuery = firestoreDB
+    .collection("entries")
+    .orderBy("createdAt", "asc")
+    .limit(BATCH_SIZE);
+
+  let lastDoc: QueryDocumentSnapshot<DocumentData> | undefined;
+  let updated = 0;
+
+  while (true) {
+    const snapshot = await (lastDoc
+      ? baseQuery.startAfter(lastDoc)
+      : baseQuery
+    ).get();
+    if (snapshot.empty) {
+      break;
+    }
+
+    const batch = firestoreDB.batch();
+    let batchWrites = 0;
+
+    snapshot.docs.forEach((doc) => {
+      if (doc.get("search.wallet") !== undefined) {
+        return;
+      }
+      const canonical: CanonicalFields =
+        doc.get("canonical") || canonicalizeEntry(doc.data() as CanonicalSource);
+      batch.update(doc.ref, { search: buildSearchFields(canonical) });
+      batchWrites++;
+    });
+
+    if (batchWrites > 0) {
+      await batch.commit();
+      updated += batchWrites;
+    }
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  console.log(`Updated ${updated} entries`);
+}
+
+main().catch((error) => {
+  console.error("Backfill failed:", error);
+  process.exit(1);
+});
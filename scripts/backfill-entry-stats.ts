@@ -0,0 +1,153 @@
+/**
+ * Rebuild the analytics counters from the entries themselves. Counters are
+ * only kept from the moment entries started being counted, so entries
+ * submitted earlier are missing from the analytics until this has run.
+ * Existing counters are replaced, so run it while no entries are being
+ * submitted or deleted.
+ *
+ * Usage: npm run backfill:entry-stats
+ */
+import {
+  DocumentData,
+  DocumentReference,
+  QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import { firestoreDB } from "@/utils/firebaseAdmin";
+import {
+  EntryStatsSource,
+  getEntryStatsFields,
+  getStatsDayRef,
+  getTopicStatsShardRef,
+  STATS_WALLETS_COLLECTION,
+  StatsDayCounters,
+  TOPIC_STATS_COLLECTION,
+  TopicStatsCounters,
+  toDayBucket,
+  toHourKey,
+  WALLET_STATS_COLLECTION,
+} from "@/utils/entryStats";
+
+const BATCH_SIZE = 500;
+
+interface TopicTally extends TopicStatsCounters {
+  days: Map<string, StatsDayCounters>;
+  walletCounts: Map<string, number>;
+}
+
+const increment = (counts: Map<string, number>, key: string) =>
+  counts.set(key, (counts.get(key) || 0) + 1);
+
+const tallyEntry = (
+  topics: Map<string, TopicTally>,
+  walletCounts: Map<string, number>,
+  entry: EntryStatsSource
+) => {
+  let topic = topics.get(entry.topicId);
+  if (!topic) {
+    topic = {
+      total: 0,
+      wallets: 0,
+      withDiscord: 0,
+      emailDomains: {},
+      days: new Map(),
+      walletCounts: new Map(),
+    };
+    topics.set(entry.topicId, topic);
+  }
+
+  const { wallet, emailDomain, discord } = getEntryStatsFields(entry);
+  topic.total++;
+  if (discord) {
+    topic.withDiscord++;
+  }
+  if (emailDomain) {
+    topic.emailDomains[emailDomain] = (topic.emailDomains[emailDomain] || 0) + 1;
+  }
+  if (wallet) {
+    topic.wallets++;
+    increment(topic.walletCounts, wallet);
+    increment(walletCounts, wallet);
+  }
+
+  const date = toDayBucket(entry.createdAt);
+  const hour = toHourKey(entry.createdAt);
+  const day = topic.days.get(date) || { date, total: 0, hours: {} };
+  day.total++;
+  day.hours[hour] = (day.hours[hour] || 0) + 1;
+  topic.days.set(date, day);
+};
+
+const writeInBatches = async (writes: [DocumentReference, DocumentData][]) => {
+  for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+    const batch = firestoreDB.batch();
+    writes.slice(i, i + BATCH_SIZE).forEach(([ref, data]) => batch.set(ref, data));
+    await batch.commit();
+  }
+};
+
+async function main() {
+  const baseQuery = firestoreDB
+    .collection("entries")
+    .orderBy("createdAt", "asc")
+    .limit(BATCH_SIZE);
+
+  const topics = new Map<string, TopicTally>();
+  const walletCounts = new Map<string, number>();
+  let lastDoc: QueryDocumentSnapshot<DocumentData> | undefined;
+  let counted = 0;
+
+  while (true) {
+    const snapshot = await (lastDoc
+      ? baseQuery.startAfter(lastDoc)
+      : baseQuery
+    ).get();
+    if (snapshot.empty) {
+      break;
+    }
+    snapshot.docs.forEach((doc) =>
+      tallyEntry(topics, walletCounts, doc.data() as EntryStatsSource)
+    );
+    counted += snapshot.size;
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  await firestoreDB.recursiveDelete(firestoreDB.collection(TOPIC_STATS_COLLECTION));
+  await firestoreDB.recursiveDelete(firestoreDB.collection(WALLET_STATS_COLLECTION));
+
+  const writes: [DocumentReference, DocumentData][] = [];
+  topics.forEach((topic, topicId) => {
+    const topicRef = firestoreDB.collection(TOPIC_STATS_COLLECTION).doc(topicId);
+    // Everything goes on the first shard; new entries spread over the rest
+    writes.push([
+      getTopicStatsShardRef(topicId, 0),
+      {
+        topicId,
+        total: topic.total,
+        wallets: topic.wallets,
+        withDiscord: topic.withDiscord,
+        emailDomains: topic.emailDomains,
+        updatedAt: Date.now(),
+      },
+    ]);
+    topic.days.forEach((day) => {
+      writes.push([getStatsDayRef(topicId, day.date, 0), day]);
+    });
+    topic.walletCounts.forEach((count, wallet) => {
+      writes.push([topicRef.collection(STATS_WALLETS_COLLECTION).doc(wallet), { count }]);
+    });
+  });
+  walletCounts.forEach((count, wallet) => {
+    writes.push([
+      firestoreDB.collection(WALLET_STATS_COLLECTION).doc(wallet),
+      { count },
+    ]);
+  });
+  await writeInBatches(writes);
+
+  console.log(`Counted ${counted} entries across ${topics.size} topics`);
+}
+
+main().catch((error) => {
+  console.error("Backfill failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,60 @@
+/**
+ * Mark entries submitted before the review workflow existed as pending.
+ * Filtering entries by status only matches entries that have the field, so
+ * legacy entries are missing from status filters until this has run.
+ *
+ * Usage: npm run backfill:entry-status
+ */
+import {
+  DocumentData,
+  QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import { firestoreDB } from "@/utils/firebaseAdmin";
+import { UNREVIEWED_ENTRY } from "@/utils/entryStatus";
+
+const BATCH_SIZE = 500;
+
+async function main() {
+  const baseQuery = firestoreDB
+    .collection("entries")
+    .select("status", "createdAt")
+    .orderBy("createdAt", "asc")
+    .limit(BATCH_SIZE);
+
+  let lastDoc: QueryDocumentSnapshot<DocumentData> | undefined;
+  let updated = 0;
+
+  while (true) {
+    const snapshot = await (lastDoc
+      ? baseQuery.startAfter(lastDoc)
+      : baseQuery
+    ).get();
+    if (snapshot.empty) {
+      break;
+    }
+
+    const batch = firestoreDB.batch();
+    let batchWrites = 0;
+
+    snapshot.docs.forEach((doc) => {
+      if (doc.get("status") !== undefined) {
+        return;
+      }
+      batch.update(doc.ref, { ...UNREVIEWED_ENTRY });
+      batchWrites++;
+    });
+
+    if (batchWrites > 0) {
+      await batch.commit();
+      updated += batchWrites;
+    }
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  console.log(`Updated ${updated} entries`);
+}
+
+main().catch((error) => {
+  console.error("Backfill failed:", error);
+  process.exit(1);
+});
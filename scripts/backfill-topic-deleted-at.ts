@@ -0,0 +1,91 @@
+/**
+ * Set `topicDeletedAt` on entries that were submitted before topics could be
+ * moved to the trash. Entry lists filter on `topicDeletedAt == null`, which
+ * Firestore only matches when the field exists, so legacy entries stay
+ * hidden until this has run.
+ *
+ * Entries of topics already in the trash get the topic's `deletedAt`.
+ * Topics missing `deletedAt`, `opensAt` or `closesAt` get null, since the
+ * topic list filters on the first and can sort by the others.
+ *
+ * Usage: npm run backfill:topic-deleted-at
+ */
+import {
+  DocumentData,
+  QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import { firestoreDB } from "@/utils/firebaseAdmin";
+
+const BATCH_SIZE = 500;
+
+const TOPIC_NULL_FIELDS = ["deletedAt", "opensAt", "closesAt"];
+
+async function main() {
+  const topicsSnapshot = await firestoreDB
+    .collection("topics")
+    .select("deletedAt", "opensAt", "closesAt")
+    .get();
+  const topicDeletedAt = new Map<string, number | null>(
+    topicsSnapshot.docs.map((doc) => [doc.id, doc.get("deletedAt") || null])
+  );
+
+  const topicUpdates = topicsSnapshot.docs.flatMap((doc) => {
+    const missing = TOPIC_NULL_FIELDS.filter((field) => doc.get(field) === undefined);
+    return missing.length > 0
+      ? [{ ref: doc.ref, fields: Object.fromEntries(missing.map((field) => [field, null])) }]
+      : [];
+  });
+  for (let i = 0; i < topicUpdates.length; i += BATCH_SIZE) {
+    const batch = firestoreDB.batch();
+    topicUpdates.slice(i, i + BATCH_SIZE).forEach(({ ref, fields }) => {
+      batch.update(ref, fields);
+    });
+    await batch.commit();
+  }
+  console.log(`Updated ${topicUpdates.length} topics`);
+
+  const baseQuery = firestoreDB
+    .collection("entries")
+    .select("topicId", "topicDeletedAt", "createdAt")
+    .orderBy("createdAt", "asc")
+    .limit(BATCH_SIZE);
+
+  let lastDoc: QueryDocumentSnapshot<DocumentData> | undefined;
+  let updated = 0;
+
+  while (true) {
+    const snapshot = await (lastDoc
+      ? baseQuery.startAfter(lastDoc)
+      : baseQuery
+    ).get();
+    if (snapshot.empty) {
+      break;
+    }
+
+    const batch = firestoreDB.batch();
+    let batchWrites = 0;
+
+    snapshot.docs.forEach((doc) => {
+      if (doc.get("topicDeletedAt") !== undefined) {
+        return;
+      }
+      batch.update(doc.ref, {
+        topicDeletedAt: topicDeletedAt.get(doc.get("topicId")) ?? null,
+      });
+      batchWrites++;
+    });
+
+    if (batchWrites > 0) {
+      await batch.commit();
+      updated += batchWrites;
+    }
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  console.log(`Updated ${updated} entries`);
+}
+
+main().catch((error) => {
+  console.error("Backfill failed:", error);
+  process.exit(1);
+});
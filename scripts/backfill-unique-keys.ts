@@ -0,0 +1,95 @@
+/**
+ * Create the uniq/{topicId}:{field}:{value} key documents for entries that
+ * were submitted before uniqueness was enforced transactionally, and store
+ * the canonical form on entries that were saved without one.
+ *
+ * Entries are processed oldest first, so when legacy data already contains
+ * duplicates the earliest entry keeps the key and later ones are reported.
+ *
+ * Usage: npm run backfill:unique-keys
+ */
+import {
+  DocumentData,
+  QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import { firestoreDB } from "@/utils/firebaseAdmin";
+import { canonicalizeEntry, CanonicalSource } from "@/utils/canonical";
+import { getUniqueKeys, UniqueKeySource } from "@/utils/uniqueKeys";
+
+// Up to five writes per entry (four keys and the canonical fields) must stay
+// within the 500-write batch limit
+const BATCH_SIZE = 100;
+
+async function main() {
+  const baseQuery = firestoreDB
+    .collection("entries")
+    .orderBy("createdAt", "asc")
+    .limit(BATCH_SIZE);
+
+  let lastDoc: QueryDocumentSnapshot<DocumentData> | undefined;
+  let created = 0;
+  let conflicts = 0;
+
+  while (true) {
+    const snapshot = await (lastDoc
+      ? baseQuery.startAfter(lastDoc)
+      : baseQuery
+    ).get();
+    if (snapshot.empty) {
+      break;
+    }
+
+    const batch = firestoreDB.batch();
+    // Keys claimed earlier in this batch are not visible to getAll yet
+    const claimedInBatch = new Map<string, string>();
+
+    for (const doc of snapshot.docs) {
+      if (!doc.get("canonical")) {
+        batch.update(doc.ref, {
+          canonical: canonicalizeEntry(doc.data() as CanonicalSource),
+        });
+      }
+
+      const keys = getUniqueKeys(doc.data() as UniqueKeySource);
+      const keySnapshots = await firestoreDB.getAll(
+        ...keys.map((key) => key.ref)
+      );
+
+      keys.forEach((key, i) => {
+        const owner =
+          claimedInBatch.get(key.ref.path) ??
+          (keySnapshots[i].exists ? keySnapshots[i].get("entryId") : null);
+
+        if (owner === doc.id) {
+          return;
+        }
+        if (owner) {
+          conflicts++;
+          console.warn(
+            `Entry ${doc.id} conflicts with ${owner} on ${key.field} (${key.ref.id})`
+          );
+          return;
+        }
+
+        batch.set(key.ref, {
+          topicId: doc.get("topicId"),
+          field: key.field,
+          entryId: doc.id,
+          createdAt: Date.now(),
+        });
+        claimedInBatch.set(key.ref.path, doc.id);
+        created++;
+      });
+    }
+
+    await batch.commit();
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  console.log(`Created ${created} unique keys, found ${conflicts} conflicts`);
+}
+
+main().catch((error) => {
+  console.error("Backfill failed:", error);
+  process.exit(1);
+});
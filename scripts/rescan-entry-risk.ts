@@ -0,0 +1,31 @@
+/**
+ * Re-score the risk of every entry, topic by topic. Entries submitted before
+ * risk scoring have no score, so they are missing from risk filters and sorts
+ * until this has run. Their IP and device were never recorded, so only their
+ * emails and handles are compared.
+ *
+ * Usage: npm run rescan:entry-risk
+ */
+import { firestoreDB } from "@/utils/firebaseAdmin";
+import { rescanTopicRisk } from "@/utils/riskScoring";
+
+async function main() {
+  const topicsSnapshot = await firestoreDB.collection("topics").select().get();
+
+  let scanned = 0;
+  let flagged = 0;
+  for (const doc of topicsSnapshot.docs) {
+    const result = await rescanTopicRisk(doc.id);
+    scanned += result.scanned;
+    flagged += result.flagged;
+  }
+
+  console.log(
+    `Scanned ${scanned} entries in ${topicsSnapshot.size} topics, ${flagged} at medium or high risk`
+  );
+}
+
+main().catch((error) => {
+  console.error("Re-scan failed:", error);
+  process.exit(1);
+});
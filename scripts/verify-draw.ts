@@ -0,0 +1,33 @@
+/**
+ * Re-run a winner draw from its downloaded record and check that the seed
+ * matches its commitment, the entries match their hash and the same winners
+ * come out in the same order. Needs no database access.
+ *
+ * Usage: npm run verify:draw -- path/to/draw.json
+ */
+import { readFileSync } from "fs";
+import { DrawRecord, verifyDrawRecord } from "@/utils/raffle";
+
+function main() {
+  const path = process.argv[2];
+  if (!path) {
+    console.error("Usage: npm run verify:draw -- path/to/draw.json");
+    process.exit(1);
+  }
+
+  const record = JSON.parse(readFileSync(path, "utf8")) as DrawRecord;
+  const problems = verifyDrawRecord(record);
+  if (problems.length > 0) {
+    problems.forEach((problem) => console.error(`✗ ${problem}`));
+    process.exit(1);
+  }
+
+  console.log(
+    `✓ Verified: ${record.winners.length} winners drawn from ${record.entries.length} entries`
+  );
+  console.log(`  Seed hash:      ${record.seedHash}`);
+  console.log(`  Entry set hash: ${record.entrySetHash}`);
+  record.winners.forEach((id, i) => console.log(`  ${i + 1}. ${id}`));
+}
+
+main();
@@ -0,0 +1,40 @@
+"use client";
+import AuditLogClient from "@/components/AuditLogClient";
+import { useAuth } from "@/contexts/AuthContext";
+import { hasRole } from "@/utils/roles";
+
+export default function AuditLogPage() {
+  const { isLoading, isAuthenticated, role } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) return;
+
+  return (
+    <div className="container mx-auto p-4">
+      <div className="mb-6">
+        <a
+          href="/admin"
+          className="text-blue-500 hover:text-blue-700 mb-6 inline-block"
+        >
+          ← Back to Dashboard
+        </a>
+        <h1 className="text-2xl font-bold mb-4">Audit Log</h1>
+      </div>
+
+      {hasRole(role, "owner") ? (
+        <AuditLogClient />
+      ) : (
+        <div className="bg-yellow-50 border border-yellow-200 rounded p-4">
+          <p className="text-yellow-800">Only owners can view the audit log.</p>
+        </div>
+      )}
+    </div>
+  );
+}
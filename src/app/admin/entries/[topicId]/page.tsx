@@ -2,6 +2,7 @@ import { redirect } from "next/navigation";
 import { firestoreDB } from "@/utils/firebaseAdmin";
 import EntriesList from "../../../../components/EntriesList";
 import { isAuthenticated } from "@/utils/serverAuth";
+import { getTopicFormFields } from "@/utils/formFields";
 
 export default async function TopicEntriesPage(
   props: Awaited<ReturnType<() => Promise<{ params: { topicId: string } }>>>
@@ -36,7 +37,11 @@ export default async function TopicEntriesPage(
         <h1 className="text-2xl font-bold mb-2">{topic?.name}</h1>
         <p className="text-gray-600 mb-4">{topic?.description}</p>
       </div>
-      <EntriesList topicId={params.topicId} topicName={topic?.name || ""} />
+      <EntriesList
+        topicId={params.topicId}
+        topicName={topic?.name || ""}
+        formFields={getTopicFormFields(topic)}
+      />
     </div>
   );
 }
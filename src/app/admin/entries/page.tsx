@@ -1,5 +1,5 @@
 "use client";
-import { useState } from "react";
+import { Suspense, useState } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import EntriesList from "@/components/EntriesList";
 
@@ -39,7 +39,10 @@ export default function AllEntriesPage() {
         </div>
       </div>
 
-      <EntriesList topicName={searchTerm} />
+      {/* EntriesList reads its filters from the URL */}
+      <Suspense>
+        <EntriesList topicName={searchTerm} />
+      </Suspense>
     </div>
   );
 }
@@ -0,0 +1,33 @@
+"use client";
+import TwoFactorSettings from "@/components/TwoFactorSettings";
+import { useAuth } from "@/contexts/AuthContext";
+
+export default function SecurityPage() {
+  const { isLoading, isAuthenticated } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) return;
+
+  return (
+    <div className="container mx-auto p-4">
+      <div className="mb-6">
+        <a
+          href="/admin"
+          className="text-blue-500 hover:text-blue-700 mb-6 inline-block"
+        >
+          ← Back to Dashboard
+        </a>
+        <h1 className="text-2xl font-bold mb-4">Account Security</h1>
+      </div>
+
+      <TwoFactorSettings />
+    </div>
+  );
+}
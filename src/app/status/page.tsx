@@ -0,0 +1,14 @@
+import StatusLookupClient from "@/components/StatusLookupClient";
+
+export default function StatusPage() {
+  return (
+    <div className="container mx-auto p-4">
+      <h1 className="text-2xl font-bold mb-4">Check Your Entry</h1>
+      <p className="mb-6 text-gray-600">
+        Enter the receipt code from your confirmation and the email you
+        submitted with to see your entry&apos;s review status.
+      </p>
+      <StatusLookupClient />
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { firestoreDB } from '@/utils/firebaseAdmin';
+import EntryForm from '../../../../components/EntryForm';
+import Link from 'next/link';
+import { isTopicOpen, TopicSchedule } from '@/utils/topicSchedule';
+import { FieldValue, getTopicFormFields } from '@/utils/formFields';
+import { EntryEditTokenError, verifyEntryEditToken } from '@/utils/entryEditToken';
+
+// Shown in place of the form when the entry can't be edited
+function EditUnavailable({ message }: { message: string }) {
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded p-4 max-w-lg">
+      <p className="text-yellow-800">{message}</p>
+    </div>
+  );
+}
+
+export default async function EditEntryPage(
+  props: Awaited<
+    ReturnType<
+      () => Promise<{ params: { topicId: string }; searchParams: { token?: string } }>
+    >
+  >
+) {
+  const { params, searchParams } = props;
+
+  const renderPage = (content: React.ReactNode, title = 'Edit Your Entry') => (
+    <div className="container mx-auto p-4">
+      <div className="flex items-center mb-6">
+        <Link 
+          href="/" 
+          className="mr-4 text-blue-600 hover:text-blue-800 flex items-center"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-1" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z" clipRule="evenodd" />
+          </svg>
+          Back to Topics
+        </Link>
+      </div>
+      <h1 className="text-2xl font-bold mb-4">{title}</h1>
+      {content}
+    </div>
+  );
+
+  const token = searchParams.token || '';
+  let claims;
+  try {
+    claims = verifyEntryEditToken(token);
+  } catch (error) {
+    if (error instanceof EntryEditTokenError) {
+      return renderPage(<EditUnavailable message={error.message} />);
+    }
+    throw error;
+  }
+  if (claims.topicId !== params.topicId) {
+    return renderPage(<EditUnavailable message="This edit link is invalid" />);
+  }
+
+  const [topicDoc, entryDoc] = await Promise.all([
+    firestoreDB.collection('topics').doc(claims.topicId).get(),
+    firestoreDB.collection('entries').doc(claims.entryId).get(),
+  ]);
+  const topic = topicDoc.data();
+  const entry = entryDoc.data();
+
+  if (!entry || entry.topicId !== claims.topicId || entry.topicDeletedAt) {
+    return renderPage(<EditUnavailable message="This entry no longer exists." />);
+  }
+
+  // Entries are locked once the topic stops accepting submissions
+  if (!topic || !isTopicOpen(topic as TopicSchedule)) {
+    return renderPage(
+      <EditUnavailable message="This topic is closed, so entries can no longer be edited." />
+    );
+  }
+
+  const fields = getTopicFormFields(topic);
+  const initialValues = Object.fromEntries(
+    fields
+      .filter((field) => ['string', 'boolean'].includes(typeof entry[field.name]))
+      .map((field) => [field.name, entry[field.name] as FieldValue])
+  );
+
+  return renderPage(
+    <>
+      <p className="mb-6 text-gray-600">
+        Saving changes sends your entry back for review.
+      </p>
+      <EntryForm
+        topicId={claims.topicId}
+        topicName={topic.name}
+        fields={fields}
+        requireWalletSignature={!!topic.requireWalletSignature}
+        editToken={token}
+        initialValues={initialValues}
+      />
+    </>,
+    `Edit Your Entry for ${topic.name}`
+  );
+}
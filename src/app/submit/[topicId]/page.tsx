@@ -2,6 +2,8 @@ import { redirect } from 'next/navigation';
 import { firestoreDB } from '@/utils/firebaseAdmin';
 import EntryForm from '../../../components/EntryForm';
 import Link from 'next/link';
+import { isTopicOpen, TopicSchedule } from '@/utils/topicSchedule';
+import { getTopicFormFields } from '@/utils/formFields';
 
 export default async function SubmitEntryPage(
   props: Awaited<ReturnType<() => Promise<{ params: { topicId: string } }>>>
@@ -16,7 +18,8 @@ export default async function SubmitEntryPage(
 
     const topic = topicDoc.data();
 
-    if (!topic?.isActive) {
+    // Respect both the manual switch and the opensAt/closesAt window
+    if (!topic || !isTopicOpen(topic as TopicSchedule)) {
       redirect('/');
     }
 
@@ -35,7 +38,12 @@ export default async function SubmitEntryPage(
         </div>
         <h1 className="text-2xl font-bold mb-4">Submit Entry for {topic.name}</h1>
         <p className="mb-6 text-gray-600">{topic.description}</p>
-        <EntryForm topicId={params.topicId} topicName={topic.name} />
+        <EntryForm
+          topicId={params.topicId}
+          topicName={topic.name}
+          fields={getTopicFormFields(topic)}
+          requireWalletSignature={!!topic.requireWalletSignature}
+        />
       </div>
     );
   } catch (error) {
@@ -1,16 +1,34 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, Fragment } from "react";
 import { toast } from "sonner";
 import Link from "next/link";
+import { format } from "date-fns";
 import { ErrorBoundary } from "./ErrorBoundary";
+import FormFieldsEditor from "./FormFieldsEditor";
+import DrawWinnersPanel from "./DrawWinnersPanel";
+import SortableHeader from "./SortableHeader";
 import { fetchWithAuth } from "../utils/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { hasRole } from "../utils/roles";
+import { getTopicStatus, TopicStatus } from "../utils/topicSchedule";
+import { SortOrder, TopicSortKey, toggleSort } from "../utils/sorting";
+import {
+  FormField,
+  getTopicFormFields,
+  getWalletField,
+} from "../utils/formFields";
 
 interface Topic {
   id: string;
   name: string;
   description: string;
   isActive: boolean;
+  opensAt?: number | null;
+  closesAt?: number | null;
+  formFields?: FormField[];
+  requireWalletSignature?: boolean;
+  deletedAt?: number | null;
   createdAt: number;
 }
 
@@ -23,8 +41,20 @@ interface PaginationInfo {
   page: number;
   limit: number;
   totalPages: number;
+  nextCursor: string | null;
 }
 
+const STATUS_BADGES: Record<TopicStatus, { label: string; className: string }> = {
+  active: { label: "Active", className: "bg-green-100 text-green-800" },
+  inactive: { label: "Inactive", className: "bg-red-100 text-red-800" },
+  scheduled: { label: "Scheduled", className: "bg-yellow-100 text-yellow-800" },
+  closed: { label: "Closed", className: "bg-gray-100 text-gray-800" },
+};
+
+const SCHEDULE_FORMAT = "MMM d, yyyy h:mm a";
+
+type TopicsView = "topics" | "trash";
+
 export default function AdminDashboardClient({
   initialTopics,
 }: AdminDashboardClientProps) {
@@ -34,6 +64,7 @@ export default function AdminDashboardClient({
     null
   );
   const [shouldRefresh, setShouldRefresh] = useState(false);
+  const { role } = useAuth();
 
   const refreshTopics = async () => {
     setIsLoading(true);
@@ -52,11 +83,13 @@ export default function AdminDashboardClient({
     <ErrorBoundary>
       <div className="space-y-6">
         <h1 className="text-2xl font-bold mb-4">Admin Dashboard</h1>
-        <AddTopicForm
-          onTopicAdded={refreshTopics}
-          isSubmitting={operationInProgress === "creating"}
-          setOperationInProgress={setOperationInProgress}
-        />
+        {hasRole(role, "editor") && (
+          <AddTopicForm
+            onTopicAdded={refreshTopics}
+            isSubmitting={operationInProgress === "creating"}
+            setOperationInProgress={setOperationInProgress}
+          />
+        )}
         <TopicsList
           topics={topics}
           setTopics={setTopics}
@@ -73,6 +106,34 @@ export default function AdminDashboardClient({
           >
             View All Entries →
           </Link>
+          <Link
+            href="/admin/analytics"
+            className="text-blue-500 hover:text-blue-700 inline-flex items-center ml-6"
+          >
+            Analytics →
+          </Link>
+          <Link
+            href="/admin/security"
+            className="text-blue-500 hover:text-blue-700 inline-flex items-center ml-6"
+          >
+            Account Security →
+          </Link>
+          {hasRole(role, "owner") && (
+            <Link
+              href="/admin/roles"
+              className="text-blue-500 hover:text-blue-700 inline-flex items-center ml-6"
+            >
+              Manage Admin Roles →
+            </Link>
+          )}
+          {hasRole(role, "owner") && (
+            <Link
+              href="/admin/audit"
+              className="text-blue-500 hover:text-blue-700 inline-flex items-center ml-6"
+            >
+              Audit Log →
+            </Link>
+          )}
         </div>
       </div>
     </ErrorBoundary>
@@ -101,12 +162,25 @@ function TopicsList({
     page: 1,
     limit: 10,
     totalPages: 0,
+    nextCursor: null,
   });
+  // pageCursors[i] is the cursor that loads page i + 1; page 1 needs none
+  const [pageCursors, setPageCursors] = useState<(string | null)[]>([null]);
   const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [drawingId, setDrawingId] = useState<string | null>(null);
+  const [view, setView] = useState<TopicsView>("topics");
+  const [sort, setSort] = useState<{ key: TopicSortKey; order: SortOrder }>({
+    key: "createdAt",
+    order: "desc",
+  });
+  const { role } = useAuth();
+  const canEdit = hasRole(role, "editor");
+  const canPurge = hasRole(role, "owner");
 
   useEffect(() => {
     fetchTopics();
-  }, [pagination.page, shouldRefresh]);
+  }, [pagination.page, shouldRefresh, view, sort]);
 
   useEffect(() => {
     if (shouldRefresh) {
@@ -116,23 +190,64 @@ function TopicsList({
 
   const fetchTopics = useCallback(async () => {
     try {
+      const queryParams = new URLSearchParams({
+        page: pagination.page.toString(),
+        limit: pagination.limit.toString(),
+        sort: sort.key,
+        order: sort.order,
+      });
+      if (view === "trash") {
+        queryParams.append("type", "trash");
+      }
+
+      const cursor = pageCursors[pagination.page - 1];
+      if (cursor) {
+        queryParams.append("cursor", cursor);
+      }
+
       const data = await fetchWithAuth<{
         topics: Topic[];
         pagination: PaginationInfo;
-      }>(`/api/topics?page=${pagination.page}&limit=${pagination.limit}`);
+      }>(`/api/topics?${queryParams}`);
       
       setTopics(data.topics);
       setPagination(data.pagination);
+      setPageCursors((prev) => [
+        ...prev.slice(0, data.pagination.page),
+        data.pagination.nextCursor,
+      ]);
     } catch (err) {
       setError("An error occurred! Please try again.");
       toast.error("Failed to fetch topics");
     }
-  }, [pagination.page, pagination.limit, setTopics]);
+  }, [pagination.page, pagination.limit, pageCursors, setTopics, view, sort]);
 
+  // Cursors only allow stepping one page at a time in either direction
   const handlePageChange = (newPage: number) => {
+    if (newPage < 1 || (newPage > 1 && !pageCursors[newPage - 1])) {
+      return;
+    }
     setPagination((prev) => ({ ...prev, page: newPage }));
   };
 
+  // Cursors belong to one sort, so a new sort starts from the first page
+  const handleSort = (key: TopicSortKey) => {
+    setSort(toggleSort(sort, key));
+    setPageCursors([null]);
+    setPagination((prev) => ({ ...prev, page: 1 }));
+  };
+
+  const handleViewChange = (newView: TopicsView) => {
+    if (newView === view) {
+      return;
+    }
+    setView(newView);
+    setEditingId(null);
+    setDrawingId(null);
+    setPageCursors([null]);
+    setPagination((prev) => ({ ...prev, page: 1 }));
+  };
+
   const toggleStatus = async (id: string, currentStatus: boolean) => {
     setOperationInProgress(`toggling-${id}`);
     try {
@@ -158,7 +273,11 @@ function TopicsList({
   };
 
   const deleteTopic = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this topic?")) {
+    if (
+      !confirm(
+        "Move this topic to the trash? Its entries will be hidden until it is restored."
+      )
+    ) {
       return;
     }
 
@@ -170,7 +289,7 @@ function TopicsList({
       });
       
       setTopics(topics.filter((topic) => topic.id !== id));
-      toast.success("Topic deleted successfully");
+      toast.success("Topic moved to trash");
       setShouldRefresh(true);
     } catch (e) {
       toast.error("Error deleting topic! Something went wrong.");
@@ -180,6 +299,59 @@ function TopicsList({
     }
   };
 
+  const restoreTopic = async (id: string) => {
+    setOperationInProgress(`restoring-${id}`);
+    try {
+      await fetchWithAuth<{ topic: Topic }>("/api/topics", {
+        method: "PATCH",
+        body: JSON.stringify({ id, deletedAt: null }),
+      });
+
+      setTopics(topics.filter((topic) => topic.id !== id));
+      toast.success("Topic restored successfully");
+      setShouldRefresh(true);
+    } catch (e) {
+      toast.error("Error restoring topic! Something went wrong.");
+      console.log(e);
+    } finally {
+      setOperationInProgress(null);
+    }
+  };
+
+  const purgeTopic = async (id: string) => {
+    if (
+      !confirm(
+        "Permanently delete this topic and all of its entries? This cannot be undone."
+      )
+    ) {
+      return;
+    }
+
+    setOperationInProgress(`purging-${id}`);
+    try {
+      await fetchWithAuth<{ message: string }>("/api/topics", {
+        method: "DELETE",
+        body: JSON.stringify({ id, purge: true }),
+      });
+
+      setTopics(topics.filter((topic) => topic.id !== id));
+      toast.success("Topic permanently deleted");
+      setShouldRefresh(true);
+    } catch (e) {
+      toast.error("Error purging topic! Something went wrong.");
+      console.log(e);
+    } finally {
+      setOperationInProgress(null);
+    }
+  };
+
+  const handleTopicUpdated = (updatedTopic: Topic) => {
+    setTopics(
+      topics.map((topic) => (topic.id === updatedTopic.id ? updatedTopic : topic))
+    );
+    setEditingId(null);
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -199,17 +371,45 @@ function TopicsList({
   return (
     <div className="bg-white rounded-lg shadow">
       <div className="px-4 py-5 sm:p-6">
-        <h2 className="text-lg font-medium text-gray-900 mb-4">Topics</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-medium text-gray-900">
+            {view === "trash" ? "Trash" : "Topics"}
+          </h2>
+          <div className="flex space-x-4 text-sm">
+            {(["topics", "trash"] as TopicsView[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => handleViewChange(option)}
+                className={`cursor-pointer ${
+                  view === option
+                    ? "font-medium text-blue-600"
+                    : "text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                {option === "trash" ? "Trash" : "Topics"}
+              </button>
+            ))}
+          </div>
+        </div>
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Name
-                </th>
+                <SortableHeader
+                  label="Name"
+                  sortKey="name"
+                  sort={sort}
+                  onSort={handleSort}
+                />
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Description
                 </th>
+                <SortableHeader
+                  label="Created"
+                  sortKey="createdAt"
+                  sort={sort}
+                  onSort={handleSort}
+                />
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Status
                 </th>
@@ -220,61 +420,163 @@ function TopicsList({
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {topics.map((topic) => (
-                <tr key={topic.id}>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                    {topic.name}
-                  </td>
-                  <td className="px-6 py-4 text-sm text-gray-500">
-                    {topic.description}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <span
-                      className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                        topic.isActive
-                          ? "bg-green-100 text-green-800"
-                          : "bg-red-100 text-red-800"
-                      }`}
-                    >
-                      {topic.isActive ? "Active" : "Inactive"}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 space-x-2">
-                    <button
-                      onClick={() => toggleStatus(topic.id, topic.isActive)}
-                      disabled={operationInProgress === `toggling-${topic.id}`}
-                      className={`text-blue-600 hover:text-blue-900 cursor-pointer ${
-                        operationInProgress === `toggling-${topic.id}`
-                          ? "opacity-50 cursor-not-allowed"
-                          : ""
-                      }`}
-                    >
-                      {operationInProgress === `toggling-${topic.id}`
-                        ? "Updating..."
-                        : topic.isActive
-                        ? "Deactivate"
-                        : "Activate"}
-                    </button>
-                    <button
-                      onClick={() => deleteTopic(topic.id)}
-                      disabled={operationInProgress === `deleting-${topic.id}`}
-                      className={`text-red-600 hover:text-red-900 ml-2 cursor-pointer ${
-                        operationInProgress === `deleting-${topic.id}`
-                          ? "opacity-50 cursor-not-allowed"
-                          : ""
-                      }`}
-                    >
-                      {operationInProgress === `deleting-${topic.id}`
-                        ? "Deleting..."
-                        : "Delete"}
-                    </button>
-                    <a
-                      href={`/admin/entries/${topic.id}`}
-                      className="text-green-600 hover:text-green-900 ml-2"
-                    >
-                      View Entries
-                    </a>
-                  </td>
-                </tr>
+                <Fragment key={topic.id}>
+                  <tr>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {topic.name}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {topic.description}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {format(topic.createdAt, SCHEDULE_FORMAT)}
+                    </td>
+                    {view === "trash" ? (
+                      <>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {topic.deletedAt
+                            ? `Deleted ${format(topic.deletedAt, SCHEDULE_FORMAT)}`
+                            : "Deleted"}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 space-x-2">
+                          {canEdit && (
+                            <button
+                              onClick={() => restoreTopic(topic.id)}
+                              disabled={operationInProgress === `restoring-${topic.id}`}
+                              className={`text-blue-600 hover:text-blue-900 cursor-pointer ${
+                                operationInProgress === `restoring-${topic.id}`
+                                  ? "opacity-50 cursor-not-allowed"
+                                  : ""
+                              }`}
+                            >
+                              {operationInProgress === `restoring-${topic.id}`
+                                ? "Restoring..."
+                                : "Restore"}
+                            </button>
+                          )}
+                          {canPurge && (
+                            <button
+                              onClick={() => purgeTopic(topic.id)}
+                              disabled={operationInProgress === `purging-${topic.id}`}
+                              className={`text-red-600 hover:text-red-900 ml-2 cursor-pointer ${
+                                operationInProgress === `purging-${topic.id}`
+                                  ? "opacity-50 cursor-not-allowed"
+                                  : ""
+                              }`}
+                            >
+                              {operationInProgress === `purging-${topic.id}`
+                                ? "Deleting..."
+                                : "Delete Forever"}
+                            </button>
+                          )}
+                        </td>
+                      </>
+                    ) : (
+                      <>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span
+                            className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                              STATUS_BADGES[getTopicStatus(topic)].className
+                            }`}
+                          >
+                            {STATUS_BADGES[getTopicStatus(topic)].label}
+                          </span>
+                          {(topic.opensAt || topic.closesAt) && (
+                            <div className="mt-1 text-xs text-gray-500">
+                              {topic.opensAt
+                                ? `Opens ${format(topic.opensAt, SCHEDULE_FORMAT)}`
+                                : null}
+                              {topic.opensAt && topic.closesAt ? <br /> : null}
+                              {topic.closesAt
+                                ? `Closes ${format(topic.closesAt, SCHEDULE_FORMAT)}`
+                                : null}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 space-x-2">
+                          {canEdit && (
+                            <>
+                              <button
+                                onClick={() => toggleStatus(topic.id, topic.isActive)}
+                                disabled={operationInProgress === `toggling-${topic.id}`}
+                                className={`text-blue-600 hover:text-blue-900 cursor-pointer ${
+                                  operationInProgress === `toggling-${topic.id}`
+                                    ? "opacity-50 cursor-not-allowed"
+                                    : ""
+                                }`}
+                              >
+                                {operationInProgress === `toggling-${topic.id}`
+                                  ? "Updating..."
+                                  : topic.isActive
+                                  ? "Deactivate"
+                                  : "Activate"}
+                              </button>
+                              <button
+                                onClick={() =>
+                                  setEditingId(editingId === topic.id ? null : topic.id)
+                                }
+                                className="text-gray-600 hover:text-gray-900 ml-2 cursor-pointer"
+                              >
+                                {editingId === topic.id ? "Cancel Edit" : "Edit"}
+                              </button>
+                              <button
+                                onClick={() => deleteTopic(topic.id)}
+                                disabled={operationInProgress === `deleting-${topic.id}`}
+                                className={`text-red-600 hover:text-red-900 ml-2 cursor-pointer ${
+                                  operationInProgress === `deleting-${topic.id}`
+                                    ? "opacity-50 cursor-not-allowed"
+                                    : ""
+                                }`}
+                              >
+                                {operationInProgress === `deleting-${topic.id}`
+                                  ? "Deleting..."
+                                  : "Delete"}
+                              </button>
+                            </>
+                          )}
+                          <button
+                            onClick={() =>
+                              setDrawingId(drawingId === topic.id ? null : topic.id)
+                            }
+                            className="text-purple-600 hover:text-purple-900 ml-2 cursor-pointer"
+                          >
+                            {drawingId === topic.id ? "Hide Draws" : "Draw Winners"}
+                          </button>
+                          <a
+                            href={`/admin/entries/${topic.id}`}
+                            className="text-green-600 hover:text-green-900 ml-2"
+                          >
+                            View Entries
+                          </a>
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                  {editingId === topic.id && (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-4 bg-gray-50">
+                        <EditTopicForm
+                          topic={topic}
+                          onSaved={handleTopicUpdated}
+                          onCancel={() => setEditingId(null)}
+                          isSaving={operationInProgress === `editing-${topic.id}`}
+                          setOperationInProgress={setOperationInProgress}
+                        />
+                      </td>
+                    </tr>
+                  )}
+                  {drawingId === topic.id && (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-4 bg-gray-50">
+                        <DrawWinnersPanel
+                          topicId={topic.id}
+                          fields={getTopicFormFields(topic)}
+                          canEdit={canEdit}
+                        />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
               ))}
             </tbody>
           </table>
@@ -296,9 +598,9 @@ function TopicsList({
               </button>
               <button
                 onClick={() => handlePageChange(pagination.page + 1)}
-                disabled={pagination.page === pagination.totalPages}
+                disabled={!pagination.nextCursor}
                 className={`ml-3 relative inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md ${
-                  pagination.page === pagination.totalPages
+                  !pagination.nextCursor
                     ? "bg-gray-100 text-gray-400 cursor-not-allowed"
                     : "bg-white text-gray-700 hover:bg-gray-50"
                 }`}
@@ -340,27 +642,15 @@ function TopicsList({
                   >
                     Previous
                   </button>
-                  {Array.from(
-                    { length: pagination.totalPages },
-                    (_, i) => i + 1
-                  ).map((pageNum) => (
-                    <button
-                      key={pageNum}
-                      onClick={() => handlePageChange(pageNum)}
-                      className={`relative inline-flex items-center px-4 py-2 border text-sm font-medium ${
-                        pageNum === pagination.page
-                          ? "z-10 bg-blue-50 border-blue-500 text-blue-600"
-                          : "bg-white border-gray-300 text-gray-500 hover:bg-gray-50"
-                      }`}
-                    >
-                      {pageNum}
-                    </button>
-                  ))}
+                  <span className="relative inline-flex items-center px-4 py-2 border border-gray-300 bg-white text-sm font-medium text-gray-700">
+                    Page {pagination.page} of{" "}
+                    {Math.max(1, pagination.totalPages)}
+                  </span>
                   <button
                     onClick={() => handlePageChange(pagination.page + 1)}
-                    disabled={pagination.page === pagination.totalPages}
+                    disabled={!pagination.nextCursor}
                     className={`relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium ${
-                      pagination.page === pagination.totalPages
+                      !pagination.nextCursor
                         ? "text-gray-300 cursor-not-allowed"
                         : "text-gray-500 hover:bg-gray-50"
                     }`}
@@ -377,6 +667,204 @@ function TopicsList({
   );
 }
 
+// datetime-local inputs work in local time without seconds
+const DATETIME_INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+const toDateTimeInput = (timestamp?: number | null): string =>
+  timestamp ? format(timestamp, DATETIME_INPUT_FORMAT) : "";
+
+const fromDateTimeInput = (value: string): number | null =>
+  value ? new Date(value).getTime() : null;
+
+// Drop blank select options and options left over from a type change
+const cleanFormFields = (fields: FormField[]): FormField[] =>
+  fields.map((field) => ({
+    ...field,
+    options:
+      field.type === "select"
+        ? (field.options || []).map((option) => option.trim()).filter(Boolean)
+        : undefined,
+  }));
+
+function EditTopicForm({
+  topic,
+  onSaved,
+  onCancel,
+  isSaving,
+  setOperationInProgress,
+}: {
+  topic: Topic;
+  onSaved: (topic: Topic) => void;
+  onCancel: () => void;
+  isSaving: boolean;
+  setOperationInProgress: (operation: string | null) => void;
+}) {
+  const [name, setName] = useState(topic.name);
+  const [description, setDescription] = useState(topic.description);
+  const [opensAt, setOpensAt] = useState(toDateTimeInput(topic.opensAt));
+  const [closesAt, setClosesAt] = useState(toDateTimeInput(topic.closesAt));
+  const [formFields, setFormFields] = useState(getTopicFormFields(topic));
+  const [requireWalletSignature, setRequireWalletSignature] = useState(
+    !!topic.requireWalletSignature
+  );
+  const [error, setError] = useState("");
+  const walletField = getWalletField(formFields);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    // Only send the fields that actually changed
+    const updates: Partial<Topic> = {};
+    if (name !== topic.name) updates.name = name;
+    if (description !== topic.description) updates.description = description;
+    if (opensAt !== toDateTimeInput(topic.opensAt)) {
+      updates.opensAt = fromDateTimeInput(opensAt);
+    }
+    if (closesAt !== toDateTimeInput(topic.closesAt)) {
+      updates.closesAt = fromDateTimeInput(closesAt);
+    }
+    const cleanedFields = cleanFormFields(formFields);
+    if (
+      JSON.stringify(cleanedFields) !==
+      JSON.stringify(cleanFormFields(getTopicFormFields(topic)))
+    ) {
+      updates.formFields = cleanedFields;
+    }
+    if (requireWalletSignature !== !!topic.requireWalletSignature) {
+      updates.requireWalletSignature = requireWalletSignature;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      onCancel();
+      return;
+    }
+
+    setOperationInProgress(`editing-${topic.id}`);
+    try {
+      const data = await fetchWithAuth<{ topic: Topic }>("/api/topics", {
+        method: "PATCH",
+        body: JSON.stringify({ id: topic.id, ...updates }),
+      });
+      toast.success("Topic updated successfully");
+      onSaved(data.topic);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update topic");
+    } finally {
+      setOperationInProgress(null);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">
+            Topic Name
+          </label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            required
+            disabled={isSaving}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">
+            Description
+          </label>
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            required
+            disabled={isSaving}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">
+            Opens At (Optional)
+          </label>
+          <input
+            type="datetime-local"
+            value={opensAt}
+            onChange={(e) => setOpensAt(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            disabled={isSaving}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">
+            Closes At (Optional)
+          </label>
+          <input
+            type="datetime-local"
+            value={closesAt}
+            onChange={(e) => setClosesAt(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            disabled={isSaving}
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Submission Form Fields
+        </label>
+        <FormFieldsEditor
+          fields={formFields}
+          onChange={setFormFields}
+          disabled={isSaving}
+        />
+      </div>
+      <div className="space-y-1">
+        <label className="inline-flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={requireWalletSignature}
+            onChange={(e) => setRequireWalletSignature(e.target.checked)}
+            disabled={isSaving || (!walletField && !requireWalletSignature)}
+          />
+          <span>Require a wallet signature to prove ownership</span>
+        </label>
+        <p className="text-xs text-gray-500">
+          {walletField
+            ? `Participants connect their wallet and sign a message; "${walletField.label}" is filled in from the connected account.`
+            : "Add an EVM address field to the form to require a signature."}
+        </p>
+      </div>
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSaving}
+          className="px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className={`px-4 py-2 rounded-md text-white font-medium transition-all ${
+            isSaving
+              ? "bg-gray-400 cursor-not-allowed"
+              : "bg-blue-600 hover:bg-blue-700 active:transform active:scale-95"
+          }`}
+        >
+          {isSaving ? "Saving..." : "Save Changes"}
+        </button>
+      </div>
+    </form>
+  );
+}
+
 function AddTopicForm({
   onTopicAdded,
   isSubmitting,
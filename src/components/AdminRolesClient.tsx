@@ -0,0 +1,256 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ErrorBoundary } from "./ErrorBoundary";
+import { fetchWithAuth } from "../utils/api";
+import {
+  ADMIN_ROLES,
+  AdminRole,
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+} from "../utils/roles";
+
+interface AdminRecord {
+  email: string;
+  role: AdminRole;
+  locked: boolean;
+  updatedAt?: number;
+  updatedBy?: string;
+}
+
+export default function AdminRolesClient({
+  currentEmail,
+}: {
+  currentEmail: string | null;
+}) {
+  const [admins, setAdmins] = useState<AdminRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [operationInProgress, setOperationInProgress] = useState<string | null>(
+    null
+  );
+  const [newEmail, setNewEmail] = useState("");
+  const [newRole, setNewRole] = useState<AdminRole>("editor");
+
+  const fetchAdmins = useCallback(async () => {
+    try {
+      const data = await fetchWithAuth<{ admins: AdminRecord[] }>(
+        "/api/admins"
+      );
+      setAdmins(data.admins);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch admins");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAdmins();
+  }, [fetchAdmins]);
+
+  const setRole = async (email: string, role: AdminRole) => {
+    setOperationInProgress(`saving-${email}`);
+    try {
+      await fetchWithAuth<{ message: string }>("/api/admins", {
+        method: "PUT",
+        body: JSON.stringify({ email, role }),
+      });
+      toast.success(`${email} is now ${ROLE_LABELS[role].toLowerCase()}`);
+      await fetchAdmins();
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update role");
+      return false;
+    } finally {
+      setOperationInProgress(null);
+    }
+  };
+
+  const removeRole = async (email: string) => {
+    if (!confirm(`Remove ${email}'s role? They will no longer be able to sign in.`)) {
+      return;
+    }
+
+    setOperationInProgress(`removing-${email}`);
+    try {
+      await fetchWithAuth<{ message: string }>("/api/admins", {
+        method: "DELETE",
+        body: JSON.stringify({ email }),
+      });
+      toast.success("Role removed");
+      setAdmins(admins.filter((admin) => admin.email !== email));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to remove role");
+    } finally {
+      setOperationInProgress(null);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await setRole(newEmail.trim(), newRole)) {
+      setNewEmail("");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="text-gray-600">Loading admins...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded p-4">
+        <p className="text-red-800">Error: {error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <ErrorBoundary>
+      <div className="space-y-6">
+        <form
+          onSubmit={handleAdd}
+          className="bg-white p-6 rounded-lg shadow-md space-y-4"
+        >
+          <h2 className="text-xl font-semibold text-gray-800">Assign a Role</h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <input
+              type="email"
+              value={newEmail}
+              onChange={(e) => setNewEmail(e.target.value)}
+              placeholder="name@capx.global"
+              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 md:col-span-2"
+              required
+              disabled={operationInProgress !== null}
+            />
+            <select
+              value={newRole}
+              onChange={(e) => setNewRole(e.target.value as AdminRole)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              disabled={operationInProgress !== null}
+            >
+              {ADMIN_ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {ROLE_LABELS[role]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <p className="text-sm text-gray-500">{ROLE_DESCRIPTIONS[newRole]}</p>
+          <button
+            type="submit"
+            disabled={operationInProgress !== null}
+            className={`w-full px-4 py-2 rounded-md text-white font-medium transition-all ${
+              operationInProgress !== null
+                ? "bg-gray-400 cursor-not-allowed"
+                : "bg-blue-600 hover:bg-blue-700 active:transform active:scale-95"
+            }`}
+          >
+            Assign Role
+          </button>
+        </form>
+
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-4 py-5 sm:p-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-1">Admins</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Accounts without a role here can&apos;t sign in.
+            </p>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Email
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Role
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Last Changed
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {admins.map((admin) => {
+                    const isEditable =
+                      !admin.locked &&
+                      admin.email !== currentEmail?.toLowerCase();
+                    return (
+                      <tr key={admin.email}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {admin.email}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {isEditable ? (
+                            <select
+                              value={admin.role}
+                              onChange={(e) =>
+                                setRole(admin.email, e.target.value as AdminRole)
+                              }
+                              disabled={
+                                operationInProgress === `saving-${admin.email}`
+                              }
+                              className="px-2 py-1 border border-gray-300 rounded-md"
+                            >
+                              {ADMIN_ROLES.map((role) => (
+                                <option key={role} value={role}>
+                                  {ROLE_LABELS[role]}
+                                </option>
+                              ))}
+                            </select>
+                          ) : (
+                            ROLE_LABELS[admin.role]
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {admin.locked
+                            ? "Set by OWNER_EMAILS"
+                            : admin.updatedAt
+                            ? `${format(admin.updatedAt, "MMM d, yyyy h:mm a")}${
+                                admin.updatedBy ? ` by ${admin.updatedBy}` : ""
+                              }`
+                            : "-"}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {isEditable && (
+                            <button
+                              onClick={() => removeRole(admin.email)}
+                              disabled={
+                                operationInProgress === `removing-${admin.email}`
+                              }
+                              className={`text-red-600 hover:text-red-900 cursor-pointer ${
+                                operationInProgress === `removing-${admin.email}`
+                                  ? "opacity-50 cursor-not-allowed"
+                                  : ""
+                              }`}
+                            >
+                              {operationInProgress === `removing-${admin.email}`
+                                ? "Removing..."
+                                : "Remove"}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      </div>
+    </ErrorBoundary>
+  );
+}
@@ -0,0 +1,289 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  DEFAULT_TOKEN_DECIMALS,
+  DISTRIBUTION_FILE_TYPES,
+  DistributionFormat,
+  DistributionSource,
+  MAX_TOKEN_DECIMALS,
+} from "../utils/airdrop";
+
+// Types
+type RuleType = "flat" | "tiered" | "weights";
+
+interface AirdropPanelProps {
+  topicId: string;
+  topicName?: string;
+}
+
+// Constants
+const SOURCE_LABELS: Record<DistributionSource, string> = {
+  all: "All entries",
+  approved: "Approved entries",
+  winners: "Winners of the latest draw",
+};
+
+const FORMAT_LABELS: Record<DistributionFormat, string> = {
+  safe: "Safe CSV Airdrop (.csv)",
+  disperse: "Disperse address,amount list (.txt)",
+  json: "Raw JSON (.json)",
+};
+
+/**
+ * Split "a,b" or "a b" lines into pairs, skipping blank lines and a header
+ * row that doesn't start with a number or address
+ */
+const parsePairs = (text: string): [string, string][] =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .filter((line, i) => i > 0 || /^(0x|\d)/i.test(line))
+    .map((line) => {
+      const [first = "", second = ""] = line.split(/[,;\s]+/);
+      return [first, second];
+    });
+
+/**
+ * Generate airdrop distribution files from the topic's entries or draw
+ * winners, with a flat, tiered or uploaded-weights amount per entry
+ */
+export default function AirdropPanel({ topicId, topicName }: AirdropPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [source, setSource] = useState<DistributionSource>("approved");
+  const [ruleType, setRuleType] = useState<RuleType>("flat");
+  const [amount, setAmount] = useState("");
+  const [tiers, setTiers] = useState("");
+  const [weights, setWeights] = useState<[string, string][]>([]);
+  const [weightsFileName, setWeightsFileName] = useState("");
+  const [decimals, setDecimals] = useState(String(DEFAULT_TOKEN_DECIMALS));
+  const [tokenAddress, setTokenAddress] = useState("");
+  const [fileFormat, setFileFormat] = useState<DistributionFormat>("safe");
+  const [generating, setGenerating] = useState(false);
+
+  const handleWeightsFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    const pairs = parsePairs(await file.text());
+    setWeights(pairs);
+    setWeightsFileName(file.name);
+    toast.success(`Loaded ${pairs.length} weights from ${file.name}`);
+  };
+
+  const getRule = () => {
+    switch (ruleType) {
+      case "flat":
+        return { type: ruleType, amount };
+      case "tiered":
+        return {
+          type: ruleType,
+          tiers: parsePairs(tiers).map(([count, tierAmount]) => ({
+            count: Number(count),
+            amount: tierAmount,
+          })),
+        };
+      case "weights":
+        return {
+          type: ruleType,
+          total: amount,
+          weights: weights.map(([address, weight]) => ({ address, weight })),
+        };
+    }
+  };
+
+  const handleGenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (ruleType === "weights" && weights.length === 0) {
+      toast.error("Upload a weights file first");
+      return;
+    }
+
+    setGenerating(true);
+    try {
+      const response = await fetch(
+        `/api/topics/${encodeURIComponent(topicId)}/airdrop`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({
+            source,
+            rule: getRule(),
+            decimals: Number(decimals),
+            tokenAddress: tokenAddress.trim() || null,
+            format: fileFormat,
+          }),
+        }
+      );
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(
+          data.details?.[0]?.message || data.error || "Failed to generate airdrop file"
+        );
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.setAttribute("href", url);
+      const { extension } = DISTRIBUTION_FILE_TYPES[fileFormat];
+      link.setAttribute("download", `Airdrop${topicName ? ` - ${topicName}` : ""}.${extension}`);
+      link.style.visibility = "hidden";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      toast.success("Airdrop file generated");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to generate airdrop file");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border-b border-gray-200 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-700">Airdrop distribution file</span>
+        <button
+          type="button"
+          onClick={() => setIsOpen((open) => !open)}
+          className="text-blue-600 hover:text-blue-900 cursor-pointer"
+        >
+          {isOpen ? "Hide" : "Generate..."}
+        </button>
+      </div>
+
+      {isOpen && (
+        <form onSubmit={handleGenerate} className="mt-3 flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Recipients</label>
+            <select
+              value={source}
+              onChange={(e) => setSource(e.target.value as DistributionSource)}
+              className="p-2 border border-gray-300 rounded"
+            >
+              {Object.entries(SOURCE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Amount rule</label>
+            <select
+              value={ruleType}
+              onChange={(e) => setRuleType(e.target.value as RuleType)}
+              className="p-2 border border-gray-300 rounded"
+            >
+              <option value="flat">Flat amount per entry</option>
+              <option value="tiered">Tiers by rank</option>
+              <option value="weights">Split a total by uploaded weights</option>
+            </select>
+          </div>
+          {ruleType !== "tiered" && (
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">
+                {ruleType === "flat" ? "Amount per entry" : "Total amount"}
+              </label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="100"
+                className="w-32 p-2 border border-gray-300 rounded"
+                required
+              />
+            </div>
+          )}
+          {ruleType === "tiered" && (
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">
+                Tiers (one &quot;count,amount&quot; per line)
+              </label>
+              <textarea
+                value={tiers}
+                onChange={(e) => setTiers(e.target.value)}
+                placeholder={"1,1000\n9,100\n90,10"}
+                rows={3}
+                className="w-40 p-2 border border-gray-300 rounded font-mono"
+                required
+              />
+            </div>
+          )}
+          {ruleType === "weights" && (
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">
+                Weights CSV (address,weight)
+              </label>
+              <input
+                type="file"
+                accept=".csv,.txt,text/csv,text/plain"
+                onChange={handleWeightsFile}
+                className="text-xs"
+              />
+              {weightsFileName && (
+                <span className="block text-xs text-gray-500">
+                  {weights.length} rows from {weightsFileName}
+                </span>
+              )}
+            </div>
+          )}
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Decimals</label>
+            <input
+              type="number"
+              min={0}
+              max={MAX_TOKEN_DECIMALS}
+              value={decimals}
+              onChange={(e) => setDecimals(e.target.value)}
+              className="w-20 p-2 border border-gray-300 rounded"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">
+              Token address (blank for native)
+            </label>
+            <input
+              type="text"
+              value={tokenAddress}
+              onChange={(e) => setTokenAddress(e.target.value)}
+              placeholder="0x..."
+              className="w-56 p-2 border border-gray-300 rounded font-mono"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Format</label>
+            <select
+              value={fileFormat}
+              onChange={(e) => setFileFormat(e.target.value as DistributionFormat)}
+              className="p-2 border border-gray-300 rounded"
+            >
+              {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={generating}
+            className={`px-4 py-2 rounded text-white bg-green-600 ${
+              generating ? "opacity-50 cursor-not-allowed" : "hover:bg-green-700 cursor-pointer"
+            }`}
+          >
+            {generating ? "Generating..." : "Download File"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
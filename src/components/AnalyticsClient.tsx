@@ -0,0 +1,426 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { ErrorBoundary } from "./ErrorBoundary";
+import { BarList, ChartSeries, SERIES_COLORS, SeriesChart } from "./StatsCharts";
+import { fetchWithAuth } from "../utils/api";
+import {
+  EmailDomainCount,
+  getDiscordShare,
+  STATS_EXPORT_FORMATS,
+  StatsExportFormat,
+  StatsGranularity,
+  StatsReport,
+  TopicStatsReport,
+} from "../utils/statsReport";
+
+// Constants
+// Topics drawn as their own line; the rest are summed together
+const MAX_CHART_TOPICS = 5;
+const MAX_EMAIL_DOMAINS = 10;
+
+// Types
+interface StatsFilters {
+  topicId: string;
+  granularity: StatsGranularity;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: StatsFilters = {
+  topicId: "",
+  granularity: "day",
+  from: "",
+  to: "",
+};
+
+// Helper Functions
+const toFilterParams = (filters: StatsFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.topicId) params.append("topicId", filters.topicId);
+  params.append("granularity", filters.granularity);
+  if (filters.from) params.append("from", filters.from);
+  if (filters.to) params.append("to", filters.to);
+  return params;
+};
+
+const sumSeries = (topics: TopicStatsReport[], length: number): number[] =>
+  topics.reduce(
+    (sums, topic) => sums.map((sum, i) => sum + topic.series[i]),
+    new Array(length).fill(0) as number[]
+  );
+
+const sumInRange = (topic: TopicStatsReport): number =>
+  topic.series.reduce((sum, value) => sum + value, 0);
+
+const formatShare = (share: number): string => `${Math.round(share * 100)}%`;
+
+/**
+ * The busiest topics as their own lines, with the others and the overall
+ * total summed
+ */
+const buildChartSeries = (report: StatsReport): ChartSeries[] => {
+  const ranked = [...report.topics].sort((a, b) => sumInRange(b) - sumInRange(a));
+  const shown = ranked.slice(0, MAX_CHART_TOPICS);
+  const others = ranked.slice(MAX_CHART_TOPICS);
+
+  const series: ChartSeries[] = shown.map((topic, i) => ({
+    label: topic.topicName || topic.topicId,
+    values: topic.series,
+    color: SERIES_COLORS[i],
+  }));
+  if (others.length > 0) {
+    series.push({
+      label: `${others.length} other topics`,
+      values: sumSeries(others, report.buckets.length),
+      color: SERIES_COLORS[MAX_CHART_TOPICS],
+    });
+  }
+  if (report.topics.length > 1) {
+    series.push({
+      label: "All topics",
+      values: sumSeries(report.topics, report.buckets.length),
+      color: SERIES_COLORS[SERIES_COLORS.length - 1],
+    });
+  }
+  return series;
+};
+
+const mergeEmailDomains = (topics: TopicStatsReport[]): EmailDomainCount[] => {
+  const counts = new Map<string, number>();
+  topics.forEach((topic) =>
+    topic.emailDomains.forEach(({ domain, count }) =>
+      counts.set(domain, (counts.get(domain) || 0) + count)
+    )
+  );
+  return Array.from(counts, ([domain, count]) => ({ domain, count })).sort(
+    (a, b) => b.count - a.count
+  );
+};
+
+export default function AnalyticsClient() {
+  const [report, setReport] = useState<StatsReport | null>(null);
+  const [topicOptions, setTopicOptions] = useState<
+    { topicId: string; topicName: string }[]
+  >([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<StatsFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] =
+    useState<StatsFilters>(EMPTY_FILTERS);
+  const [exporting, setExporting] = useState(false);
+  const [exportFormat, setExportFormat] = useState<StatsExportFormat>("csv");
+
+  useEffect(() => {
+    fetchStats();
+  }, [appliedFilters]);
+
+  const fetchStats = async () => {
+    setLoading(true);
+    try {
+      const data = await fetchWithAuth<StatsReport>(
+        `/api/stats?${toFilterParams(appliedFilters)}`
+      );
+      setReport(data);
+      // Unfiltered reports list every topic, for the topic picker
+      if (!appliedFilters.topicId) {
+        setTopicOptions(
+          data.topics.map(({ topicId, topicName }) => ({ topicId, topicName }))
+        );
+      }
+      // Show the range the server picked when none was given
+      setFilters((prev) => ({
+        ...prev,
+        from: prev.from || data.from,
+        to: prev.to || data.to,
+      }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch stats");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFilterSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAppliedFilters(filters);
+  };
+
+  const handleGranularityChange = (granularity: StatsGranularity) => {
+    // Each granularity has its own default range
+    setFilters({ ...filters, granularity, from: "", to: "" });
+  };
+
+  const handleExport = async () => {
+    if (!report) {
+      return;
+    }
+    setExporting(true);
+    try {
+      // Export exactly the range on screen
+      const queryParams = toFilterParams({
+        ...appliedFilters,
+        from: report.from,
+        to: report.to,
+      });
+      queryParams.append("format", exportFormat);
+
+      const response = await fetch(`/api/stats/export?${queryParams}`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to export stats");
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.setAttribute("href", url);
+      link.setAttribute(
+        "download",
+        `Submissions by ${report.granularity} ${report.from} to ${report.to}.${exportFormat}`
+      );
+      link.style.visibility = "hidden";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      toast.success("Stats exported successfully");
+    } catch (err) {
+      console.error("Error exporting stats:", err);
+      toast.error("Failed to export stats");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const inputClassName =
+    "w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+  const totalEntries = report
+    ? report.topics.reduce((sum, topic) => sum + topic.total, 0)
+    : 0;
+  const totalWithDiscord = report
+    ? report.topics.reduce((sum, topic) => sum + topic.withDiscord, 0)
+    : 0;
+  const totalInRange = report
+    ? report.topics.reduce((sum, topic) => sum + sumInRange(topic), 0)
+    : 0;
+
+  return (
+    <ErrorBoundary>
+      <div className="space-y-6">
+        <form
+          onSubmit={handleFilterSubmit}
+          className="bg-white p-4 rounded-lg shadow grid grid-cols-1 md:grid-cols-4 gap-3"
+        >
+          <select
+            value={filters.topicId}
+            onChange={(e) => setFilters({ ...filters, topicId: e.target.value })}
+            className={inputClassName}
+            aria-label="Topic"
+          >
+            <option value="">All topics</option>
+            {topicOptions.map((topic) => (
+              <option key={topic.topicId} value={topic.topicId}>
+                {topic.topicName || topic.topicId}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.granularity}
+            onChange={(e) =>
+              handleGranularityChange(e.target.value as StatsGranularity)
+            }
+            className={inputClassName}
+            aria-label="Granularity"
+          >
+            <option value="day">Daily</option>
+            <option value="hour">Hourly</option>
+          </select>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            className={inputClassName}
+            aria-label="From (UTC)"
+          />
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            className={inputClassName}
+            aria-label="To (UTC)"
+          />
+          <div className="md:col-span-4 flex justify-between items-center">
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-md text-white text-sm font-medium bg-blue-600 hover:bg-blue-700"
+            >
+              Apply
+            </button>
+            <div className="flex items-center space-x-2">
+              <select
+                value={exportFormat}
+                onChange={(e) =>
+                  setExportFormat(e.target.value as StatsExportFormat)
+                }
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={exporting}
+              >
+                {STATS_EXPORT_FORMATS.map((option) => (
+                  <option key={option} value={option}>
+                    {option.toUpperCase()}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleExport}
+                disabled={exporting || !report}
+                className={`px-4 py-2 rounded-md text-white text-sm font-medium ${
+                  exporting || !report
+                    ? "bg-gray-400 cursor-not-allowed"
+                    : "bg-green-600 hover:bg-green-700"
+                }`}
+              >
+                {exporting ? "Exporting..." : "Export Series"}
+              </button>
+            </div>
+          </div>
+        </form>
+
+        {error ? (
+          <div className="bg-red-50 border border-red-200 rounded p-4">
+            <p className="text-red-800">Error: {error}</p>
+          </div>
+        ) : loading || !report ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="text-gray-600">Loading stats...</div>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: "Entries", value: totalEntries },
+                { label: "Submitted in range", value: totalInRange },
+                { label: "Unique wallets", value: report.uniqueWallets },
+                {
+                  label: "With Discord",
+                  value: formatShare(totalEntries ? totalWithDiscord / totalEntries : 0),
+                },
+              ].map((card) => (
+                <div key={card.label} className="bg-white p-4 rounded-lg shadow">
+                  <p className="text-xs font-medium text-gray-500 uppercase">
+                    {card.label}
+                  </p>
+                  <p className="text-2xl font-semibold text-gray-900">{card.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="bg-white p-4 rounded-lg shadow">
+              <h2 className="text-lg font-semibold mb-2">
+                Submissions per {report.granularity} (UTC)
+              </h2>
+              <SeriesChart buckets={report.buckets} series={buildChartSeries(report)} />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="bg-white p-4 rounded-lg shadow">
+                <h2 className="text-lg font-semibold mb-2">Entries by topic</h2>
+                <BarList
+                  items={report.topics
+                    .filter((topic) => topic.total > 0)
+                    .sort((a, b) => b.total - a.total)
+                    .map((topic) => ({
+                      label: topic.topicName || topic.topicId,
+                      value: topic.total,
+                    }))}
+                />
+              </div>
+              <div className="bg-white p-4 rounded-lg shadow">
+                <h2 className="text-lg font-semibold mb-2">Email domains</h2>
+                <BarList
+                  items={mergeEmailDomains(report.topics)
+                    .slice(0, MAX_EMAIL_DOMAINS)
+                    .map(({ domain, count }) => ({
+                      label: domain,
+                      value: count,
+                      detail: `${count} (${formatShare(
+                        totalEntries ? count / totalEntries : 0
+                      )})`,
+                    }))}
+                />
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg shadow overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {[
+                      "Topic",
+                      "Entries",
+                      "In Range",
+                      "Wallets",
+                      "Unique Wallets",
+                      "With Discord",
+                      "Top Email Domain",
+                    ].map((label) => (
+                      <th
+                        key={label}
+                        className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                      >
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {report.topics.length === 0 ? (
+                    <tr>
+                      <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-600">
+                        No topics found.
+                      </td>
+                    </tr>
+                  ) : (
+                    report.topics.map((topic) => (
+                      <tr key={topic.topicId} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {topic.topicName || topic.topicId}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {topic.total}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {sumInRange(topic)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {topic.wallets}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {topic.uniqueWallets}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatShare(getDiscordShare(topic))}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {topic.emailDomains[0]
+                            ? `${topic.emailDomains[0].domain} (${topic.emailDomains[0].count})`
+                            : "-"}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </ErrorBoundary>
+  );
+}
@@ -0,0 +1,401 @@
+"use client";
+
+import { useState, useEffect, Fragment } from "react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ErrorBoundary } from "./ErrorBoundary";
+import { fetchWithAuth } from "../utils/api";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABELS,
+  AUDIT_EXPORT_FORMATS,
+  AuditAction,
+  AuditExportFormat,
+  AuditRecord,
+  formatAuditActor,
+} from "../utils/auditEvents";
+
+interface PaginationInfo {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  nextCursor: string | null;
+}
+
+interface AuditFilters {
+  action: AuditAction | "";
+  actorEmail: string;
+  targetId: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = {
+  action: "",
+  actorEmail: "",
+  targetId: "",
+  from: "",
+  to: "",
+};
+
+// Date inputs give local calendar days; `to` covers the whole day
+const toFilterParams = (filters: AuditFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.action) params.append("action", filters.action);
+  if (filters.actorEmail) params.append("actorEmail", filters.actorEmail);
+  if (filters.targetId) params.append("targetId", filters.targetId);
+  if (filters.from) {
+    params.append("from", new Date(`${filters.from}T00:00`).getTime().toString());
+  }
+  if (filters.to) {
+    params.append(
+      "to",
+      new Date(`${filters.to}T23:59:59.999`).getTime().toString()
+    );
+  }
+  return params;
+};
+
+export default function AuditLogClient() {
+  const [records, setRecords] = useState<(AuditRecord & { id: string })[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] =
+    useState<AuditFilters>(EMPTY_FILTERS);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [exportFormat, setExportFormat] = useState<AuditExportFormat>("csv");
+  const [pagination, setPagination] = useState<PaginationInfo>({
+    total: 0,
+    page: 1,
+    limit: 20,
+    totalPages: 0,
+    nextCursor: null,
+  });
+  // pageCursors[i] is the cursor that loads page i + 1; page 1 needs none
+  const [pageCursors, setPageCursors] = useState<(string | null)[]>([null]);
+
+  useEffect(() => {
+    fetchRecords();
+  }, [pagination.page, appliedFilters]);
+
+  const fetchRecords = async () => {
+    setLoading(true);
+    try {
+      const queryParams = toFilterParams(appliedFilters);
+      queryParams.append("page", pagination.page.toString());
+      queryParams.append("limit", pagination.limit.toString());
+
+      const cursor = pageCursors[pagination.page - 1];
+      if (cursor) {
+        queryParams.append("cursor", cursor);
+      }
+
+      const data = await fetchWithAuth<{
+        records: (AuditRecord & { id: string })[];
+        pagination: PaginationInfo;
+      }>(`/api/audit?${queryParams}`);
+
+      setRecords(data.records);
+      setPagination(data.pagination);
+      setPageCursors((prev) => [
+        ...prev.slice(0, data.pagination.page),
+        data.pagination.nextCursor,
+      ]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch audit log");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Cursors only allow stepping one page at a time in either direction
+  const handlePageChange = (newPage: number) => {
+    if (newPage < 1 || (newPage > 1 && !pageCursors[newPage - 1])) {
+      return;
+    }
+    setPagination((prev) => ({ ...prev, page: newPage }));
+  };
+
+  const applyFilters = (next: AuditFilters) => {
+    setPageCursors([null]);
+    setPagination((prev) => ({ ...prev, page: 1 }));
+    setAppliedFilters(next);
+  };
+
+  const handleFilterSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    applyFilters(filters);
+  };
+
+  const handleClearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    applyFilters(EMPTY_FILTERS);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const queryParams = toFilterParams(appliedFilters);
+      queryParams.append("format", exportFormat);
+
+      // The server streams every matching record, not just the loaded page
+      const response = await fetch(`/api/audit/export?${queryParams}`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to export audit log");
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.setAttribute("href", url);
+      link.setAttribute("download", `Audit Log.${exportFormat}`);
+      link.style.visibility = "hidden";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      toast.success("Audit log exported successfully");
+    } catch (err) {
+      console.error("Error exporting audit log:", err);
+      toast.error("Failed to export audit log");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const inputClassName =
+    "w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+  return (
+    <ErrorBoundary>
+      <div className="space-y-6">
+        <form
+          onSubmit={handleFilterSubmit}
+          className="bg-white p-4 rounded-lg shadow grid grid-cols-1 md:grid-cols-5 gap-3"
+        >
+          <select
+            value={filters.action}
+            onChange={(e) =>
+              setFilters({ ...filters, action: e.target.value as AuditAction | "" })
+            }
+            className={inputClassName}
+          >
+            <option value="">All actions</option>
+            {AUDIT_ACTIONS.map((action) => (
+              <option key={action} value={action}>
+                {AUDIT_ACTION_LABELS[action]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={filters.actorEmail}
+            onChange={(e) => setFilters({ ...filters, actorEmail: e.target.value })}
+            placeholder="Actor email"
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={filters.targetId}
+            onChange={(e) => setFilters({ ...filters, targetId: e.target.value })}
+            placeholder="Target ID"
+            className={inputClassName}
+          />
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            className={inputClassName}
+            aria-label="From"
+          />
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            className={inputClassName}
+            aria-label="To"
+          />
+          <div className="md:col-span-5 flex justify-between items-center">
+            <div className="space-x-2">
+              <button
+                type="submit"
+                className="px-4 py-2 rounded-md text-white text-sm font-medium bg-blue-600 hover:bg-blue-700"
+              >
+                Apply Filters
+              </button>
+              <button
+                type="button"
+                onClick={handleClearFilters}
+                className="px-4 py-2 rounded-md border border-gray-300 text-sm text-gray-700 hover:bg-gray-100"
+              >
+                Clear
+              </button>
+            </div>
+            <div className="flex items-center space-x-2">
+              <select
+                value={exportFormat}
+                onChange={(e) =>
+                  setExportFormat(e.target.value as AuditExportFormat)
+                }
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={exporting}
+              >
+                {AUDIT_EXPORT_FORMATS.map((option) => (
+                  <option key={option} value={option}>
+                    {option.toUpperCase()}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleExport}
+                disabled={exporting}
+                className={`px-4 py-2 rounded-md text-white text-sm font-medium ${
+                  exporting
+                    ? "bg-gray-400 cursor-not-allowed"
+                    : "bg-green-600 hover:bg-green-700"
+                }`}
+              >
+                {exporting ? "Exporting..." : `Export to ${exportFormat.toUpperCase()}`}
+              </button>
+            </div>
+          </div>
+        </form>
+
+        {error ? (
+          <div className="bg-red-50 border border-red-200 rounded p-4">
+            <p className="text-red-800">Error: {error}</p>
+          </div>
+        ) : loading ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="text-gray-600">Loading audit log...</div>
+          </div>
+        ) : records.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600">No audit records found.</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Time
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actor
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Action
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Target
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    IP
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Details
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {records.map((record) => (
+                  <Fragment key={record.id}>
+                    <tr className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {format(record.createdAt, "MMM d, yyyy h:mm:ss a")}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatAuditActor(record.actor)}
+                        {record.actor && (
+                          <span className="ml-1 text-xs text-gray-500">
+                            ({record.actor.role})
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {AUDIT_ACTION_LABELS[record.action] || record.action}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-700">
+                        {record.targetType}/{record.targetId}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {record.ip || "-"}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <button
+                          onClick={() =>
+                            setExpandedId(expandedId === record.id ? null : record.id)
+                          }
+                          className="text-blue-600 hover:text-blue-900 cursor-pointer"
+                        >
+                          {expandedId === record.id ? "Hide" : "Show"}
+                        </button>
+                      </td>
+                    </tr>
+                    {expandedId === record.id && (
+                      <tr>
+                        <td colSpan={6} className="px-6 py-4 bg-gray-50">
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {(["before", "after"] as const).map((key) => (
+                              <div key={key}>
+                                <p className="text-xs font-medium text-gray-500 uppercase mb-1">
+                                  {key}
+                                </p>
+                                <pre className="text-xs bg-white border border-gray-200 rounded p-2 overflow-x-auto">
+                                  {record[key]
+                                    ? JSON.stringify(record[key], null, 2)
+                                    : "-"}
+                                </pre>
+                              </div>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => handlePageChange(pagination.page - 1)}
+            disabled={pagination.page === 1}
+            className={`px-4 py-2 border border-gray-300 text-sm font-medium rounded-md ${
+              pagination.page === 1
+                ? "bg-gray-100 text-gray-400 cursor-not-allowed"
+                : "bg-white text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-700">
+            Page {pagination.page} of {Math.max(1, pagination.totalPages)} (
+            {pagination.total} records)
+          </span>
+          <button
+            onClick={() => handlePageChange(pagination.page + 1)}
+            disabled={!pagination.nextCursor}
+            className={`px-4 py-2 border border-gray-300 text-sm font-medium rounded-md ${
+              !pagination.nextCursor
+                ? "bg-gray-100 text-gray-400 cursor-not-allowed"
+                : "bg-white text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </ErrorBoundary>
+  );
+}
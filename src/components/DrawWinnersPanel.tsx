@@ -0,0 +1,257 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { fetchWithAuth } from "../utils/api";
+import { FormField } from "../utils/formFields";
+
+// Types
+interface Draw {
+  id: string;
+  winnerCount: number;
+  approvedOnly: boolean;
+  weightField: string | null;
+  seedHash: string;
+  status: "committed" | "drawn";
+  committedBy: string | null;
+  committedAt: number;
+  seed: string | null;
+  entrySetHash: string | null;
+  entryCount: number | null;
+  winners: { id: string; wallet: string | null }[];
+  drawnAt: number | null;
+}
+
+interface DrawWinnersPanelProps {
+  topicId: string;
+  fields: FormField[];
+  canEdit: boolean;
+}
+
+// Constants
+const DRAW_DATE_FORMAT = "MMM d, yyyy h:mm a";
+
+// Fields that can hold a ticket count; the rest are never whole numbers
+const WEIGHT_FIELD_TYPES: FormField["type"][] = ["text", "select"];
+
+/**
+ * A topic's winner draws. A draw is committed first, publishing the hash of
+ * its secret seed, and revealed afterwards, which picks the winners.
+ */
+export default function DrawWinnersPanel({
+  topicId,
+  fields,
+  canEdit,
+}: DrawWinnersPanelProps) {
+  const [draws, setDraws] = useState<Draw[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [winnerCount, setWinnerCount] = useState("1");
+  const [approvedOnly, setApprovedOnly] = useState(true);
+  const [weightField, setWeightField] = useState("");
+  const [operation, setOperation] = useState<string | null>(null);
+
+  const fetchDraws = useCallback(async () => {
+    try {
+      const data = await fetchWithAuth<{ draws: Draw[] }>(
+        `/api/draws?topicId=${encodeURIComponent(topicId)}`
+      );
+      setDraws(data.draws);
+    } catch (e) {
+      toast.error("Error loading draws! Something went wrong.");
+      console.log(e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [topicId]);
+
+  useEffect(() => {
+    fetchDraws();
+  }, [fetchDraws]);
+
+  const handleCommit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setOperation("committing");
+    try {
+      const draw = await fetchWithAuth<Draw>("/api/draws", {
+        method: "POST",
+        body: JSON.stringify({
+          topicId,
+          winnerCount: Number(winnerCount),
+          approvedOnly,
+          weightField: weightField || null,
+        }),
+      });
+      setDraws((prev) => [draw, ...prev]);
+      toast.success("Draw committed. Share the seed hash before revealing it.");
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Error committing draw!");
+    } finally {
+      setOperation(null);
+    }
+  };
+
+  const handleReveal = async (id: string) => {
+    if (!confirm("Reveal the seed and draw winners now? This can only be done once.")) {
+      return;
+    }
+
+    setOperation(`revealing-${id}`);
+    try {
+      const draw = await fetchWithAuth<Draw>("/api/draws", {
+        method: "PATCH",
+        body: JSON.stringify({ id }),
+      });
+      setDraws((prev) => prev.map((item) => (item.id === id ? draw : item)));
+      toast.success(`Drew ${draw.winners.length} winners`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Error drawing winners!");
+    } finally {
+      setOperation(null);
+    }
+  };
+
+  const describeDraw = (draw: Draw): string =>
+    [
+      `${draw.winnerCount} winner${draw.winnerCount === 1 ? "" : "s"}`,
+      draw.approvedOnly ? "approved entries only" : "all entries",
+      draw.weightField ? `weighted by ${draw.weightField}` : "one ticket each",
+    ].join(", ");
+
+  return (
+    <div className="space-y-4">
+      {canEdit && (
+        <form onSubmit={handleCommit} className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Winners</label>
+            <input
+              type="number"
+              min={1}
+              value={winnerCount}
+              onChange={(e) => setWinnerCount(e.target.value)}
+              className="w-24 p-2 border border-gray-300 rounded text-sm"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Weight by</label>
+            <select
+              value={weightField}
+              onChange={(e) => setWeightField(e.target.value)}
+              className="p-2 border border-gray-300 rounded text-sm"
+            >
+              <option value="">One ticket per entry</option>
+              {fields
+                .filter((field) => WEIGHT_FIELD_TYPES.includes(field.type))
+                .map((field) => (
+                  <option key={field.name} value={field.name}>
+                    {field.label}
+                  </option>
+                ))}
+            </select>
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700 pb-2">
+            <input
+              type="checkbox"
+              checked={approvedOnly}
+              onChange={(e) => setApprovedOnly(e.target.checked)}
+            />
+            <span>Approved entries only</span>
+          </label>
+          <button
+            type="submit"
+            disabled={operation !== null}
+            className={`px-4 py-2 rounded text-white text-sm ${
+              operation !== null
+                ? "bg-gray-400 cursor-not-allowed"
+                : "bg-blue-600 hover:bg-blue-700 cursor-pointer"
+            }`}
+          >
+            {operation === "committing" ? "Committing..." : "Commit New Draw"}
+          </button>
+        </form>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading draws...</p>
+      ) : draws.length === 0 ? (
+        <p className="text-sm text-gray-500">No draws for this topic yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {draws.map((draw) => (
+            <li key={draw.id} className="bg-white border border-gray-200 rounded p-3 text-sm">
+              <div className="flex items-center justify-between">
+                <div>
+                  <span className="font-medium text-gray-900">{describeDraw(draw)}</span>
+                  <span className="ml-2 text-xs text-gray-500">
+                    Committed {format(draw.committedAt, DRAW_DATE_FORMAT)}
+                    {draw.committedBy && ` by ${draw.committedBy}`}
+                  </span>
+                </div>
+                {draw.status === "committed" ? (
+                  canEdit && (
+                    <button
+                      onClick={() => handleReveal(draw.id)}
+                      disabled={operation !== null}
+                      className={`text-blue-600 hover:text-blue-900 cursor-pointer ${
+                        operation !== null ? "opacity-50 cursor-not-allowed" : ""
+                      }`}
+                    >
+                      {operation === `revealing-${draw.id}`
+                        ? "Drawing..."
+                        : "Reveal & Draw Winners"}
+                    </button>
+                  )
+                ) : (
+                  <a
+                    href={`/api/draws/export?id=${draw.id}`}
+                    className="text-green-600 hover:text-green-900"
+                  >
+                    Download Record
+                  </a>
+                )}
+              </div>
+              <dl className="mt-2 text-xs text-gray-600 space-y-1 font-mono break-all">
+                <div>
+                  <dt className="inline font-sans text-gray-500">Seed hash: </dt>
+                  <dd className="inline">{draw.seedHash}</dd>
+                </div>
+                {draw.seed && (
+                  <div>
+                    <dt className="inline font-sans text-gray-500">Seed: </dt>
+                    <dd className="inline">{draw.seed}</dd>
+                  </div>
+                )}
+                {draw.entrySetHash && (
+                  <div>
+                    <dt className="inline font-sans text-gray-500">
+                      Entry set hash ({draw.entryCount} entries):{" "}
+                    </dt>
+                    <dd className="inline">{draw.entrySetHash}</dd>
+                  </div>
+                )}
+              </dl>
+              {draw.status === "drawn" && (
+                <ol className="mt-2 list-decimal list-inside text-gray-700">
+                  {draw.winners.map((winner) => (
+                    <li key={winner.id}>
+                      <span className="font-mono">{winner.id}</span>
+                      {winner.wallet && (
+                        <span className="ml-2 font-mono text-gray-500">{winner.wallet}</span>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+              {draw.drawnAt && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Drawn {format(draw.drawnAt, DRAW_DATE_FORMAT)}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
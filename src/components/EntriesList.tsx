@@ -1,20 +1,53 @@
 "use client";
 import { useState, useEffect } from "react";
-import { Parser } from "json2csv";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { format } from "date-fns";
 import { toast } from "sonner";
 import { ErrorBoundary } from './ErrorBoundary';
+import SortableHeader from "./SortableHeader";
+import MerkleAllowlistPanel from "./MerkleAllowlistPanel";
+import AirdropPanel from "./AirdropPanel";
+import { useAuth } from "@/contexts/AuthContext";
+import { hasRole } from "@/utils/roles";
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  formatFieldValue,
+  getEntryExportFields,
+} from "@/utils/entryFields";
+import { DEFAULT_FORM_FIELDS, FormField } from "@/utils/formFields";
+import {
+  ENTRY_STATUSES,
+  ENTRY_STATUS_LABELS,
+  EntryStatus,
+  getEntryStatus,
+  STATUSES_REQUIRING_REASON,
+} from "@/utils/entryStatus";
+import {
+  describeRiskReasons,
+  EntryRisk,
+  RISK_LEVEL_LABELS,
+  RISK_LEVELS,
+  RiskLevel,
+} from "@/utils/entryRisk";
+import { EntrySortKey, SortOrder, toggleSort } from "@/utils/sorting";
 
 interface Entry {
   id: string;
   topicId: string;
-  telegramUsername: string;
-  platformUsername: string;
-  walletAddress: string;
+  telegramUsername?: string;
+  platformUsername?: string;
+  walletAddress?: string;
   discordUsername?: string;
-  email: string;
+  email?: string;
+  status?: EntryStatus;
+  statusReason?: string | null;
+  reviewedBy?: string | null;
+  risk?: EntryRisk;
   createdAt: number;
   topicName: string;
+  // Values of the topic's own form fields
+  [field: string]: unknown;
 }
 
 interface PaginationInfo {
@@ -22,31 +55,211 @@ interface PaginationInfo {
   page: number;
   limit: number;
   totalPages: number;
+  nextCursor: string | null;
+}
+
+const STATUS_BADGE_CLASSES: Record<EntryStatus, string> = {
+  pending: "bg-gray-100 text-gray-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  flagged: "bg-yellow-100 text-yellow-800",
+};
+
+// Form fields the table can sort by, with their sort keys
+const FIELD_SORT_KEYS: Record<string, EntrySortKey> = {
+  telegramUsername: "telegram",
+  platformUsername: "platform",
+  walletAddress: "wallet",
+  discordUsername: "discord",
+  email: "email",
+};
+
+const RISK_BADGE_CLASSES: Record<RiskLevel, string> = {
+  low: "bg-gray-100 text-gray-800",
+  medium: "bg-yellow-100 text-yellow-800",
+  high: "bg-red-100 text-red-800",
+};
+
+// Review actions offered on each row, in display order
+const REVIEW_ACTIONS: { status: EntryStatus; label: string; className: string }[] = [
+  { status: "approved", label: "Approve", className: "text-green-600 hover:text-green-900" },
+  { status: "rejected", label: "Reject", className: "text-red-600 hover:text-red-900" },
+  { status: "flagged", label: "Flag", className: "text-yellow-600 hover:text-yellow-900" },
+];
+
+interface EntryFilters {
+  status: EntryStatus | "";
+  risk: RiskLevel | "";
+  wallet: string;
+  email: string;
+  telegram: string;
+  discord: string;
+  platform: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: EntryFilters = {
+  status: "",
+  risk: "",
+  wallet: "",
+  email: "",
+  telegram: "",
+  discord: "",
+  platform: "",
+  from: "",
+  to: "",
+};
+
+const FILTER_KEYS = Object.keys(EMPTY_FILTERS) as (keyof EntryFilters)[];
+
+// Filters live in the URL as typed, so a search can be bookmarked or shared
+const readFilters = (
+  searchParams: { get: (name: string) => string | null } | null
+): EntryFilters => {
+  const status = searchParams?.get("status") || "";
+  const risk = searchParams?.get("risk") || "";
+  return {
+    status: ENTRY_STATUSES.includes(status as EntryStatus)
+      ? (status as EntryStatus)
+      : "",
+    risk: RISK_LEVELS.includes(risk as RiskLevel) ? (risk as RiskLevel) : "",
+    wallet: searchParams?.get("wallet") || "",
+    email: searchParams?.get("email") || "",
+    telegram: searchParams?.get("telegram") || "",
+    discord: searchParams?.get("discord") || "",
+    platform: searchParams?.get("platform") || "",
+    from: searchParams?.get("from") || "",
+    to: searchParams?.get("to") || "",
+  };
+};
+
+const isSameFilters = (a: EntryFilters, b: EntryFilters) =>
+  FILTER_KEYS.every((key) => a[key] === b[key]);
+
+// Date inputs give local calendar days; `to` covers the whole day
+const toFilterParams = (filters: EntryFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  FILTER_KEYS.forEach((key) => {
+    if (filters[key] && key !== "from" && key !== "to") {
+      params.append(key, filters[key]);
+    }
+  });
+  if (filters.from) {
+    params.append("from", new Date(`${filters.from}T00:00`).getTime().toString());
+  }
+  if (filters.to) {
+    params.append(
+      "to",
+      new Date(`${filters.to}T23:59:59.999`).getTime().toString()
+    );
+  }
+  return params;
+};
+
+const filterInputClassName =
+  "px-3 py-2 border border-gray-300 rounded text-sm text-gray-700";
+
+// Ids sent per bulk request, so progress can be shown between requests
+const BULK_CHUNK_SIZE = 100;
+
+interface BulkEntryResult {
+  id: string;
+  ok: boolean;
+  error?: string;
+}
+
+interface BulkProgress {
+  label: string;
+  done: number;
+  total: number;
 }
 
 interface EntriesListProps {
   topicId?: string;
   topicName?: string;
+  // The topic's form, which sets the table and export columns; lists
+  // spanning topics show the default form's fields
+  formFields?: FormField[];
 }
 
-export default function EntriesList({ topicId, topicName }: EntriesListProps) {
+/**
+ * Ask why an entry is being given a status, for statuses that need a reason
+ * @returns The reason, undefined when none is needed, or null if cancelled
+ */
+const promptForReason = (status: EntryStatus): string | undefined | null => {
+  if (!STATUSES_REQUIRING_REASON.includes(status)) {
+    return undefined;
+  }
+  const input = prompt(
+    `Why is this being ${ENTRY_STATUS_LABELS[status].toLowerCase()}?`
+  );
+  if (input === null) {
+    return null;
+  }
+  if (!input.trim()) {
+    toast.error("A reason is required");
+    return null;
+  }
+  return input.trim();
+};
+
+export default function EntriesList({
+  topicId,
+  topicName,
+  formFields,
+}: EntriesListProps) {
   const [entries, setEntries] = useState<Entry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [rescanning, setRescanning] = useState(false);
+  const { role } = useAuth();
+  const canDelete = hasRole(role, "editor");
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [filters, setFilters] = useState<EntryFilters>(() =>
+    readFilters(searchParams)
+  );
+  const [appliedFilters, setAppliedFilters] = useState<EntryFilters>(filters);
+  const [sort, setSort] = useState<{ key: EntrySortKey; order: SortOrder }>({
+    key: "createdAt",
+    order: "desc",
+  });
+  const hasFilters = FILTER_KEYS.some((key) => appliedFilters[key]);
   const [exporting, setExporting] = useState(false);
+  const [exportApprovedOnly, setExportApprovedOnly] = useState(false);
+  // Selections survive paging but not a change of filter
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [selectingAll, setSelectingAll] = useState(false);
+  const [bulkStatus, setBulkStatus] = useState<EntryStatus>("approved");
+  const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const exportFields = getEntryExportFields(formFields);
+  const tableFields = formFields || DEFAULT_FORM_FIELDS;
+  const [exportColumns, setExportColumns] = useState<string[]>(() =>
+    exportFields.map((field) => field.key)
+  );
+  const [showColumnPicker, setShowColumnPicker] = useState(false);
   const [debouncedTopicName, setDebouncedTopicName] = useState(topicName);
   const [pagination, setPagination] = useState<PaginationInfo>({
     total: 0,
     page: 1,
     limit: 10,
     totalPages: 0,
+    nextCursor: null,
   });
+  // pageCursors[i] is the cursor that loads page i + 1; page 1 needs none
+  const [pageCursors, setPageCursors] = useState<(string | null)[]>([null]);
 
-  // Debounce topicName changes
+  // Debounce topicName changes, restarting from the first page
   useEffect(() => {
     const timer = setTimeout(() => {
       setDebouncedTopicName(topicName);
+      setPageCursors([null]);
+      setPagination((prev) => ({ ...prev, page: 1 }));
     }, 500);
 
     return () => clearTimeout(timer);
@@ -54,22 +267,50 @@ export default function EntriesList({ topicId, topicName }: EntriesListProps) {
 
   useEffect(() => {
     fetchEntries();
-  }, [topicId, debouncedTopicName, pagination.page]);
+  }, [topicId, debouncedTopicName, appliedFilters, sort, pagination.page]);
+
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [topicId, debouncedTopicName, appliedFilters]);
+
+  // Follow the URL when it changes underneath the list, e.g. after going back
+  useEffect(() => {
+    const urlFilters = readFilters(searchParams);
+    if (!isSameFilters(urlFilters, appliedFilters)) {
+      setFilters(urlFilters);
+      setAppliedFilters(urlFilters);
+      setPageCursors([null]);
+      setPagination((prev) => ({ ...prev, page: 1 }));
+    }
+  }, [searchParams]);
+
+  // The filters shared by the list and "select all matching"
+  const getFilterParams = () => {
+    const queryParams = toFilterParams(appliedFilters);
+
+    if (topicId) {
+      queryParams.append("topicId", topicId);
+    }
+
+    if (debouncedTopicName) {
+      queryParams.append("topicName", debouncedTopicName);
+    }
+
+    return queryParams;
+  };
 
   const fetchEntries = async () => {
     setLoading(true);
     try {
-      const queryParams = new URLSearchParams({
-        page: pagination.page.toString(),
-        limit: pagination.limit.toString(),
-      });
+      const queryParams = getFilterParams();
+      queryParams.append("page", pagination.page.toString());
+      queryParams.append("limit", pagination.limit.toString());
+      queryParams.append("sort", sort.key);
+      queryParams.append("order", sort.order);
 
-      if (topicId) {
-        queryParams.append("topicId", topicId);
-      }
-
-      if (debouncedTopicName) {
-        queryParams.append("topicName", debouncedTopicName);
+      const cursor = pageCursors[pagination.page - 1];
+      if (cursor) {
+        queryParams.append("cursor", cursor);
       }
 
       const response = await fetch(`/api/entries?${queryParams}`, {
@@ -79,9 +320,14 @@ export default function EntriesList({ topicId, topicName }: EntriesListProps) {
         throw new Error("Failed to fetch entries");
       }
 
-      const data = await response.json();
+      const data: { entries: Entry[]; pagination: PaginationInfo } =
+        await response.json();
       setEntries(data.entries);
       setPagination(data.pagination);
+      setPageCursors((prev) => [
+        ...prev.slice(0, data.pagination.page),
+        data.pagination.nextCursor,
+      ]);
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred");
       toast.error("Failed to fetch entries");
@@ -90,10 +336,122 @@ export default function EntriesList({ topicId, topicName }: EntriesListProps) {
     }
   };
 
+  // Cursors only allow stepping one page at a time in either direction
   const handlePageChange = (newPage: number) => {
+    if (newPage < 1 || (newPage > 1 && !pageCursors[newPage - 1])) {
+      return;
+    }
     setPagination((prev) => ({ ...prev, page: newPage }));
   };
 
+  const applyFilters = (next: EntryFilters) => {
+    const trimmed: EntryFilters = {
+      ...next,
+      wallet: next.wallet.trim(),
+      email: next.email.trim(),
+      telegram: next.telegram.trim(),
+      discord: next.discord.trim(),
+      platform: next.platform.trim(),
+    };
+    const params = new URLSearchParams();
+    FILTER_KEYS.forEach((key) => {
+      if (trimmed[key]) {
+        params.set(key, trimmed[key]);
+      }
+    });
+    setAppliedFilters(trimmed);
+    setPageCursors([null]);
+    setPagination((prev) => ({ ...prev, page: 1 }));
+    const query = params.toString();
+    router.replace(`${pathname ?? ""}${query ? `?${query}` : ""}`, {
+      scroll: false,
+    });
+  };
+
+  // Cursors belong to one sort, so a new sort starts from the first page
+  const handleSort = (key: EntrySortKey) => {
+    setSort(toggleSort(sort, key));
+    setPageCursors([null]);
+    setPagination((prev) => ({ ...prev, page: 1 }));
+  };
+
+  const handleFilterSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    applyFilters(filters);
+  };
+
+  const handleClearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    applyFilters(EMPTY_FILTERS);
+  };
+
+  // Entries may have left the current page, so start again from the first
+  const reloadFromFirstPage = async () => {
+    if (pagination.page === 1) {
+      await fetchEntries();
+      return;
+    }
+    setPageCursors([null]);
+    setPagination((prev) => ({ ...prev, page: 1 }));
+  };
+
+  const handleReview = async (id: string, status: EntryStatus) => {
+    const reason = promptForReason(status);
+    if (reason === null) {
+      return;
+    }
+
+    setReviewingId(id);
+    try {
+      const response = await fetch("/api/entries", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ id, status, reason }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to review entry");
+      }
+
+      toast.success(`Entry marked as ${ENTRY_STATUS_LABELS[status].toLowerCase()}`);
+      await fetchEntries();
+    } catch (err) {
+      toast.error("Failed to review entry");
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  // Re-score every entry in the topic, e.g. after tuning or for legacy entries
+  const handleRescan = async () => {
+    if (!topicId) {
+      return;
+    }
+    setRescanning(true);
+    try {
+      const response = await fetch("/api/entries/rescan", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ topicId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to re-scan entries");
+      }
+
+      toast.success(
+        `Scanned ${data.scanned} entries, ${data.flagged} at medium or high risk`
+      );
+      await fetchEntries();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to re-scan entries");
+    } finally {
+      setRescanning(false);
+    }
+  };
+
   const handleDelete = async (id: string) => {
     if (!confirm("Are you sure you want to delete this entry? This action cannot be undone.")) {
       return;
@@ -121,42 +479,184 @@ export default function EntriesList({ topicId, topicName }: EntriesListProps) {
     }
   };
 
-  const handleExportCSV = () => {
-    if (entries.length === 0) {
-      toast.error("No entries to export");
+  const isPageSelected =
+    entries.length > 0 && entries.every((entry) => selectedIds.has(entry.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(id)) {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const togglePageSelected = () => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      entries.forEach((entry) => {
+        if (isPageSelected) {
+          next.delete(entry.id);
+        } else {
+          next.add(entry.id);
+        }
+      });
+      return next;
+    });
+  };
+
+  const handleSelectAllMatching = async () => {
+    setSelectingAll(true);
+    try {
+      const response = await fetch(`/api/entries/bulk?${getFilterParams()}`, {
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to select entries");
+      }
+      setSelectedIds(new Set(data.ids as string[]));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to select entries");
+    } finally {
+      setSelectingAll(false);
+    }
+  };
+
+  /**
+   * Apply an action to every selected entry, a chunk at a time. Entries the
+   * action failed for stay selected so it can be retried.
+   */
+  const runBulkAction = async (
+    label: string,
+    action: { action: "delete" } | { action: "review"; status: EntryStatus; reason?: string }
+  ) => {
+    const ids = Array.from(selectedIds);
+    const failedIds: string[] = [];
+    setBulkProgress({ label, done: 0, total: ids.length });
+
+    for (let i = 0; i < ids.length; i += BULK_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + BULK_CHUNK_SIZE);
+      try {
+        const response = await fetch("/api/entries/bulk", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ ...action, ids: chunk }),
+        });
+        if (!response.ok) {
+          throw new Error("Bulk request failed");
+        }
+        const data: { results: BulkEntryResult[] } = await response.json();
+        failedIds.push(
+          ...data.results.filter((result) => !result.ok).map((result) => result.id)
+        );
+      } catch (err) {
+        failedIds.push(...chunk);
+      }
+      setBulkProgress({ label, done: i + chunk.length, total: ids.length });
+    }
+
+    setBulkProgress(null);
+    setSelectedIds(new Set(failedIds));
+    const succeeded = ids.length - failedIds.length;
+    if (succeeded > 0) {
+      toast.success(`${label}: ${succeeded} of ${ids.length} entries done`);
+    }
+    if (failedIds.length > 0) {
+      toast.error(`${label}: ${failedIds.length} entries failed and are still selected`);
+    }
+    await reloadFromFirstPage();
+  };
+
+  const handleBulkDelete = async () => {
+    if (
+      !confirm(
+        `Are you sure you want to delete ${selectedIds.size} entries? This action cannot be undone.`
+      )
+    ) {
+      return;
+    }
+    await runBulkAction("Deleting entries", { action: "delete" });
+  };
+
+  const handleBulkReview = async () => {
+    const reason = promptForReason(bulkStatus);
+    if (reason === null) {
+      return;
+    }
+    await runBulkAction(`Marking entries ${ENTRY_STATUS_LABELS[bulkStatus].toLowerCase()}`, {
+      action: "review",
+      status: bulkStatus,
+      reason,
+    });
+  };
+
+  const toggleExportColumn = (key: string) => {
+    setExportColumns((prev) =>
+      prev.includes(key)
+        ? prev.filter((column) => column !== key)
+        : exportFields.map((field) => field.key).filter(
+            (column) => column === key || prev.includes(column)
+          )
+    );
+  };
+
+  /**
+   * Download entries in the chosen format
+   * @param ids The selected entries, or every entry matching the filters
+   * when omitted
+   */
+  const handleExport = async (ids?: string[]) => {
+    if (exportColumns.length === 0) {
+      toast.error("Select at least one column to export");
       return;
     }
 
     setExporting(true);
     try {
-      const fields = [
-        { label: "Topic Name", value: "topicName" },
-        { label: "Telegram Username", value: "telegramUsername" },
-        { label: "Platform Username", value: "platformUsername" },
-        { label: "Wallet Address", value: "walletAddress" },
-        { label: "Discord Username", value: "discordUsername" },
-        { label: "Email", value: "email" },
-        {
-          label: "Submission Date",
-          value: (row: Entry) => format(row.createdAt, "MMM d, yyyy h:mm a"),
-        },
-      ];
-
-      const parser = new Parser({ fields });
-      const csv = parser.parse(entries);
-      const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+      const options = {
+        format: exportFormat,
+        fields: exportColumns.join(","),
+        ...(exportApprovedOnly && { status: "approved" }),
+      };
+      const queryParams = getFilterParams();
+      Object.entries(options).forEach(([key, value]) => queryParams.set(key, value));
+
+      // The server streams every matching entry, not just the loaded page.
+      // Selections are posted since their ids don't fit in a URL.
+      const response = ids
+        ? await fetch("/api/entries/export", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            credentials: "include",
+            body: JSON.stringify({ ...options, ids, topicId }),
+          })
+        : await fetch(`/api/entries/export?${queryParams}`, {
+            credentials: "include",
+          });
+      if (!response.ok) {
+        throw new Error("Failed to export entries");
+      }
+
+      const blob = await response.blob();
       const url = URL.createObjectURL(blob);
       const link = document.createElement("a");
       link.setAttribute("href", url);
-      link.setAttribute("download", `Entries${topicName ? ` - ${topicName}` : ""}.csv`);
+      link.setAttribute(
+        "download",
+        `Entries${ids ? " - Selected" : topicName ? ` - ${topicName}` : ""}.${exportFormat}`
+      );
       link.style.visibility = "hidden";
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
+      URL.revokeObjectURL(url);
       toast.success("Entries exported successfully");
     } catch (err) {
-      console.error("Error exporting CSV:", err);
-      toast.error("Failed to export entries to CSV");
+      console.error("Error exporting entries:", err);
+      toast.error(`Failed to export entries to ${exportFormat.toUpperCase()}`);
     } finally {
       setExporting(false);
     }
@@ -204,7 +704,8 @@ export default function EntriesList({ topicId, topicName }: EntriesListProps) {
     );
   }
 
-  if (entries.length === 0) {
+  // Keep the filters while filtering so they can be changed back
+  if (entries.length === 0 && !hasFilters) {
     return (
       <ErrorBoundary>
         <div className="bg-gray-50 border border-gray-200 rounded p-4">
@@ -221,137 +722,486 @@ export default function EntriesList({ topicId, topicName }: EntriesListProps) {
           <h3 className="text-lg font-medium text-gray-900">
             {topicName ? `Entries for "${topicName}"` : "All Entries"}
           </h3>
-          <button
-            onClick={handleExportCSV}
-            disabled={exporting || entries.length === 0}
-            className={`px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition-colors ${
-              exporting || entries.length === 0 ? "opacity-50 cursor-not-allowed" : ""
-            }`}
+          <div className="flex items-center space-x-2">
+            <div className="relative">
+              <button
+                type="button"
+                onClick={() => setShowColumnPicker((prev) => !prev)}
+                className="px-3 py-2 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50"
+              >
+                Columns ({exportColumns.length})
+              </button>
+              {showColumnPicker && (
+                <div className="absolute right-0 z-10 mt-2 w-56 bg-white border border-gray-200 rounded shadow-lg p-3 space-y-2">
+                  {exportFields.map((field) => (
+                    <label
+                      key={field.key}
+                      className="flex items-center space-x-2 text-sm text-gray-700"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={exportColumns.includes(field.key)}
+                        onChange={() => toggleExportColumn(field.key)}
+                      />
+                      <span>{field.label}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              disabled={exporting}
+              className="px-3 py-2 border border-gray-300 rounded text-sm text-gray-700"
+            >
+              {EXPORT_FORMATS.map((exportOption) => (
+                <option key={exportOption} value={exportOption}>
+                  {exportOption.toUpperCase()}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center space-x-1 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={exportApprovedOnly}
+                onChange={(e) => setExportApprovedOnly(e.target.checked)}
+                disabled={exporting}
+              />
+              <span>Approved only</span>
+            </label>
+            <button
+              onClick={() => handleExport()}
+              disabled={exporting || entries.length === 0}
+              className={`px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition-colors ${
+                exporting || entries.length === 0 ? "opacity-50 cursor-not-allowed" : ""
+              }`}
+            >
+              {exporting ? (
+                <span className="flex items-center space-x-2">
+                  <svg
+                    className="animate-spin h-4 w-4 text-white"
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                  >
+                    <circle
+                      className="opacity-25"
+                      cx="12"
+                      cy="12"
+                      r="10"
+                      stroke="currentColor"
+                      strokeWidth="4"
+                    ></circle>
+                    <path
+                      className="opacity-75"
+                      fill="currentColor"
+                      d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                    ></path>
+                  </svg>
+                  <span>Exporting...</span>
+                </span>
+              ) : (
+                `Export to ${exportFormat.toUpperCase()}`
+              )}
+            </button>
+          </div>
+        </div>
+
+        {topicId && <MerkleAllowlistPanel topicId={topicId} canEdit={canDelete} />}
+        {topicId && <AirdropPanel topicId={topicId} topicName={topicName} />}
+
+        <form
+          onSubmit={handleFilterSubmit}
+          className="p-4 border-b border-gray-200 grid grid-cols-1 md:grid-cols-4 gap-3"
+        >
+          <select
+            value={filters.status}
+            onChange={(e) =>
+              setFilters({ ...filters, status: e.target.value as EntryStatus | "" })
+            }
+            className={filterInputClassName}
           >
-            {exporting ? (
-              <span className="flex items-center space-x-2">
-                <svg
-                  className="animate-spin h-4 w-4 text-white"
-                  xmlns="http://www.w3.org/2000/svg"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                >
-                  <circle
-                    className="opacity-25"
-                    cx="12"
-                    cy="12"
-                    r="10"
-                    stroke="currentColor"
-                    strokeWidth="4"
-                  ></circle>
-                  <path
-                    className="opacity-75"
-                    fill="currentColor"
-                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                  ></path>
-                </svg>
-                <span>Exporting...</span>
-              </span>
-            ) : (
-              "Export to CSV"
+            <option value="">All statuses</option>
+            {ENTRY_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {ENTRY_STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.risk}
+            onChange={(e) =>
+              setFilters({ ...filters, risk: e.target.value as RiskLevel | "" })
+            }
+            className={filterInputClassName}
+          >
+            <option value="">Any risk</option>
+            {RISK_LEVELS.map((level) => (
+              <option key={level} value={level}>
+                {RISK_LEVEL_LABELS[level]} risk
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={filters.wallet}
+            onChange={(e) => setFilters({ ...filters, wallet: e.target.value })}
+            placeholder="Wallet (starts with 0x...)"
+            className={filterInputClassName}
+          />
+          <input
+            type="text"
+            value={filters.email}
+            onChange={(e) => setFilters({ ...filters, email: e.target.value })}
+            placeholder="Email or domain"
+            className={filterInputClassName}
+          />
+          <input
+            type="text"
+            value={filters.telegram}
+            onChange={(e) => setFilters({ ...filters, telegram: e.target.value })}
+            placeholder="Telegram username"
+            className={filterInputClassName}
+          />
+          <input
+            type="text"
+            value={filters.discord}
+            onChange={(e) => setFilters({ ...filters, discord: e.target.value })}
+            placeholder="Discord username"
+            className={filterInputClassName}
+          />
+          <input
+            type="text"
+            value={filters.platform}
+            onChange={(e) => setFilters({ ...filters, platform: e.target.value })}
+            placeholder="Platform username"
+            className={filterInputClassName}
+          />
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            className={filterInputClassName}
+            aria-label="Submitted from"
+          />
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            className={filterInputClassName}
+            aria-label="Submitted to"
+          />
+          <div className="md:col-span-4 flex justify-between items-center">
+            <div className="space-x-2">
+              <button
+                type="submit"
+                className="px-4 py-2 rounded text-white text-sm font-medium bg-blue-600 hover:bg-blue-700"
+              >
+                Apply Filters
+              </button>
+              <button
+                type="button"
+                onClick={handleClearFilters}
+                className="px-4 py-2 rounded border border-gray-300 text-sm text-gray-700 hover:bg-gray-100"
+              >
+                Clear
+              </button>
+            </div>
+            {topicId && canDelete && (
+              <button
+                type="button"
+                onClick={handleRescan}
+                disabled={rescanning}
+                className={`px-4 py-2 rounded border border-gray-300 text-sm text-gray-700 ${
+                  rescanning ? "opacity-50 cursor-not-allowed" : "hover:bg-gray-100"
+                }`}
+              >
+                {rescanning ? "Re-scanning..." : "Re-scan risk"}
+              </button>
             )}
-          </button>
-        </div>
+          </div>
+        </form>
+
+        {(selectedIds.size > 0 || bulkProgress) && (
+          <div className="px-4 py-3 bg-blue-50 border-b border-blue-100 flex flex-wrap items-center gap-3 text-sm">
+            <span className="font-medium text-blue-900">
+              {selectedIds.size} selected
+            </span>
+            {isPageSelected && selectedIds.size < pagination.total && (
+              <button
+                onClick={handleSelectAllMatching}
+                disabled={selectingAll || !!bulkProgress}
+                className="text-blue-700 hover:text-blue-900 underline disabled:opacity-50"
+              >
+                {selectingAll
+                  ? "Selecting..."
+                  : `Select all ${pagination.total} matching entries`}
+              </button>
+            )}
+            <button
+              onClick={() => setSelectedIds(new Set())}
+              disabled={!!bulkProgress}
+              className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+            >
+              Clear selection
+            </button>
+            <div className="ml-auto flex items-center gap-2">
+              <button
+                onClick={() => handleExport(Array.from(selectedIds))}
+                disabled={exporting || !!bulkProgress || selectedIds.size === 0}
+                className="px-3 py-1.5 border border-gray-300 bg-white rounded text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Export selected
+              </button>
+              {canDelete && (
+                <>
+                  <select
+                    value={bulkStatus}
+                    onChange={(e) => setBulkStatus(e.target.value as EntryStatus)}
+                    disabled={!!bulkProgress}
+                    className="px-2 py-1.5 border border-gray-300 rounded text-gray-700"
+                  >
+                    {ENTRY_STATUSES.map((status) => (
+                      <option key={status} value={status}>
+                        {ENTRY_STATUS_LABELS[status]}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleBulkReview}
+                    disabled={!!bulkProgress || selectedIds.size === 0}
+                    className="px-3 py-1.5 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Set status
+                  </button>
+                  <button
+                    onClick={handleBulkDelete}
+                    disabled={!!bulkProgress || selectedIds.size === 0}
+                    className="px-3 py-1.5 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                  >
+                    Delete selected
+                  </button>
+                </>
+              )}
+            </div>
+            {bulkProgress && (
+              <div className="w-full">
+                <div className="flex justify-between text-gray-700 mb-1">
+                  <span>{bulkProgress.label}...</span>
+                  <span>
+                    {bulkProgress.done} / {bulkProgress.total}
+                  </span>
+                </div>
+                <div className="w-full bg-blue-100 rounded-full h-2">
+                  <div
+                    className="bg-blue-600 h-2 rounded-full transition-all"
+                    style={{
+                      width: `${(bulkProgress.done / bulkProgress.total) * 100}%`,
+                    }}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
 
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Topic Name
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Telegram
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Platform
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Wallet
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Discord
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Email
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Date
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Actions
+                <th className="px-4 py-3">
+                  <input
+                    type="checkbox"
+                    aria-label="Select all entries on this page"
+                    checked={isPageSelected}
+                    onChange={togglePageSelected}
+                    disabled={entries.length === 0 || !!bulkProgress}
+                  />
                 </th>
+                <SortableHeader
+                  label="Topic Name"
+                  sortKey="topicName"
+                  sort={sort}
+                  onSort={handleSort}
+                />
+                {tableFields.map((field) =>
+                  FIELD_SORT_KEYS[field.name] ? (
+                    <SortableHeader
+                      key={field.name}
+                      label={field.label}
+                      sortKey={FIELD_SORT_KEYS[field.name]}
+                      sort={sort}
+                      onSort={handleSort}
+                    />
+                  ) : (
+                    <th
+                      key={field.name}
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {field.label}
+                    </th>
+                  )
+                )}
+                <SortableHeader
+                  label="Date"
+                  sortKey="createdAt"
+                  sort={sort}
+                  onSort={handleSort}
+                />
+                <SortableHeader
+                  label="Status"
+                  sortKey="status"
+                  sort={sort}
+                  onSort={handleSort}
+                />
+                <SortableHeader
+                  label="Risk"
+                  sortKey="risk"
+                  sort={sort}
+                  onSort={handleSort}
+                />
+                {canDelete && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                )}
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
+              {entries.length === 0 && (
+                <tr>
+                  <td
+                    colSpan={tableFields.length + (canDelete ? 6 : 5)}
+                    className="px-6 py-4 text-sm text-gray-600"
+                  >
+                    No entries match these filters.
+                  </td>
+                </tr>
+              )}
               {entries.map((entry) => (
                 <tr key={entry.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {entry.topicName}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {entry.telegramUsername}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {entry.platformUsername}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-mono">
-                    <span className="text-gray-900">
-                      {entry.walletAddress.slice(0, 6)}...
-                      {entry.walletAddress.slice(-4)}
-                    </span>
+                  <td className="px-4 py-4">
+                    <input
+                      type="checkbox"
+                      aria-label="Select entry"
+                      checked={selectedIds.has(entry.id)}
+                      onChange={() => toggleSelected(entry.id)}
+                      disabled={!!bulkProgress}
+                    />
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {entry.discordUsername || "-"}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                    {entry.email}
+                    {entry.topicName}
                   </td>
+                  {tableFields.map((field) => {
+                    const value = formatFieldValue(entry[field.name]);
+                    return field.type === "evmAddress" ? (
+                      <td
+                        key={field.name}
+                        className="px-6 py-4 whitespace-nowrap text-sm font-mono"
+                      >
+                        {value ? (
+                          <span className="text-gray-900" title={value}>
+                            {value.slice(0, 6)}...
+                            {value.slice(-4)}
+                          </span>
+                        ) : (
+                          "-"
+                        )}
+                      </td>
+                    ) : (
+                      <td
+                        key={field.name}
+                        className="px-6 py-4 whitespace-nowrap text-sm text-gray-900"
+                      >
+                        {value || "-"}
+                      </td>
+                    );
+                  })}
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     {format(entry.createdAt, "MMM d, yyyy h:mm a")}
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    <button
-                      onClick={() => handleDelete(entry.id)}
-                      disabled={deletingId === entry.id}
-                      className={`text-red-600 hover:text-red-900 ${
-                        deletingId === entry.id ? "opacity-50 cursor-not-allowed" : ""
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <span
+                      title={
+                        entry.statusReason
+                          ? `${entry.statusReason}${entry.reviewedBy ? ` (${entry.reviewedBy})` : ""}`
+                          : entry.reviewedBy || undefined
+                      }
+                      className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                        STATUS_BADGE_CLASSES[getEntryStatus(entry)]
                       }`}
                     >
-                      {deletingId === entry.id ? (
-                        <span className="flex items-center space-x-1">
-                          <svg
-                            className="animate-spin h-4 w-4"
-                            xmlns="http://www.w3.org/2000/svg"
-                            fill="none"
-                            viewBox="0 0 24 24"
-                          >
-                            <circle
-                              className="opacity-25"
-                              cx="12"
-                              cy="12"
-                              r="10"
-                              stroke="currentColor"
-                              strokeWidth="4"
-                            ></circle>
-                            <path
-                              className="opacity-75"
-                              fill="currentColor"
-                              d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                            ></path>
-                          </svg>
-                          <span>Deleting...</span>
-                        </span>
-                      ) : (
-                        "Delete"
-                      )}
-                    </button>
+                      {ENTRY_STATUS_LABELS[getEntryStatus(entry)]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {entry.risk ? (
+                      <span
+                        title={describeRiskReasons(entry.risk) || undefined}
+                        className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                          RISK_BADGE_CLASSES[entry.risk.level]
+                        }`}
+                      >
+                        {RISK_LEVEL_LABELS[entry.risk.level]} {entry.risk.score}
+                      </span>
+                    ) : (
+                      "-"
+                    )}
                   </td>
+                  {canDelete && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 space-x-3">
+                      {REVIEW_ACTIONS.filter(
+                        (action) => action.status !== getEntryStatus(entry)
+                      ).map((action) => (
+                        <button
+                          key={action.status}
+                          onClick={() => handleReview(entry.id, action.status)}
+                          disabled={reviewingId === entry.id}
+                          className={`${action.className} ${
+                            reviewingId === entry.id ? "opacity-50 cursor-not-allowed" : ""
+                          }`}
+                        >
+                          {action.label}
+                        </button>
+                      ))}
+                      <button
+                        onClick={() => handleDelete(entry.id)}
+                        disabled={deletingId === entry.id}
+                        className={`text-red-600 hover:text-red-900 ${
+                          deletingId === entry.id ? "opacity-50 cursor-not-allowed" : ""
+                        }`}
+                      >
+                        {deletingId === entry.id ? (
+                          <span className="flex items-center space-x-1">
+                            <svg
+                              className="animate-spin h-4 w-4"
+                              xmlns="http://www.w3.org/2000/svg"
+                              fill="none"
+                              viewBox="0 0 24 24"
+                            >
+                              <circle
+                                className="opacity-25"
+                                cx="12"
+                                cy="12"
+                                r="10"
+                                stroke="currentColor"
+                                strokeWidth="4"
+                              ></circle>
+                              <path
+                                className="opacity-75"
+                                fill="currentColor"
+                                d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                              ></path>
+                            </svg>
+                            <span>Deleting...</span>
+                          </span>
+                        ) : (
+                          "Delete"
+                        )}
+                      </button>
+                    </td>
+                  )}
                 </tr>
               ))}
             </tbody>
@@ -387,26 +1237,14 @@ export default function EntriesList({ topicId, topicName }: EntriesListProps) {
                 >
                   Previous
                 </button>
-                {Array.from({ length: pagination.totalPages }, (_, i) => i + 1).map(
-                  (pageNum) => (
-                    <button
-                      key={pageNum}
-                      onClick={() => handlePageChange(pageNum)}
-                      className={`relative inline-flex items-center px-4 py-2 border text-sm font-medium ${
-                        pageNum === pagination.page
-                          ? "z-10 bg-blue-50 border-blue-500 text-blue-600"
-                          : "bg-white border-gray-300 text-gray-500 hover:bg-gray-50"
-                      }`}
-                    >
-                      {pageNum}
-                    </button>
-                  )
-                )}
+                <span className="relative inline-flex items-center px-4 py-2 border border-gray-300 bg-white text-sm font-medium text-gray-700">
+                  Page {pagination.page} of {Math.max(1, pagination.totalPages)}
+                </span>
                 <button
                   onClick={() => handlePageChange(pagination.page + 1)}
-                  disabled={pagination.page === pagination.totalPages}
+                  disabled={!pagination.nextCursor}
                   className={`relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium ${
-                    pagination.page === pagination.totalPages
+                    !pagination.nextCursor
                       ? "text-gray-300 cursor-not-allowed"
                       : "text-gray-500 hover:bg-gray-50"
                   }`}
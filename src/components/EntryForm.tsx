@@ -1,197 +1,357 @@
 "use client";
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { isAddress } from "viem";
+import Link from "next/link";
 import { ErrorBoundary } from './ErrorBoundary';
 import { toast } from 'sonner';
+import {
+  FieldValue,
+  FormField,
+  getWalletField,
+  validateFieldValue,
+} from "@/utils/formFields";
+import {
+  ConnectedWallet,
+  connectWallet,
+  getInjectedProvider,
+  signWalletMessage,
+} from "@/utils/wallet";
 
 interface EntryFormProps {
   topicId: string;
   topicName: string;
+  fields: FormField[];
+  // Participants must sign a message proving they own the wallet they enter
+  requireWalletSignature?: boolean;
+  // Edit an existing entry with the link from its confirmation, instead of
+  // submitting a new one
+  editToken?: string;
+  initialValues?: FormData;
 }
 
-interface FormData {
-  telegramUsername: string;
-  platformUsername: string;
-  walletAddress: string;
-  discordUsername: string;
-  email: string;
+type FormData = Record<string, FieldValue>;
+
+// The edit link shown once the entry is saved, when the server issued one
+interface EditLinkDetails {
+  url: string;
+  expiresAt: number;
+  emailed: boolean;
 }
 
 interface ValidationErrors {
   [key: string]: string;
 }
 
-export default function EntryForm({ topicId, topicName }: EntryFormProps) {
+// Field types rendered as a plain <input>, mapped to its type attribute
+const INPUT_TYPES: Partial<Record<FormField["type"], string>> = {
+  email: "email",
+  url: "url",
+};
+
+const getEmptyFormData = (fields: FormField[]): FormData =>
+  fields.reduce((acc, field) => {
+    acc[field.name] = field.type === "checkbox" ? false : "";
+    return acc;
+  }, {} as FormData);
+
+// Shown instead of the server's message when a request is rate limited
+const getRateLimitMessage = (response: Response): string => {
+  const seconds = Number(response.headers.get("Retry-After")) || 60;
+  const wait =
+    seconds < 60
+      ? `${seconds} second${seconds === 1 ? "" : "s"}`
+      : `${Math.ceil(seconds / 60)} minute${seconds <= 60 ? "" : "s"}`;
+  return `You're submitting too quickly. Please wait ${wait} and try again.`;
+};
+
+// A random id kept in this browser and sent with each submission, so the
+// server can spot one device entering several times
+const DEVICE_ID_KEY = "entryDeviceId";
+
+const getDeviceId = (): string | undefined => {
+  try {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  } catch {
+    // Storage can be blocked, e.g. in private browsing
+    return undefined;
+  }
+};
+
+export default function EntryForm({
+  topicId,
+  topicName,
+  fields,
+  requireWalletSignature,
+  editToken,
+  initialValues,
+}: EntryFormProps) {
   const router = useRouter();
-  const [formData, setFormData] = useState<FormData>({
-    telegramUsername: "",
-    platformUsername: "",
-    walletAddress: "",
-    discordUsername: "",
-    email: "",
-  });
+  const isEditing = !!editToken;
+  const [formData, setFormData] = useState<FormData>(() => ({
+    ...getEmptyFormData(fields),
+    ...initialValues,
+  }));
   const [errors, setErrors] = useState<ValidationErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [isSuccess, setIsSuccess] = useState(false);
   const [isValidating, setIsValidating] = useState(false);
+  const [wallet, setWallet] = useState<ConnectedWallet | null>(null);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [sendEditLink, setSendEditLink] = useState(false);
+  const [editLink, setEditLink] = useState<EditLinkDetails | null>(null);
+  const [receiptCode, setReceiptCode] = useState<string | null>(null);
 
-  // Add field-specific validation functions
-  const validateTelegramUsername = (value: string): string | null => {
-    if (!value) return "Telegram username is required";
-    if (!value.startsWith('@')) return "Telegram username must start with '@'";
-    if (!/^@[a-zA-Z0-9_]+$/.test(value)) return "Telegram username can only contain letters, numbers, and underscores after the '@'";
-    if (value.length > 32) return "Telegram username is too long";
-    return null;
-  };
+  const walletField = requireWalletSignature ? getWalletField(fields) : undefined;
+  // An edit only needs a new signature when the wallet changes
+  const needsWalletProof =
+    !!walletField &&
+    (!isEditing ||
+      String(formData[walletField.name] || "").toLowerCase() !==
+        String(initialValues?.[walletField.name] || "").toLowerCase());
+  const hasEmailField = fields.some((field) => field.name === "email");
 
-  const validatePlatformUsername = (value: string): string | null => {
-    if (!value) return "Platform username is required";
-    
-    // Match the validation logic from the API endpoint
-    const hasSpecialChars = /[^a-zA-Z0-9_\.]/.test(value);
-    const isInvalidLength = value.length < 3 || value.length > 20;
-    const startsWithNumber = /^[0-9]/.test(value);
-    
-    if (hasSpecialChars) return "Username can only contain letters, numbers, underscores, and dots";
-    if (isInvalidLength) return "Username must be between 3 and 20 characters";
-    if (startsWithNumber) return "Username cannot start with a number";
-    
-    return null;
+  const fillWalletField = (address: string) => {
+    if (!walletField) return;
+    setFormData((prev) => ({ ...prev, [walletField.name]: address }));
+    setErrors((prev) => ({ ...prev, [walletField.name]: "" }));
   };
 
-  const validateWalletAddress = (value: string): string | null => {
-    if (!value) return "Wallet address is required";
-    if (!isAddress(value)) return "Invalid Ethereum wallet address";
-    return null;
-  };
+  // Follow account switches in the wallet, so the field always shows the
+  // account that will sign
+  useEffect(() => {
+    const provider = getInjectedProvider();
+    if (!walletField || !wallet || !provider) return;
 
-  const validateDiscordUsername = (value: string): string | null => {
-    if (!value) return null; // Optional field
-    if (!/^[a-zA-Z0-9_#]+$/.test(value)) return "Discord username can only contain letters, numbers, underscores, and #";
-    if (value.length > 32) return "Discord username is too long";
-    return null;
+    const handleAccountsChanged = (accounts: string[]) => {
+      const [address] = accounts;
+      if (address) {
+        setWallet((prev) => (prev ? { ...prev, address: address as `0x${string}` } : prev));
+        fillWalletField(address);
+      } else {
+        setWallet(null);
+        fillWalletField("");
+      }
+    };
+    const handleChainChanged = (chainId: string) => {
+      setWallet((prev) => (prev ? { ...prev, chainId: Number(chainId) } : prev));
+    };
+
+    provider.on("accountsChanged", handleAccountsChanged);
+    provider.on("chainChanged", handleChainChanged);
+    return () => {
+      provider.removeListener("accountsChanged", handleAccountsChanged);
+      provider.removeListener("chainChanged", handleChainChanged);
+    };
+  }, [walletField?.name, !!wallet]);
+
+  const handleConnectWallet = async () => {
+    setSubmitError(null);
+    setIsConnecting(true);
+    try {
+      const connected = await connectWallet();
+      setWallet(connected);
+      fillWalletField(connected.address);
+    } catch (error) {
+      setSubmitError(
+        error instanceof Error ? error.message : "Failed to connect your wallet"
+      );
+    } finally {
+      setIsConnecting(false);
+    }
   };
 
-  const validateEmail = (value: string): string | null => {
-    if (!value) return "Email is required";
-    
-    // Basic email format validation
-    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
-      return "Invalid email address";
+  /**
+   * Get a sign-in message for the connected wallet and have it signed
+   * @returns The proof to send with the entry, or null if it failed (the
+   *   error is already shown)
+   */
+  const proveWalletOwnership = async (): Promise<{
+    nonce: string;
+    signature: string;
+  } | null> => {
+    if (!wallet) {
+      setSubmitError("Connect your wallet to prove you own it.");
+      return null;
     }
-    
-    // Check for minimum 2 characters in the domain extension
-    const domainPart = value.split('@')[1];
-    const extension = domainPart.split('.').pop();
-    
-    if (!extension || extension.length < 2) {
-      return "Email domain extension must be at least 2 characters";
+
+    const response = await fetch("/api/wallet-nonce", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        topicId,
+        address: wallet.address,
+        chainId: wallet.chainId,
+      }),
+    });
+    if (response.status === 429) {
+      setSubmitError(getRateLimitMessage(response));
+      return null;
+    }
+    const data = await response.json();
+    if (!response.ok) {
+      setSubmitError(data.error || "Failed to start wallet verification");
+      return null;
+    }
+
+    try {
+      const signature = await signWalletMessage(wallet.address, data.message);
+      return { nonce: data.nonce, signature };
+    } catch (error) {
+      setSubmitError("The signature request was declined in your wallet.");
+      return null;
     }
-    
-    if (value.length > 254) return "Email address is too long";
-    return null;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setSubmitError(null);
 
+    // Validate every field before anything is sent
+    const fieldErrors = fields.reduce((acc, field) => {
+      const error = validateFieldValue(field, formData[field.name]);
+      if (error) {
+        acc[field.name] = error;
+      }
+      return acc;
+    }, {} as ValidationErrors);
+
+    if (Object.keys(fieldErrors).length > 0) {
+      setErrors(fieldErrors);
+      return;
+    }
+
+    const hasPlatformUsername = fields.some(
+      (field) => field.name === "platformUsername"
+    );
+
     setIsSubmitting(true);
-    setIsValidating(true);
+    setIsValidating(hasPlatformUsername);
 
     try {
-      // First validate platform username
-      const validationResponse = await fetch("/api/validate-platform-username", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        credentials: "include",
-        body: JSON.stringify({ username: formData.platformUsername }),
-      });
+      // First validate platform username, when the form asks for one
+      if (hasPlatformUsername) {
+        const validationResponse = await fetch("/api/validate-platform-username", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          body: JSON.stringify({ username: formData.platformUsername }),
+        });
 
-      const validationData = await validationResponse.json();
-      setIsValidating(false);
+        setIsValidating(false);
+        if (validationResponse.status === 429) {
+          setSubmitError(getRateLimitMessage(validationResponse));
+          setIsSubmitting(false);
+          return;
+        }
 
-      if (!validationResponse.ok || !validationData.isValid) {
-        setSubmitError("Invalid platform username. Please check the format and try again.");
-        setIsSubmitting(false);
+        const validationData = await validationResponse.json();
+
+        if (!validationResponse.ok || !validationData.isValid) {
+          setSubmitError("We couldn't find that platform username. Please check it and try again.");
+          setIsSubmitting(false);
+          return;
+        }
+      }
+
+      // Topics that require it get a signed proof of wallet ownership
+      const walletProof = needsWalletProof ? await proveWalletOwnership() : undefined;
+      if (walletProof === null) {
         return;
       }
 
       // If validation passes, submit the entry
-      const response = await fetch("/api/entries", {
-        method: "POST",
+      const response = await fetch(isEditing ? "/api/entries/edit" : "/api/entries", {
+        method: isEditing ? "PUT" : "POST",
         headers: {
           "Content-Type": "application/json",
         },
         credentials: "include",
-        body: JSON.stringify({
-          ...formData,
-          topicId,
-          topicName
-        }),
+        body: JSON.stringify(
+          isEditing
+            ? { ...formData, editToken, walletProof }
+            : {
+                ...formData,
+                topicId,
+                walletProof,
+                deviceId: getDeviceId(),
+                sendEditLink: hasEmailField && sendEditLink,
+              }
+        ),
       });
 
+      if (response.status === 429) {
+        setSubmitError(getRateLimitMessage(response));
+        return;
+      }
+
       const data = await response.json();
 
       if (!response.ok || data.error) {
-        setSubmitError(data.error || "Failed to submit entry");
+        setSubmitError(
+          data.error || (isEditing ? "Failed to update entry" : "Failed to submit entry")
+        );
         return;
       }
 
       setIsSuccess(true);
+      if (isEditing) {
+        toast.success("Entry updated successfully!");
+        return;
+      }
       toast.success("Entry submitted successfully!");
+      setReceiptCode(data.receiptCode || null);
+      if (data.editPath) {
+        setEditLink({
+          url: `${window.location.origin}${data.editPath}`,
+          expiresAt: data.editExpiresAt,
+          emailed: !!data.editLinkEmailed,
+        });
+      }
       // Reset form after successful submission
-      setFormData({
-        telegramUsername: "",
-        platformUsername: "",
-        walletAddress: "",
-        discordUsername: "",
-        email: "",
-      });
+      setFormData(getEmptyFormData(fields));
     } catch (error) {
       setSubmitError("An unexpected error occurred");
-      toast.error("Failed to submit entry");
+      toast.error(isEditing ? "Failed to update entry" : "Failed to submit entry");
     } finally {
       setIsSubmitting(false);
       setIsValidating(false);
     }
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
     const { name, value } = e.target;
-    setFormData((prev) => ({ ...prev, [name]: value }));
+    const nextValue =
+      e.target instanceof HTMLInputElement && e.target.type === "checkbox"
+        ? e.target.checked
+        : value;
+    setFormData((prev) => ({ ...prev, [name]: nextValue }));
     // Clear error when user starts typing
     if (errors[name]) {
       setErrors((prev) => ({ ...prev, [name]: "" }));
     }
   };
 
-  const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    let error: string | null = null;
-    
+  const handleBlur = (
+    e: React.FocusEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    const { name } = e.target;
+    const field = fields.find((field) => field.name === name);
+    if (!field) return;
+
     // Validate the field that lost focus
-    switch (name) {
-      case 'telegramUsername':
-        error = validateTelegramUsername(value);
-        break;
-      case 'platformUsername':
-        error = validatePlatformUsername(value);
-        break;
-      case 'walletAddress':
-        error = validateWalletAddress(value);
-        break;
-      case 'discordUsername':
-        error = validateDiscordUsername(value);
-        break;
-      case 'email':
-        error = validateEmail(value);
-        break;
-    }
+    const error = validateFieldValue(field, formData[name]);
     
     // Update errors state with the validation result
     setErrors(prev => ({
@@ -200,16 +360,160 @@ export default function EntryForm({ topicId, topicName }: EntryFormProps) {
     }));
   };
 
+  const handleCopyEditLink = async () => {
+    if (!editLink) return;
+    try {
+      await navigator.clipboard.writeText(editLink.url);
+      toast.success("Edit link copied");
+    } catch {
+      toast.error("Couldn't copy the link. Select it and copy it instead.");
+    }
+  };
+
+  const renderField = (field: FormField) => {
+    const disabled = isSubmitting || isValidating;
+    const className = `w-full p-2 border rounded ${
+      errors[field.name] ? "border-red-500" : "border-gray-300"
+    }`;
+
+    if (field.type === "checkbox") {
+      return (
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            name={field.name}
+            checked={formData[field.name] === true}
+            onChange={handleChange}
+            onBlur={handleBlur}
+            disabled={disabled}
+          />
+          <span>
+            {field.label}
+            {!field.required && " (Optional)"}
+          </span>
+        </label>
+      );
+    }
+
+    if (field.type === "select") {
+      return (
+        <select
+          name={field.name}
+          value={formData[field.name] as string}
+          onChange={handleChange}
+          onBlur={handleBlur}
+          className={className}
+          disabled={disabled}
+        >
+          <option value="">{field.placeholder || "Select an option"}</option>
+          {(field.options || []).map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      );
+    }
+
+    // The signed wallet's address comes from the wallet, not the keyboard
+    if (field.name === walletField?.name) {
+      return (
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            name={field.name}
+            value={formData[field.name] as string}
+            className={`${className} bg-gray-50`}
+            placeholder="Connect your wallet"
+            readOnly
+          />
+          <button
+            type="button"
+            onClick={handleConnectWallet}
+            disabled={disabled || isConnecting}
+            className={`px-4 rounded-md text-white text-sm font-medium whitespace-nowrap ${
+              disabled || isConnecting
+                ? "bg-gray-400 cursor-not-allowed"
+                : "bg-blue-600 hover:bg-blue-700"
+            }`}
+          >
+            {isConnecting
+              ? "Connecting..."
+              : wallet
+              ? "Change Wallet"
+              : "Connect Wallet"}
+          </button>
+        </div>
+      );
+    }
+
+    return (
+      <input
+        type={INPUT_TYPES[field.type] || "text"}
+        name={field.name}
+        value={formData[field.name] as string}
+        onChange={handleChange}
+        onBlur={handleBlur}
+        className={className}
+        placeholder={field.placeholder}
+        autoComplete="off"
+        disabled={disabled}
+      />
+    );
+  };
+
   if (isSuccess) {
     return (
       <ErrorBoundary>
         <div className="bg-green-50 border border-green-200 rounded p-4 mb-4">
           <h2 className="text-green-800 font-semibold">
-            Entry Submitted Successfully!
+            {isEditing ? "Entry Updated Successfully!" : "Entry Submitted Successfully!"}
           </h2>
           <p className="text-green-700">
-            Thank you for your submission for {topicName}.
+            {isEditing
+              ? `Your changes to your entry for ${topicName} were saved and will be reviewed again.`
+              : `Thank you for your submission for ${topicName}.`}
           </p>
+          {receiptCode && (
+            <div className="mt-4">
+              <p className="text-sm text-green-700">Your receipt code</p>
+              <p className="text-2xl font-mono font-semibold tracking-widest text-green-900">
+                {receiptCode}
+              </p>
+              <p className="text-sm text-green-700">
+                Keep it to check your entry&apos;s review status on the{" "}
+                <Link href="/status" className="underline hover:text-green-900">
+                  status page
+                </Link>{" "}
+                with the email you entered.
+              </p>
+            </div>
+          )}
+          {editLink && (
+            <div className="mt-4">
+              <p className="text-sm text-green-700 mb-1">
+                Save this link to change your entry while the topic is open. It
+                works until {new Date(editLink.expiresAt).toLocaleString()}
+                {editLink.emailed && " and was also sent to your email"}.
+              </p>
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  value={editLink.url}
+                  readOnly
+                  onFocus={(e) => e.target.select()}
+                  className="w-full p-2 border border-green-200 rounded bg-white text-sm"
+                />
+                <button
+                  type="button"
+                  onClick={handleCopyEditLink}
+                  className="px-4 rounded-md text-white text-sm font-medium bg-green-600 hover:bg-green-700"
+                >
+                  Copy
+                </button>
+              </div>
+            </div>
+          )}
           <button
             onClick={() => router.push("/")}
             className="mt-4 text-green-600 hover:text-green-800 underline"
@@ -230,115 +534,40 @@ export default function EntryForm({ topicId, topicName }: EntryFormProps) {
           </div>
         )}
 
-        <div className="mb-4">
-          <label className="block text-sm font-medium text-gray-700 mb-1">
-            Telegram Username
-          </label>
-          <input
-            type="text"
-            name="telegramUsername"
-            value={formData.telegramUsername}
-            onChange={handleChange}
-            onBlur={handleBlur}
-            className={`w-full p-2 border rounded ${
-              errors.telegramUsername ? "border-red-500" : "border-gray-300"
-            }`}
-            placeholder="@username"
-            autoComplete="off"
-            disabled={isSubmitting || isValidating}
-          />
-          {errors.telegramUsername && (
-            <p className="mt-1 text-sm text-red-600">{errors.telegramUsername}</p>
-          )}
-        </div>
-
-        <div className="mb-4">
-          <label className="block text-sm font-medium text-gray-700 mb-1">
-            Platform Username
-          </label>
-          <input
-            type="text"
-            name="platformUsername"
-            value={formData.platformUsername}
-            onChange={handleChange}
-            onBlur={handleBlur}
-            className={`w-full p-2 border rounded ${
-              errors.platformUsername ? "border-red-500" : "border-gray-300"
-            }`}
-            placeholder="username"
-            autoComplete="off"
-            disabled={isSubmitting || isValidating}
-          />
-          {errors.platformUsername && (
-            <p className="mt-1 text-sm text-red-600">{errors.platformUsername}</p>
-          )}
-        </div>
-
-        <div className="mb-4">
-          <label className="block text-sm font-medium text-gray-700 mb-1">
-            Wallet Address
-          </label>
-          <input
-            type="text"
-            name="walletAddress"
-            value={formData.walletAddress}
-            onChange={handleChange}
-            onBlur={handleBlur}
-            className={`w-full p-2 border rounded ${
-              errors.walletAddress ? "border-red-500" : "border-gray-300"
-            }`}
-            placeholder="0x1234...1234"
-            autoComplete="off"
-            disabled={isSubmitting || isValidating}
-          />
-          {errors.walletAddress && (
-            <p className="mt-1 text-sm text-red-600">{errors.walletAddress}</p>
-          )}
-        </div>
-
-        <div className="mb-4">
-          <label className="block text-sm font-medium text-gray-700 mb-1">
-            Discord Username (Optional)
-          </label>
-          <input
-            type="text"
-            name="discordUsername"
-            value={formData.discordUsername}
-            onChange={handleChange}
-            onBlur={handleBlur}
-            className={`w-full p-2 border rounded ${
-              errors.discordUsername ? "border-red-500" : "border-gray-300"
-            }`}
-            placeholder="username#1234"
-            autoComplete="off"
-            disabled={isSubmitting || isValidating}
-          />
-          {errors.discordUsername && (
-            <p className="mt-1 text-sm text-red-600">{errors.discordUsername}</p>
-          )}
-        </div>
+        {fields.map((field) => (
+          <div key={field.name} className="mb-4">
+            {field.type !== "checkbox" && (
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {field.label}
+                {!field.required && " (Optional)"}
+              </label>
+            )}
+            {renderField(field)}
+            {field.name === walletField?.name && (
+              <p className="mt-1 text-xs text-gray-500">
+                {isEditing
+                  ? "If you change wallets, you'll be asked to sign a message with the new one when you save."
+                  : "You'll be asked to sign a message with this wallet when you submit."}{" "}
+                Signing is free and doesn&apos;t send a transaction.
+              </p>
+            )}
+            {errors[field.name] && (
+              <p className="mt-1 text-sm text-red-600">{errors[field.name]}</p>
+            )}
+          </div>
+        ))}
 
-        <div className="mb-4">
-          <label className="block text-sm font-medium text-gray-700 mb-1">
-            Email Address
+        {!isEditing && hasEmailField && (
+          <label className="flex items-center space-x-2 text-sm text-gray-700 mb-4">
+            <input
+              type="checkbox"
+              checked={sendEditLink}
+              onChange={(e) => setSendEditLink(e.target.checked)}
+              disabled={isSubmitting || isValidating}
+            />
+            <span>Email me a link to edit this entry</span>
           </label>
-          <input
-            type="email"
-            name="email"
-            value={formData.email}
-            onChange={handleChange}
-            onBlur={handleBlur}
-            className={`w-full p-2 border rounded ${
-              errors.email ? "border-red-500" : "border-gray-300"
-            }`}
-            placeholder="your@email.com"
-            autoComplete="off"
-            disabled={isSubmitting || isValidating}
-          />
-          {errors.email && (
-            <p className="mt-1 text-sm text-red-600">{errors.email}</p>
-          )}
-        </div>
+        )}
 
         <button
           type="submit"
@@ -396,8 +625,10 @@ export default function EntryForm({ topicId, topicName }: EntryFormProps) {
                   d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                 ></path>
               </svg>
-              Submitting...
+              {isEditing ? "Saving..." : "Submitting..."}
             </span>
+          ) : isEditing ? (
+            "Save Changes"
           ) : (
             "Submit Entry"
           )}
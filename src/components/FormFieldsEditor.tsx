@@ -0,0 +1,244 @@
+"use client";
+
+import {
+  DEFAULT_FORM_FIELDS,
+  FIELD_TYPES,
+  FIELD_TYPE_LABELS,
+  FieldType,
+  FormField,
+} from "../utils/formFields";
+
+interface FormFieldsEditorProps {
+  fields: FormField[];
+  onChange: (fields: FormField[]) => void;
+  disabled?: boolean;
+}
+
+const inputClassName =
+  "w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+// Blank inputs clear a length rule rather than setting it to zero
+const parseLength = (value: string): number | undefined =>
+  value === "" ? undefined : Math.max(0, parseInt(value) || 0);
+
+/**
+ * Editor for the list of fields a topic's submission form asks for.
+ * Values are passed straight through; the API validates the definitions.
+ */
+export default function FormFieldsEditor({
+  fields,
+  onChange,
+  disabled = false,
+}: FormFieldsEditorProps) {
+  const updateField = (index: number, updates: Partial<FormField>) => {
+    onChange(
+      fields.map((field, i) => (i === index ? { ...field, ...updates } : field))
+    );
+  };
+
+  const moveField = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= fields.length) return;
+    const reordered = [...fields];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const removeField = (index: number) => {
+    onChange(fields.filter((_, i) => i !== index));
+  };
+
+  const addField = () => {
+    onChange([
+      ...fields,
+      {
+        name: `field${fields.length + 1}`,
+        label: "New Field",
+        type: "text",
+        required: false,
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {fields.map((field, index) => (
+        <div
+          key={index}
+          className="p-3 bg-white border border-gray-200 rounded-md space-y-2"
+        >
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+            <input
+              type="text"
+              value={field.label}
+              onChange={(e) => updateField(index, { label: e.target.value })}
+              className={inputClassName}
+              placeholder="Label"
+              disabled={disabled}
+            />
+            <input
+              type="text"
+              value={field.name}
+              onChange={(e) => updateField(index, { name: e.target.value })}
+              className={`${inputClassName} font-mono`}
+              placeholder="fieldName"
+              disabled={disabled}
+            />
+            <select
+              value={field.type}
+              onChange={(e) =>
+                updateField(index, { type: e.target.value as FieldType })
+              }
+              className={inputClassName}
+              disabled={disabled}
+            >
+              {FIELD_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {FIELD_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={field.required}
+                onChange={(e) =>
+                  updateField(index, { required: e.target.checked })
+                }
+                disabled={disabled}
+              />
+              <span>Required</span>
+            </label>
+          </div>
+
+          {field.type !== "checkbox" && (
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+              <input
+                type="text"
+                value={field.placeholder || ""}
+                onChange={(e) =>
+                  updateField(index, {
+                    placeholder: e.target.value || undefined,
+                  })
+                }
+                className={inputClassName}
+                placeholder="Placeholder"
+                disabled={disabled}
+              />
+              <input
+                type="number"
+                min={0}
+                value={field.minLength ?? ""}
+                onChange={(e) =>
+                  updateField(index, { minLength: parseLength(e.target.value) })
+                }
+                className={inputClassName}
+                placeholder="Min length"
+                disabled={disabled}
+              />
+              <input
+                type="number"
+                min={1}
+                value={field.maxLength ?? ""}
+                onChange={(e) =>
+                  updateField(index, { maxLength: parseLength(e.target.value) })
+                }
+                className={inputClassName}
+                placeholder="Max length"
+                disabled={disabled}
+              />
+              {field.type === "select" ? (
+                <input
+                  type="text"
+                  value={(field.options || []).join(",")}
+                  onChange={(e) =>
+                    updateField(index, {
+                      options: e.target.value
+                        .split(",")
+                        .map((option) => option.trimStart()),
+                    })
+                  }
+                  className={inputClassName}
+                  placeholder="Options, comma-separated"
+                  disabled={disabled}
+                />
+              ) : (
+                <input
+                  type="text"
+                  value={field.pattern || ""}
+                  onChange={(e) =>
+                    updateField(index, { pattern: e.target.value || undefined })
+                  }
+                  className={`${inputClassName} font-mono`}
+                  placeholder="Regex pattern"
+                  disabled={disabled}
+                />
+              )}
+            </div>
+          )}
+
+          {field.pattern && field.type !== "select" && (
+            <input
+              type="text"
+              value={field.patternMessage || ""}
+              onChange={(e) =>
+                updateField(index, {
+                  patternMessage: e.target.value || undefined,
+                })
+              }
+              className={inputClassName}
+              placeholder="Message shown when the pattern doesn't match"
+              disabled={disabled}
+            />
+          )}
+
+          <div className="flex justify-end space-x-3 text-sm">
+            <button
+              type="button"
+              onClick={() => moveField(index, -1)}
+              disabled={disabled || index === 0}
+              className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+            >
+              Move Up
+            </button>
+            <button
+              type="button"
+              onClick={() => moveField(index, 1)}
+              disabled={disabled || index === fields.length - 1}
+              className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+            >
+              Move Down
+            </button>
+            <button
+              type="button"
+              onClick={() => removeField(index)}
+              disabled={disabled || fields.length === 1}
+              className="text-red-600 hover:text-red-900 disabled:opacity-50"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex space-x-4 text-sm">
+        <button
+          type="button"
+          onClick={addField}
+          disabled={disabled}
+          className="text-blue-600 hover:text-blue-900"
+        >
+          + Add Field
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange(DEFAULT_FORM_FIELDS)}
+          disabled={disabled}
+          className="text-gray-600 hover:text-gray-900"
+        >
+          Reset to Default Template
+        </button>
+      </div>
+    </div>
+  );
+}
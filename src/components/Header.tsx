@@ -22,6 +22,9 @@ export default function Header() {
 
         {pathname === "/admin/login" ? null : (
           <div className="flex items-center space-x-4">
+            <Link href="/status" className="text-gray-700 hover:text-blue-600">
+              Check Entry Status
+            </Link>
             {isLoading ? (
               <div className="h-8 w-20 bg-gray-200 rounded animate-pulse"></div>
             ) : isAuthenticated ? (
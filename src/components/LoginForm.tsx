@@ -5,13 +5,89 @@ import { useRouter } from "next/navigation";
 import { ErrorBoundary } from './ErrorBoundary';
 import { useAuth } from "@/contexts/AuthContext";
 
+// Second sign-in step for accounts with two-factor enabled
+function TwoFactorStep() {
+  const router = useRouter();
+  const [code, setCode] = useState("");
+  const { verifyTwoFactor, cancelTwoFactor, isLoading } = useAuth();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await verifyTwoFactor(code)) {
+      router.push("/admin");
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Two-factor authentication
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Enter the 6-digit code from your authenticator app, or one of your
+            backup codes
+          </p>
+        </div>
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          <div>
+            <label htmlFor="code" className="sr-only">
+              Code
+            </label>
+            <input
+              id="code"
+              name="code"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              required
+              autoFocus
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 text-center tracking-widest focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              placeholder="123456"
+              disabled={isLoading}
+            />
+          </div>
+
+          <div>
+            <button
+              type="submit"
+              disabled={isLoading || !code.trim()}
+              className={`group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white ${
+                isLoading || !code.trim()
+                  ? "bg-gray-400 cursor-not-allowed"
+                  : "bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              }`}
+            >
+              {isLoading ? "Verifying..." : "Verify"}
+            </button>
+          </div>
+
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={cancelTwoFactor}
+              className="text-sm text-blue-600 hover:text-blue-800"
+              disabled={isLoading}
+            >
+              Back to sign in
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
 export default function LoginForm() {
   const router = useRouter();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isRegistering, setIsRegistering] = useState(false);
   const [isValidDomain, setIsValidDomain] = useState<boolean | null>(null);
-  const { login, register, isLoading } = useAuth();
+  const { login, register, isLoading, twoFactorPending } = useAuth();
 
   // Check if email domain is valid
   useEffect(() => {
@@ -25,18 +101,24 @@ export default function LoginForm() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    let success = false;
     if (isRegistering) {
-      success = await register(email, password);
-    } else {
-      success = await login(email, password);
-    }
-    
-    if (success) {
+      // New accounts can't sign in until they are verified and given a role
+      if (await register(email, password)) {
+        setIsRegistering(false);
+      }
+    } else if (await login(email, password)) {
       router.push("/admin");
     }
   };
 
+  if (twoFactorPending) {
+    return (
+      <ErrorBoundary>
+        <TwoFactorStep />
+      </ErrorBoundary>
+    );
+  }
+
   return (
     <ErrorBoundary>
       <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
@@ -0,0 +1,128 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { fetchWithAuth } from "../utils/api";
+
+// Types
+interface Allowlist {
+  root: string;
+  count: number;
+  walletField: string;
+  approvedOnly: boolean;
+  skipped: number;
+  builtBy: string | null;
+  builtAt: number;
+}
+
+interface MerkleAllowlistPanelProps {
+  topicId: string;
+  canEdit: boolean;
+}
+
+/**
+ * The topic's Merkle allowlist for on-chain claims: its root, a download of
+ * every proof, and rebuilding it from the current entries
+ */
+export default function MerkleAllowlistPanel({
+  topicId,
+  canEdit,
+}: MerkleAllowlistPanelProps) {
+  const [allowlist, setAllowlist] = useState<Allowlist | null>(null);
+  const [approvedOnly, setApprovedOnly] = useState(true);
+  const [building, setBuilding] = useState(false);
+
+  const apiPath = `/api/topics/${encodeURIComponent(topicId)}/merkle`;
+
+  const fetchAllowlist = useCallback(async () => {
+    try {
+      const data = await fetchWithAuth<{ allowlist: Allowlist | null }>(apiPath);
+      setAllowlist(data.allowlist);
+    } catch (e) {
+      console.log(e);
+    }
+  }, [apiPath]);
+
+  useEffect(() => {
+    fetchAllowlist();
+  }, [fetchAllowlist]);
+
+  const handleBuild = async () => {
+    if (
+      allowlist &&
+      !confirm("Replace the current allowlist? Proofs for the old root will stop being served.")
+    ) {
+      return;
+    }
+
+    setBuilding(true);
+    try {
+      const data = await fetchWithAuth<{ allowlist: Allowlist }>(apiPath, {
+        method: "POST",
+        body: JSON.stringify({ approvedOnly }),
+      });
+      setAllowlist(data.allowlist);
+      toast.success(`Allowlist built with ${data.allowlist.count} addresses`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to build allowlist");
+    } finally {
+      setBuilding(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-3 text-sm">
+      <div className="text-gray-700">
+        <span className="font-medium">Merkle allowlist: </span>
+        {allowlist ? (
+          <>
+            <span className="font-mono break-all">{allowlist.root}</span>
+            <span className="block text-xs text-gray-500">
+              {allowlist.count} addresses from {allowlist.walletField}
+              {allowlist.approvedOnly && " (approved entries only)"}
+              {allowlist.skipped > 0 && `, ${allowlist.skipped} invalid skipped`}
+              {" · "}built {format(allowlist.builtAt, "MMM d, yyyy h:mm a")}
+              {allowlist.builtBy && ` by ${allowlist.builtBy}`}
+            </span>
+          </>
+        ) : (
+          <span className="text-gray-500">not built yet</span>
+        )}
+      </div>
+      <div className="flex items-center space-x-2">
+        {allowlist && (
+          <a
+            href={`${apiPath}?format=json`}
+            className="px-3 py-2 border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+          >
+            Download Proofs
+          </a>
+        )}
+        {canEdit && (
+          <>
+            <label className="flex items-center space-x-1 text-gray-700">
+              <input
+                type="checkbox"
+                checked={approvedOnly}
+                onChange={(e) => setApprovedOnly(e.target.checked)}
+                disabled={building}
+              />
+              <span>Approved only</span>
+            </label>
+            <button
+              type="button"
+              onClick={handleBuild}
+              disabled={building}
+              className={`px-3 py-2 rounded text-white bg-purple-600 ${
+                building ? "opacity-50 cursor-not-allowed" : "hover:bg-purple-700"
+              }`}
+            >
+              {building ? "Building..." : allowlist ? "Rebuild Allowlist" : "Build Allowlist"}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+import { SortOrder } from "@/utils/sorting";
+
+interface SortableHeaderProps<K extends string> {
+  label: string;
+  sortKey: K;
+  sort: { key: K; order: SortOrder };
+  onSort: (key: K) => void;
+}
+
+export default function SortableHeader<K extends string>({
+  label,
+  sortKey,
+  sort,
+  onSort,
+}: SortableHeaderProps<K>) {
+  const active = sort.key === sortKey;
+
+  return (
+    <th
+      aria-sort={active ? (sort.order === "asc" ? "ascending" : "descending") : "none"}
+      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+    >
+      <button
+        type="button"
+        onClick={() => onSort(sortKey)}
+        className={`inline-flex items-center space-x-1 uppercase tracking-wider hover:text-gray-700 ${
+          active ? "text-gray-900" : ""
+        }`}
+      >
+        <span>{label}</span>
+        <span className={active ? "" : "invisible"}>
+          {sort.order === "asc" ? "▲" : "▼"}
+        </span>
+      </button>
+    </th>
+  );
+}
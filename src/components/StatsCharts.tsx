@@ -0,0 +1,161 @@
+"use client";
+
+// Constants
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 240;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 44 };
+const X_LABEL_COUNT = 6;
+
+export const SERIES_COLORS = [
+  "#2563eb",
+  "#16a34a",
+  "#dc2626",
+  "#d97706",
+  "#7c3aed",
+  "#0891b2",
+  "#6b7280",
+];
+
+// Types
+export interface ChartSeries {
+  label: string;
+  values: number[];
+  color: string;
+}
+
+export interface BarListItem {
+  label: string;
+  value: number;
+  detail?: string;
+}
+
+// Helper Functions
+/**
+ * Short axis label for a day (YYYY-MM-DD) or hour (YYYY-MM-DDTHH) bucket
+ */
+export const formatBucketLabel = (bucket: string): string =>
+  bucket.length > 10
+    ? `${bucket.slice(5, 10)} ${bucket.slice(11)}:00`
+    : bucket.slice(5);
+
+/**
+ * Line chart of submissions per bucket, one line per series
+ */
+export function SeriesChart({
+  buckets,
+  series,
+}: {
+  buckets: string[];
+  series: ChartSeries[];
+}) {
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const max = Math.max(1, ...series.flatMap((line) => line.values));
+
+  const x = (i: number) =>
+    PADDING.left + (buckets.length > 1 ? (i / (buckets.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => PADDING.top + plotHeight - (value / max) * plotHeight;
+
+  const labelStep = Math.max(1, Math.ceil(buckets.length / X_LABEL_COUNT));
+  const yTicks = [0, Math.round(max / 2), max];
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label="Submissions over time"
+      >
+        {yTicks.map((tick) => (
+          <g key={tick}>
+            <line
+              x1={PADDING.left}
+              x2={CHART_WIDTH - PADDING.right}
+              y1={y(tick)}
+              y2={y(tick)}
+              stroke="#e5e7eb"
+            />
+            <text
+              x={PADDING.left - 6}
+              y={y(tick) + 4}
+              textAnchor="end"
+              fontSize="11"
+              fill="#6b7280"
+            >
+              {tick}
+            </text>
+          </g>
+        ))}
+        {buckets.map((bucket, i) =>
+          i % labelStep === 0 ? (
+            <text
+              key={bucket}
+              x={x(i)}
+              y={CHART_HEIGHT - 8}
+              textAnchor="middle"
+              fontSize="11"
+              fill="#6b7280"
+            >
+              {formatBucketLabel(bucket)}
+            </text>
+          ) : null
+        )}
+        {series.map((line) => (
+          <polyline
+            key={line.label}
+            fill="none"
+            stroke={line.color}
+            strokeWidth="2"
+            points={line.values.map((value, i) => `${x(i)},${y(value)}`).join(" ")}
+          >
+            <title>{line.label}</title>
+          </polyline>
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-4 mt-2">
+        {series.map((line) => (
+          <span key={line.label} className="inline-flex items-center text-xs text-gray-700">
+            <span
+              className="inline-block w-3 h-3 rounded-sm mr-1"
+              style={{ backgroundColor: line.color }}
+            />
+            {line.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Horizontal bars scaled to the largest value
+ */
+export function BarList({ items }: { items: BarListItem[] }) {
+  const max = Math.max(1, ...items.map((item) => item.value));
+
+  if (items.length === 0) {
+    return <p className="text-sm text-gray-500">No data yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {items.map((item) => (
+        <li key={item.label}>
+          <div className="flex justify-between text-sm text-gray-700 mb-1">
+            <span className="truncate mr-2">{item.label}</span>
+            <span className="text-gray-500 whitespace-nowrap">
+              {item.detail ?? item.value}
+            </span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded">
+            <div
+              className="h-2 bg-blue-500 rounded"
+              style={{ width: `${(item.value / max) * 100}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
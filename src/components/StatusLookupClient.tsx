@@ -0,0 +1,153 @@
+"use client";
+import { useState } from "react";
+import {
+  ParticipantEntryStatus,
+  PARTICIPANT_STATUS_LABELS,
+} from "@/utils/entryStatus";
+import { formatSubmissionDate } from "@/utils/entryFields";
+
+// Types
+interface EntryStatusResult {
+  receiptCode: string;
+  topicName: string;
+  createdAt: number;
+  updatedAt: number | null;
+  wallet: string | null;
+  status: ParticipantEntryStatus;
+}
+
+// Constants
+const STATUS_BADGE_CLASSES: Record<ParticipantEntryStatus, string> = {
+  pending: "bg-gray-100 text-gray-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+/**
+ * Look up one entry by the receipt code from its confirmation and the email
+ * it was submitted with
+ */
+export default function StatusLookupClient() {
+  const [receiptCode, setReceiptCode] = useState("");
+  const [email, setEmail] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<EntryStatusResult | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setResult(null);
+    setIsLoading(true);
+
+    try {
+      const response = await fetch("/api/status", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ receiptCode, email }),
+      });
+      if (response.status === 429) {
+        setError("Too many lookups. Please wait a few minutes and try again.");
+        return;
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.details?.[0]?.message || data.error || "Failed to look up entry");
+        return;
+      }
+      setResult(data);
+    } catch (error) {
+      setError("An unexpected error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-lg">
+      <form onSubmit={handleSubmit} className="mb-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded p-4 mb-4">
+            <p className="text-red-800">{error}</p>
+          </div>
+        )}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Receipt Code
+          </label>
+          <input
+            type="text"
+            value={receiptCode}
+            onChange={(e) => setReceiptCode(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded font-mono uppercase"
+            placeholder="ABCD-1234"
+            autoComplete="off"
+            required
+          />
+        </div>
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Email
+          </label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded"
+            placeholder="The email you entered"
+            required
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className={`w-full py-2 px-4 rounded-md text-white font-medium ${
+            isLoading ? "bg-gray-400 cursor-not-allowed" : "bg-blue-600 hover:bg-blue-700"
+          }`}
+        >
+          {isLoading ? "Checking..." : "Check Status"}
+        </button>
+      </form>
+
+      {result && (
+        <div className="bg-white border border-gray-200 rounded p-4">
+          <div className="flex justify-between items-center mb-3">
+            <h2 className="font-semibold text-gray-900">{result.topicName}</h2>
+            <span
+              className={`px-2 py-1 rounded-full text-xs font-medium ${
+                STATUS_BADGE_CLASSES[result.status]
+              }`}
+            >
+              {PARTICIPANT_STATUS_LABELS[result.status]}
+            </span>
+          </div>
+          <dl className="text-sm space-y-1">
+            <div className="flex justify-between">
+              <dt className="text-gray-500">Receipt</dt>
+              <dd className="font-mono">{result.receiptCode}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-gray-500">Submitted</dt>
+              <dd>{formatSubmissionDate(result.createdAt)}</dd>
+            </div>
+            {result.updatedAt && (
+              <div className="flex justify-between">
+                <dt className="text-gray-500">Last edited</dt>
+                <dd>{formatSubmissionDate(result.updatedAt)}</dd>
+              </div>
+            )}
+            {result.wallet && (
+              <div className="flex justify-between">
+                <dt className="text-gray-500">Wallet</dt>
+                <dd className="font-mono">{result.wallet}</dd>
+              </div>
+            )}
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ErrorBoundary } from "./ErrorBoundary";
+import { fetchWithAuth } from "../utils/api";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: number | null;
+  backupCodesRemaining: number;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpAuthUrl: string;
+  qrCode: string;
+}
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+const buttonClassName = (disabled: boolean, color: string) =>
+  `px-4 py-2 rounded-md text-white text-sm font-medium ${
+    disabled ? "bg-gray-400 cursor-not-allowed" : color
+  }`;
+
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [operationInProgress, setOperationInProgress] = useState(false);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      setStatus(await fetchWithAuth<TwoFactorStatus>("/api/two-factor"));
+      setError(null);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch two-factor status"
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  // Run a request against /api/two-factor, clearing the code field after
+  const runAction = async <T,>(
+    method: "POST" | "DELETE",
+    body: Record<string, string>,
+    fallbackError: string
+  ): Promise<T | null> => {
+    setOperationInProgress(true);
+    try {
+      return await fetchWithAuth<T>("/api/two-factor", {
+        method,
+        body: JSON.stringify(body),
+      });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : fallbackError);
+      return null;
+    } finally {
+      setCode("");
+      setOperationInProgress(false);
+    }
+  };
+
+  const startSetup = async () => {
+    const data = await runAction<TwoFactorSetup>(
+      "POST",
+      { action: "setup" },
+      "Failed to start setup"
+    );
+    if (data) {
+      setSetup(data);
+      setBackupCodes(null);
+    }
+  };
+
+  const enable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await runAction<{ backupCodes: string[] }>(
+      "POST",
+      { action: "enable", code },
+      "Failed to enable two-factor authentication"
+    );
+    if (data) {
+      setSetup(null);
+      setBackupCodes(data.backupCodes);
+      toast.success("Two-factor authentication enabled");
+      await fetchStatus();
+    }
+  };
+
+  const regenerateBackupCodes = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirm("Replace your backup codes? The old ones will stop working.")) {
+      return;
+    }
+    const data = await runAction<{ backupCodes: string[] }>(
+      "POST",
+      { action: "backup-codes", code },
+      "Failed to create backup codes"
+    );
+    if (data) {
+      setBackupCodes(data.backupCodes);
+      toast.success("New backup codes created");
+      await fetchStatus();
+    }
+  };
+
+  const disable = async () => {
+    if (!code.trim()) {
+      toast.error("Enter a current code to turn off two-factor authentication");
+      return;
+    }
+    if (!confirm("Turn off two-factor authentication?")) {
+      return;
+    }
+    const data = await runAction<{ enabled: boolean }>(
+      "DELETE",
+      { code },
+      "Failed to disable two-factor authentication"
+    );
+    if (data) {
+      setBackupCodes(null);
+      toast.success("Two-factor authentication turned off");
+      await fetchStatus();
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded p-4">
+        <p className="text-red-800">Error: {error}</p>
+      </div>
+    );
+  }
+
+  if (!status) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="text-gray-600">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <ErrorBoundary>
+      <div className="bg-white p-6 rounded-lg shadow space-y-6 max-w-2xl">
+        <div>
+          <h2 className="text-xl font-semibold">Two-Factor Authentication</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {status.enabled
+              ? `Enabled${
+                  status.enabledAt
+                    ? ` since ${format(status.enabledAt, "MMM d, yyyy")}`
+                    : ""
+                }. ${status.backupCodesRemaining} backup code${
+                  status.backupCodesRemaining === 1 ? "" : "s"
+                } left.`
+              : "Ask for a code from an authenticator app every time you sign in."}
+          </p>
+        </div>
+
+        {backupCodes && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded p-4">
+            <p className="text-sm text-yellow-800 mb-3">
+              Save these backup codes somewhere safe. Each one works once if you
+              lose your authenticator, and they won&apos;t be shown again.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+              {backupCodes.map((backupCode) => (
+                <li key={backupCode}>{backupCode}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {!status.enabled && !setup && (
+          <button
+            onClick={startSetup}
+            disabled={operationInProgress}
+            className={buttonClassName(
+              operationInProgress,
+              "bg-blue-600 hover:bg-blue-700"
+            )}
+          >
+            Set Up Two-Factor Authentication
+          </button>
+        )}
+
+        {!status.enabled && setup && (
+          <form onSubmit={enable} className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Scan this QR code with your authenticator app, then enter the code
+              it shows.
+            </p>
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={setup.qrCode}
+              alt="Two-factor QR code"
+              className="w-48 h-48 border border-gray-200 rounded"
+            />
+            <p className="text-xs text-gray-500">
+              Can&apos;t scan it? Enter this key instead:{" "}
+              <span className="font-mono break-all">{setup.secret}</span>
+            </p>
+            <div className="flex space-x-2 max-w-sm">
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+                className={inputClassName}
+                disabled={operationInProgress}
+              />
+              <button
+                type="submit"
+                disabled={operationInProgress || !code.trim()}
+                className={buttonClassName(
+                  operationInProgress || !code.trim(),
+                  "bg-blue-600 hover:bg-blue-700"
+                )}
+              >
+                Enable
+              </button>
+            </div>
+          </form>
+        )}
+
+        {status.enabled && (
+          <form onSubmit={regenerateBackupCodes} className="space-y-3">
+            <p className="text-sm text-gray-700">
+              Enter a current code to create new backup codes or turn two-factor
+              authentication off.
+            </p>
+            <input
+              type="text"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Authenticator or backup code"
+              className={`${inputClassName} max-w-sm`}
+              disabled={operationInProgress}
+            />
+            <div className="space-x-2">
+              <button
+                type="submit"
+                disabled={operationInProgress || !code.trim()}
+                className={buttonClassName(
+                  operationInProgress || !code.trim(),
+                  "bg-blue-600 hover:bg-blue-700"
+                )}
+              >
+                New Backup Codes
+              </button>
+              <button
+                type="button"
+                onClick={disable}
+                disabled={operationInProgress || !code.trim()}
+                className={buttonClassName(
+                  operationInProgress || !code.trim(),
+                  "bg-red-600 hover:bg-red-700"
+                )}
+              >
+                Turn Off
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </ErrorBoundary>
+  );
+}
@@ -2,15 +2,14 @@
 import { createContext, useContext, useState, useCallback, useEffect, useRef } from "react";
 import { toast } from "sonner";
 import { usePathname, useRouter } from "next/navigation";
-import { 
-  signInWithEmailAndPassword, 
-  signOut, 
-  onAuthStateChanged, 
-  User,
-  createUserWithEmailAndPassword
+import {
+  signOut,
+  createUserWithEmailAndPassword,
+  sendEmailVerification,
 } from "firebase/auth";
 import { auth } from "@/utils/firebase";
 import { useViewport } from "@/hooks/useViewport";
+import { AdminRole } from "@/utils/roles";
 
 // Allowed email domain
 const ALLOWED_DOMAIN = "capx.global";
@@ -23,14 +22,36 @@ const isValidEmailDomain = (email: string): boolean => {
   return email.toLowerCase().endsWith(`@${ALLOWED_DOMAIN}`);
 };
 
+// Sign in on the server, which counts failed attempts and asks for a
+// two-factor code when the account has one
+const postLogin = async (
+  body: Record<string, string>
+): Promise<{ twoFactorRequired?: boolean; challengeId?: string }> => {
+  const response = await fetch("/api/login", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to sign in");
+  }
+  return data;
+};
+
 interface AuthContextType {
   isAuthenticated: boolean;
   isLoading: boolean;
-  user: User | null;
+  email: string | null;
+  role: AdminRole | null;
+  // True while a sign-in waits for its two-factor code
+  twoFactorPending: boolean;
   login: (email: string, password: string) => Promise<boolean>;
+  verifyTwoFactor: (code: string) => Promise<boolean>;
+  cancelTwoFactor: () => void;
   logout: () => Promise<void>;
   register: (email: string, password: string) => Promise<boolean>;
-  getIdToken: () => Promise<string | null>;
   resetInactivityTimer: () => void;
 }
 
@@ -39,7 +60,11 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
-  const [user, setUser] = useState<User | null>(null);
+  const [email, setEmail] = useState<string | null>(null);
+  const [role, setRole] = useState<AdminRole | null>(null);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<string | null>(
+    null
+  );
   const router = useRouter();
   const pathname = usePathname();
   const inactivityTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -99,17 +124,28 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, [isAuthenticated, handleUserActivity, resetInactivityTimer]);
 
-  // Check auth status on mount and handle redirects for admin pages
-  useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
-      setUser(user);
-      setIsAuthenticated(!!user);
-      setIsLoading(false);
-    });
-
-    return () => unsubscribe();
+  // Load the server session, including the admin's role
+  const refreshSession = useCallback(async (): Promise<void> => {
+    try {
+      const response = await fetch("/api/auth-status", {
+        credentials: "include",
+      });
+      const data = await response.json();
+      setIsAuthenticated(!!data.isAuthenticated);
+      setEmail(data.email || null);
+      setRole(data.role || null);
+    } catch (error) {
+      console.error("Auth status error:", error);
+      setIsAuthenticated(false);
+      setRole(null);
+    }
   }, []);
 
+  // Check the server session on mount
+  useEffect(() => {
+    refreshSession().finally(() => setIsLoading(false));
+  }, [refreshSession]);
+
   // Handle redirects for admin pages
   useEffect(() => {
     if (!isLoading) {
@@ -133,28 +169,49 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         return false;
       }
       
-      await signInWithEmailAndPassword(auth, email, password);
+      const data = await postLogin({ email, password });
+      if (data.twoFactorRequired && data.challengeId) {
+        setTwoFactorChallenge(data.challengeId);
+        return false;
+      }
+      await refreshSession();
       toast.success("Login successful");
       return true;
     } catch (error: any) {
       console.error("Login error:", error);
-      let errorMessage = "An error occurred during login";
-      
-      if (error.code === "auth/invalid-credential") {
-        errorMessage = "Invalid email or password";
-      } else if (error.code === "auth/user-not-found") {
-        errorMessage = "User not found";
-      } else if (error.code === "auth/wrong-password") {
-        errorMessage = "Wrong password";
-      } else if (error.code === "auth/too-many-requests") {
-        errorMessage = "Too many failed login attempts. Please try again later";
+      toast.error(error.message || "An error occurred during login");
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [refreshSession]);
+
+  const verifyTwoFactor = useCallback(async (code: string): Promise<boolean> => {
+    if (!twoFactorChallenge) {
+      return false;
+    }
+    try {
+      setIsLoading(true);
+      await postLogin({ challengeId: twoFactorChallenge, code });
+      setTwoFactorChallenge(null);
+      await refreshSession();
+      toast.success("Login successful");
+      return true;
+    } catch (error: any) {
+      console.error("Two-factor error:", error);
+      toast.error(error.message || "An error occurred during login");
+      // Expired challenges and lockouts need a fresh sign-in
+      if (error.message !== "Invalid code") {
+        setTwoFactorChallenge(null);
       }
-      
-      toast.error(errorMessage);
       return false;
     } finally {
       setIsLoading(false);
     }
+  }, [twoFactorChallenge, refreshSession]);
+
+  const cancelTwoFactor = useCallback(() => {
+    setTwoFactorChallenge(null);
   }, []);
 
   const register = useCallback(async (email: string, password: string): Promise<boolean> => {
@@ -167,8 +224,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         return false;
       }
       
-      await createUserWithEmailAndPassword(auth, email, password);
-      toast.success("Registration successful");
+      // Sessions need a verified address and a role assigned by an owner,
+      // so a new account signs in once both are in place
+      const credential = await createUserWithEmailAndPassword(auth, email, password);
+      try {
+        await sendEmailVerification(credential.user);
+      } finally {
+        await signOut(auth);
+      }
+      toast.success(
+        "Account created. Verify your email with the link we sent, then ask an owner to assign you a role."
+      );
       return true;
     } catch (error: any) {
       console.error("Registration error:", error);
@@ -180,6 +246,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         errorMessage = "Invalid email address";
       } else if (error.code === "auth/weak-password") {
         errorMessage = "Password is too weak";
+      } else if (!error.code && error.message) {
+        errorMessage = error.message;
       }
       
       toast.error(errorMessage);
@@ -192,7 +260,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const logout = useCallback(async (): Promise<void> => {
     try {
       setIsLoading(true);
-      await signOut(auth);
+      await fetch("/api/logout", { method: "POST", credentials: "include" });
+      setIsAuthenticated(false);
+      setEmail(null);
+      setRole(null);
       toast.success("Logged out successfully");
     } catch (error) {
       console.error("Logout error:", error);
@@ -202,25 +273,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
-  const getIdToken = useCallback(async (): Promise<string | null> => {
-    if (!user) return null;
-    try {
-      return await user.getIdToken();
-    } catch (error) {
-      console.error("Error getting ID token:", error);
-      return null;
-    }
-  }, [user]);
-
   return (
     <AuthContext.Provider value={{ 
       isAuthenticated, 
       isLoading,
-      user,
+      email,
+      role,
+      twoFactorPending: !!twoFactorChallenge,
       login, 
+      verifyTwoFactor,
+      cancelTwoFactor,
       logout,
       register,
-      getIdToken,
       resetInactivityTimer
     }}>
       {children}
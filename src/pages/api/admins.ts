@@ -0,0 +1,192 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { firestoreDB } from "@/utils/firebaseAdmin";
+import { z } from "zod";
+import {
+  ADMINS_COLLECTION,
+  ADMIN_EMAIL_DOMAIN,
+  AdminSession,
+  getOwnerEmails,
+  isAdminEmail,
+  requireAdmin,
+} from "@/utils/session";
+import { AdminRole, AdminRoleSchema } from "@/utils/roles";
+import { recordAudit } from "@/utils/auditLog";
+
+// Types
+interface AdminRecord {
+  email: string;
+  role: AdminRole;
+  // Owners from OWNER_EMAILS can't be changed here
+  locked: boolean;
+  updatedAt?: number;
+  updatedBy?: string;
+}
+
+// Validation Schemas
+const AdminEmailSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .email("Invalid email address")
+  .refine(isAdminEmail, `Only @${ADMIN_EMAIL_DOMAIN} accounts can be admins`);
+
+const SetRoleSchema = z.object({
+  email: AdminEmailSchema,
+  role: AdminRoleSchema,
+});
+
+const RemoveRoleSchema = z.object({
+  email: AdminEmailSchema,
+});
+
+// Helper Functions
+/**
+ * Reject changes that would lock the caller out or override OWNER_EMAILS
+ * @returns An error message, or null if the change is allowed
+ */
+const getChangeError = (email: string, admin: AdminSession): string | null => {
+  if (getOwnerEmails().includes(email)) {
+    return "This owner is set by OWNER_EMAILS and can't be changed here";
+  }
+  if (admin.email?.toLowerCase() === email) {
+    return "You can't change your own role";
+  }
+  return null;
+};
+
+// Route Handlers
+const handleGetAdmins = async (req: NextApiRequest, res: NextApiResponse) => {
+  try {
+    const snapshot = await firestoreDB.collection(ADMINS_COLLECTION).get();
+    const ownerEmails = getOwnerEmails();
+
+    const admins: AdminRecord[] = [
+      ...ownerEmails.map((email) => ({
+        email,
+        role: "owner" as AdminRole,
+        locked: true,
+      })),
+      ...snapshot.docs
+        .filter((doc) => !ownerEmails.includes(doc.id))
+        .map((doc) => ({
+          email: doc.id,
+          role: doc.get("role") as AdminRole,
+          locked: false,
+          updatedAt: doc.get("updatedAt"),
+          updatedBy: doc.get("updatedBy"),
+        })),
+    ];
+
+    res.status(200).json({ admins });
+  } catch (error) {
+    console.error("Error fetching admins:", error);
+    res.status(500).json({ error: "Failed to fetch admins" });
+  }
+};
+
+const handleSetRole = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  admin: AdminSession
+) => {
+  try {
+    const { email, role } = SetRoleSchema.parse(req.body);
+
+    const changeError = getChangeError(email, admin);
+    if (changeError) {
+      return res.status(400).json({ error: changeError });
+    }
+
+    const record = {
+      role,
+      updatedAt: Date.now(),
+      updatedBy: admin.email || admin.uid,
+    };
+    const adminRef = firestoreDB.collection(ADMINS_COLLECTION).doc(email);
+    const previous = await adminRef.get();
+    await adminRef.set(record);
+    await recordAudit(req, admin, {
+      action: "role.assign",
+      targetType: "admin",
+      targetId: email,
+      before: previous.data(),
+      after: record,
+    });
+
+    res.status(200).json({
+      message: "Role updated",
+      admin: { email, locked: false, ...record },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    console.error("Error updating role:", error);
+    res.status(500).json({ error: "Failed to update role" });
+  }
+};
+
+const handleRemoveRole = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  admin: AdminSession
+) => {
+  try {
+    const { email } = RemoveRoleSchema.parse(req.body);
+
+    const changeError = getChangeError(email, admin);
+    if (changeError) {
+      return res.status(400).json({ error: changeError });
+    }
+
+    // Without an assignment the admin falls back to the default role
+    const adminRef = firestoreDB.collection(ADMINS_COLLECTION).doc(email);
+    const previous = await adminRef.get();
+    await adminRef.delete();
+    if (previous.exists) {
+      await recordAudit(req, admin, {
+        action: "role.remove",
+        targetType: "admin",
+        targetId: email,
+        before: previous.data(),
+      });
+    }
+    res.status(200).json({ message: "Role removed" });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    console.error("Error removing role:", error);
+    res.status(500).json({ error: "Failed to remove role" });
+  }
+};
+
+// Main Handler
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Only owners can see or assign roles
+  const admin = await requireAdmin(req, res, "owner");
+  if (!admin) {
+    return;
+  }
+
+  switch (req.method) {
+    case "GET":
+      return handleGetAdmins(req, res);
+    case "PUT":
+      return handleSetRole(req, res, admin);
+    case "DELETE":
+      return handleRemoveRole(req, res, admin);
+    default:
+      res.setHeader("Allow", ["GET", "PUT", "DELETE"]);
+      res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
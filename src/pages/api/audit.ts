@@ -0,0 +1,86 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { requireAdmin } from "@/utils/session";
+import { AuditFiltersSchema, buildAuditQuery } from "@/utils/auditLog";
+import { AuditRecord } from "@/utils/auditEvents";
+import {
+  getPaginationParams,
+  paginateQuery,
+  PaginationResponse,
+} from "@/utils/pagination";
+
+// Types
+interface AuditLogResponse {
+  records: (AuditRecord & { id: string })[];
+  pagination: PaginationResponse;
+}
+
+// Route Handlers
+const handleGetAuditLog = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  try {
+    const filters = AuditFiltersSchema.parse(req.query);
+    const paginationParams = getPaginationParams(req.query);
+    if (!paginationParams) {
+      return res.status(400).json({ error: "Invalid cursor" });
+    }
+    const { page, limit } = paginationParams;
+
+    const auditQuery = buildAuditQuery(filters);
+
+    const totalSnapshot = await auditQuery.count().get();
+    const total = totalSnapshot.data().count;
+
+    const { docs, nextCursor } = await paginateQuery(
+      auditQuery,
+      paginationParams
+    );
+
+    const response: AuditLogResponse = {
+      records: docs.map((doc) => ({
+        id: doc.id,
+        ...(doc.data() as AuditRecord),
+      })),
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+        nextCursor,
+      },
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    console.error("Error fetching audit log:", error);
+    res.status(500).json({ error: "Failed to fetch audit log" });
+  }
+};
+
+// Main Handler
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> {
+  // The log shows every admin's activity, so it is kept to owners
+  const admin = await requireAdmin(req, res, "owner");
+  if (!admin) {
+    return;
+  }
+
+  switch (req.method) {
+    case "GET":
+      return handleGetAuditLog(req, res);
+    default:
+      res.setHeader("Allow", ["GET"]);
+      res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,202 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { Parser } from "json2csv";
+import {
+  DocumentData,
+  Query,
+  QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import { requireAdmin } from "@/utils/session";
+import { AuditFiltersSchema, buildAuditQuery } from "@/utils/auditLog";
+import {
+  AUDIT_EXPORT_FORMATS,
+  AuditExportFormat,
+  AuditRecord,
+  formatAuditActor,
+} from "@/utils/auditEvents";
+import { escapeSpreadsheetCell, formatSubmissionDate } from "@/utils/entryFields";
+import { ResponseClosedError, writeChunk } from "@/utils/stream";
+
+// Constants
+const EXPORT_BATCH_SIZE = 500;
+
+const CONTENT_TYPES: Record<AuditExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+const CSV_FIELDS = [
+  { label: "Time", value: "time" },
+  { label: "Actor", value: "actor" },
+  { label: "Role", value: "role" },
+  { label: "Action", value: "action" },
+  { label: "Target Type", value: "targetType" },
+  { label: "Target ID", value: "targetId" },
+  { label: "IP", value: "ip" },
+  { label: "Before", value: "before" },
+  { label: "After", value: "after" },
+];
+
+// Exports are streamed, so lift Next's default 4MB response limit
+export const config = {
+  api: {
+    responseLimit: false,
+  },
+};
+
+// Validation Schema
+const ExportQuerySchema = AuditFiltersSchema.extend({
+  format: z.enum(AUDIT_EXPORT_FORMATS).default("csv"),
+});
+
+// Helper Functions
+/**
+ * Read every matching record, newest first, handing each Firestore batch
+ * to the callback before the next is fetched
+ */
+const forEachAuditBatch = async (
+  auditQuery: Query<DocumentData>,
+  onBatch: (records: (AuditRecord & { id: string })[]) => Promise<void>
+): Promise<void> => {
+  const baseQuery = auditQuery
+    .orderBy("createdAt", "desc")
+    .limit(EXPORT_BATCH_SIZE);
+
+  let lastDoc: QueryDocumentSnapshot<DocumentData> | undefined;
+  while (true) {
+    const batchQuery = lastDoc ? baseQuery.startAfter(lastDoc) : baseQuery;
+    const snapshot = await batchQuery.get();
+    if (snapshot.empty) {
+      return;
+    }
+
+    await onBatch(
+      snapshot.docs.map((doc) => ({ id: doc.id, ...(doc.data() as AuditRecord) }))
+    );
+
+    if (snapshot.size < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+};
+
+const toCSVFields = (record: AuditRecord) => ({
+  time: formatSubmissionDate(record.createdAt),
+  actor: formatAuditActor(record.actor),
+  role: record.actor?.role || "",
+  action: record.action,
+  targetType: record.targetType,
+  targetId: record.targetId,
+  ip: record.ip || "",
+  before: record.before ? JSON.stringify(record.before) : "",
+  after: record.after ? JSON.stringify(record.after) : "",
+});
+
+// Records hold entries' participant-entered text, which mustn't run as a
+// formula when the file is opened in a spreadsheet
+const toCSVRow = (record: AuditRecord): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(toCSVFields(record)).map(([key, value]) => [
+      key,
+      escapeSpreadsheetCell(value),
+    ])
+  );
+
+const streamCSV = async (
+  res: NextApiResponse,
+  auditQuery: Query<DocumentData>
+) => {
+  // Write the header on its own so an empty export is still a valid CSV
+  await writeChunk(res, new Parser({ fields: CSV_FIELDS }).parse([]));
+
+  await forEachAuditBatch(auditQuery, async (records) => {
+    const parser = new Parser({ fields: CSV_FIELDS, header: false });
+    await writeChunk(res, `\n${parser.parse(records.map(toCSVRow))}`);
+  });
+};
+
+const streamJSON = async (
+  res: NextApiResponse,
+  auditQuery: Query<DocumentData>
+) => {
+  let isFirst = true;
+  await writeChunk(res, "[");
+
+  await forEachAuditBatch(auditQuery, async (records) => {
+    const items = records.map((record) => JSON.stringify(record)).join(",");
+    await writeChunk(res, isFirst ? items : `,${items}`);
+    isFirst = false;
+  });
+
+  await writeChunk(res, "]\n");
+};
+
+// Route Handlers
+const handleExportAuditLog = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  let query: z.infer<typeof ExportQuerySchema>;
+  try {
+    query = ExportQuerySchema.parse(req.query);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    throw error;
+  }
+
+  const { format, ...filters } = query;
+  const auditQuery = buildAuditQuery(filters);
+
+  res.setHeader("Content-Type", CONTENT_TYPES[format]);
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="audit-log.${format}"`
+  );
+  res.setHeader("Cache-Control", "no-store");
+  res.status(200);
+
+  try {
+    switch (format) {
+      case "csv":
+        await streamCSV(res, auditQuery);
+        break;
+      case "json":
+        await streamJSON(res, auditQuery);
+        break;
+    }
+    res.end();
+  } catch (error) {
+    // A client that went away needs no error; the query has already stopped
+    if (error instanceof ResponseClosedError) {
+      return;
+    }
+    // Headers are already sent, so the only signal left is a truncated body
+    console.error("Error exporting audit log:", error);
+    res.destroy(error instanceof Error ? error : undefined);
+  }
+};
+
+// Main Handler
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> {
+  const admin = await requireAdmin(req, res, "owner");
+  if (!admin) {
+    return;
+  }
+
+  switch (req.method) {
+    case "GET":
+      return handleExportAuditLog(req, res);
+    default:
+      res.setHeader("Allow", ["GET"]);
+      res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
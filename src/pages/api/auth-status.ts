@@ -1,9 +1,11 @@
 import { NextApiRequest, NextApiResponse } from "next";
-import { getAuth } from "firebase-admin/auth";
-import { getApp } from "firebase-admin/app";
+import { SESSION_COOKIE_NAME, verifySession } from "@/utils/session";
+import { AdminRole } from "@/utils/roles";
 
 interface AuthStatusResponse {
   isAuthenticated: boolean;
+  email?: string | null;
+  role?: AdminRole;
   expiresIn?: number;
 }
 
@@ -17,28 +19,22 @@ export default async function handler(
   }
 
   try {
-    // Get the authorization header
-    const authHeader = req.headers.authorization;
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(200).json({ isAuthenticated: false });
-    }
-    
-    // Extract the token
-    const token = authHeader.split('Bearer ')[1];
-    
-    if (!token) {
+    const session = await verifySession(req.cookies[SESSION_COOKIE_NAME]);
+
+    if (!session) {
       return res.status(200).json({ isAuthenticated: false });
     }
     
-    // Verify the token with Firebase Admin
-    const decodedToken = await getAuth(getApp()).verifyIdToken(token);
-    
-    // Calculate expiration time
-    const expiresIn = decodedToken.exp ? decodedToken.exp - Math.floor(Date.now() / 1000) : undefined;
+    // Seconds until the session cookie expires
+    const expiresIn = Math.max(
+      0,
+      Math.floor((session.expiresAt - Date.now()) / 1000)
+    );
     
     return res.status(200).json({ 
       isAuthenticated: true,
+      email: session.email,
+      role: session.role,
       expiresIn
     });
   } catch (error) {
@@ -0,0 +1,285 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { firestoreDB } from "@/utils/firebaseAdmin";
+import { AdminSession, requireAdmin } from "@/utils/session";
+import { recordAuditInBatch, recordAuditInTransaction } from "@/utils/auditLog";
+import { AdminRole } from "@/utils/roles";
+import { FormField, getTopicFormFields, getWalletField } from "@/utils/formFields";
+import {
+  DRAW_ALGORITHM,
+  drawWinners,
+  generateDrawSeed,
+  hashDrawSeed,
+  hashEntrySet,
+  MAX_DRAW_WINNERS,
+} from "@/utils/raffle";
+import {
+  DRAW_SEEDS_COLLECTION,
+  DrawData,
+  DRAWS_COLLECTION,
+  getDrawEntrySet,
+  getWinnerWalletsInTransaction,
+  loadDrawCandidates,
+  writeDrawEntrySetInBatch,
+} from "@/utils/draws";
+
+// Constants
+// Least privileged role allowed for each method
+const METHOD_ROLES: Record<string, AdminRole> = {
+  GET: "viewer",
+  POST: "editor",
+  PATCH: "editor",
+};
+
+// Types
+interface TopicData {
+  name: string;
+  formFields?: FormField[];
+  deletedAt?: number | null;
+}
+
+// Validation Schemas
+const DrawsQuerySchema = z.object({
+  topicId: z.string().min(1, "Topic ID is required"),
+});
+
+const CommitDrawSchema = z.object({
+  topicId: z.string().min(1, "Topic ID is required"),
+  winnerCount: z.number().int().min(1).max(MAX_DRAW_WINNERS),
+  approvedOnly: z.boolean().default(false),
+  weightField: z.string().min(1).nullable().default(null),
+});
+
+const RevealDrawSchema = z.object({
+  id: z.string().min(1, "Draw ID is required"),
+});
+
+// Helper Functions
+const getTopic = async (topicId: string): Promise<TopicData | null> => {
+  const topic = (
+    await firestoreDB.collection("topics").doc(topicId).get()
+  ).data() as TopicData | undefined;
+  return topic && !topic.deletedAt ? topic : null;
+};
+
+// Route Handlers
+const handleGetDraws = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  try {
+    const { topicId } = DrawsQuerySchema.parse(req.query);
+
+    const snapshot = await firestoreDB
+      .collection(DRAWS_COLLECTION)
+      .where("topicId", "==", topicId)
+      .get();
+    const draws = snapshot.docs
+      .map((doc) => ({ id: doc.id, ...(doc.data() as DrawData) }))
+      .sort((a, b) => b.committedAt - a.committedAt);
+
+    res.status(200).json({ draws });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    console.error("Error fetching draws:", error);
+    res.status(500).json({ error: "Failed to fetch draws" });
+  }
+};
+
+/**
+ * Commit to a draw: snapshot the eligible entries, pick the secret seed and
+ * publish only the hashes of both, so neither the seed nor the entries can
+ * be changed once the other is known
+ */
+const handleCommitDraw = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  admin: AdminSession | null
+): Promise<void> => {
+  try {
+    const { topicId, winnerCount, approvedOnly, weightField } =
+      CommitDrawSchema.parse(req.body);
+
+    const topic = await getTopic(topicId);
+    if (!topic) {
+      return res.status(404).json({ error: "Topic not found" });
+    }
+    if (
+      weightField &&
+      !getTopicFormFields(topic).some((field) => field.name === weightField)
+    ) {
+      return res.status(400).json({ error: "The weight field isn't in this topic's form" });
+    }
+
+    const entries = await loadDrawCandidates(topicId, { approvedOnly, weightField });
+    if (entries.length === 0) {
+      return res.status(400).json({ error: "No entries are eligible for this draw" });
+    }
+
+    const seed = generateDrawSeed();
+    const drawRef = firestoreDB.collection(DRAWS_COLLECTION).doc();
+    const draw: DrawData = {
+      topicId,
+      topicName: topic.name,
+      winnerCount,
+      approvedOnly,
+      weightField,
+      algorithm: DRAW_ALGORITHM,
+      seedHash: hashDrawSeed(seed),
+      status: "committed",
+      committedBy: admin?.email || admin?.uid || null,
+      committedAt: Date.now(),
+      entrySetHash: hashEntrySet(entries),
+      entryCount: entries.length,
+      seed: null,
+      winners: [],
+      drawnBy: null,
+      drawnAt: null,
+    };
+
+    const batch = firestoreDB.batch();
+    batch.create(drawRef, draw);
+    batch.create(firestoreDB.collection(DRAW_SEEDS_COLLECTION).doc(drawRef.id), { seed });
+    writeDrawEntrySetInBatch(batch, drawRef.id, entries);
+    recordAuditInBatch(batch, req, admin, {
+      action: "draw.commit",
+      targetType: "draw",
+      targetId: drawRef.id,
+      after: draw,
+    });
+    await batch.commit();
+
+    res.status(201).json({ id: drawRef.id, ...draw });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    console.error("Error committing draw:", error);
+    res.status(500).json({ error: "Failed to commit draw" });
+  }
+};
+
+/**
+ * Reveal a committed draw's seed and pick its winners from the entries
+ * snapshotted at commit. A draw can only be revealed once.
+ */
+const handleRevealDraw = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  admin: AdminSession | null
+): Promise<void> => {
+  try {
+    const { id } = RevealDrawSchema.parse(req.body);
+
+    const drawRef = firestoreDB.collection(DRAWS_COLLECTION).doc(id);
+    const draw = (await drawRef.get()).data() as DrawData | undefined;
+    if (!draw) {
+      return res.status(404).json({ error: "Draw not found" });
+    }
+    if (draw.status !== "committed") {
+      return res.status(409).json({ error: "This draw has already been revealed" });
+    }
+    if (!draw.entrySetHash) {
+      return res.status(409).json({
+        error: "This draw was committed without an entry snapshot. Commit a new draw instead.",
+      });
+    }
+    const topic = await getTopic(draw.topicId);
+    if (!topic) {
+      return res.status(404).json({ error: "Topic not found" });
+    }
+
+    const entries = await getDrawEntrySet(id);
+    if (hashEntrySet(entries) !== draw.entrySetHash) {
+      throw new Error(`Stored entry set for draw ${id} doesn't match its hash`);
+    }
+    const walletField = getWalletField(getTopicFormFields(topic))?.name;
+
+    const seedRef = firestoreDB.collection(DRAW_SEEDS_COLLECTION).doc(id);
+    const drawn = await firestoreDB.runTransaction(async (transaction) => {
+      const [drawDoc, seedDoc] = await transaction.getAll(drawRef, seedRef);
+      const before = drawDoc.data() as DrawData | undefined;
+      const seed = seedDoc.get("seed") as string | undefined;
+      if (!before || before.status !== "committed" || !seed) {
+        return null;
+      }
+
+      const winnerIds = drawWinners(seed, entries, before.winnerCount);
+      const wallets = await getWinnerWalletsInTransaction(
+        transaction,
+        winnerIds,
+        walletField
+      );
+      const after: DrawData = {
+        ...before,
+        status: "drawn",
+        seed,
+        winners: winnerIds.map((winnerId) => ({
+          id: winnerId,
+          wallet: wallets.get(winnerId) ?? null,
+        })),
+        drawnBy: admin?.email || admin?.uid || null,
+        drawnAt: Date.now(),
+      };
+      transaction.set(drawRef, after);
+      transaction.delete(seedRef);
+      recordAuditInTransaction(transaction, req, admin, {
+        action: "draw.reveal",
+        targetType: "draw",
+        targetId: id,
+        before,
+        after,
+      });
+      return after;
+    });
+    if (!drawn) {
+      return res.status(409).json({ error: "This draw has already been revealed" });
+    }
+
+    res.status(200).json({ id, ...drawn });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    console.error("Error revealing draw:", error);
+    res.status(500).json({ error: "Failed to draw winners" });
+  }
+};
+
+// Main Handler
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> {
+  const admin = await requireAdmin(
+    req,
+    res,
+    METHOD_ROLES[req.method || ""] || "viewer"
+  );
+  if (!admin) {
+    return;
+  }
+
+  switch (req.method) {
+    case "GET":
+      return handleGetDraws(req, res);
+    case "POST":
+      return handleCommitDraw(req, res, admin);
+    case "PATCH":
+      return handleRevealDraw(req, res, admin);
+    default:
+      res.setHeader("Allow", ["GET", "POST", "PATCH"]);
+      res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
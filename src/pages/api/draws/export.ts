@@ -0,0 +1,83 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { firestoreDB } from "@/utils/firebaseAdmin";
+import { requireAdmin } from "@/utils/session";
+import { DrawData, DRAWS_COLLECTION, getDrawRecord } from "@/utils/draws";
+
+// Validation Schema
+const ExportDrawSchema = z.object({
+  id: z.string().min(1, "Draw ID is required"),
+});
+
+// Route Handlers
+/**
+ * Download a revealed draw's record, which `npm run verify:draw` re-runs
+ * offline
+ */
+const handleExportDraw = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  try {
+    const { id } = ExportDrawSchema.parse(req.query);
+
+    const draw = (
+      await firestoreDB.collection(DRAWS_COLLECTION).doc(id).get()
+    ).data() as DrawData | undefined;
+    if (!draw) {
+      return res.status(404).json({ error: "Draw not found" });
+    }
+    const record = await getDrawRecord(id, draw);
+    if (!record) {
+      return res.status(400).json({ error: "This draw hasn't been revealed yet" });
+    }
+
+    res.setHeader("Content-Type", "application/json; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="draw-${id}.json"`);
+    res.setHeader("Cache-Control", "no-store");
+    res.status(200).send(
+      JSON.stringify(
+        {
+          drawId: id,
+          topicId: draw.topicId,
+          topicName: draw.topicName,
+          approvedOnly: draw.approvedOnly,
+          weightField: draw.weightField,
+          committedAt: draw.committedAt,
+          drawnAt: draw.drawnAt,
+          ...record,
+        },
+        null,
+        2
+      )
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    console.error("Error exporting draw:", error);
+    res.status(500).json({ error: "Failed to export draw" });
+  }
+};
+
+// Main Handler
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> {
+  const admin = await requireAdmin(req, res, "viewer");
+  if (!admin) {
+    return;
+  }
+
+  switch (req.method) {
+    case "GET":
+      return handleExportDraw(req, res);
+    default:
+      res.setHeader("Allow", ["GET"]);
+      res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -1,98 +1,176 @@
 import { NextApiRequest, NextApiResponse } from "next";
 import { firestoreDB } from "@/utils/firebaseAdmin";
 import { z } from "zod";
-import { isAddress } from "viem";
-import { verifyToken } from "@/utils/auth";
-import { Query, DocumentData } from "firebase-admin/firestore";
+import { AdminSession, requireAdmin } from "@/utils/session";
+import { recordAuditInTransaction } from "@/utils/auditLog";
+import { rateLimit, RateLimitRule } from "@/utils/rateLimit";
+import { AdminRole } from "@/utils/roles";
+import { canonicalizeEntry, CanonicalFields } from "@/utils/canonical";
+import { buildSearchFields, EntrySearchFields } from "@/utils/entrySearch";
+import { recordEntryStatsInTransaction } from "@/utils/entryStats";
+import { EntryRisk } from "@/utils/entryRisk";
+import {
+  buildRiskFingerprints,
+  findRiskCandidates,
+  flagRelatedEntries,
+  isRiskScoringEnabled,
+  scoreEntryRisk,
+} from "@/utils/riskScoring";
+import { getClientIp } from "@/utils/request";
+import { isMailerConfigured, sendMail } from "@/utils/mailer";
+import { claimReceiptCode, findFreeReceiptCode } from "@/utils/receiptCode";
+import {
+  createEntryEditLink,
+  EntryEditLink,
+  isEntryEditEnabled,
+} from "@/utils/entryEditToken";
+import { isTopicOpen, TopicSchedule } from "@/utils/topicSchedule";
+import {
+  buildEntryValidator,
+  FieldValue,
+  FormField,
+  getTopicFormFields,
+  getWalletField,
+} from "@/utils/formFields";
+import {
+  UsernameVerificationError,
+  verifyEntryUsernames,
+} from "@/utils/usernameProviders";
+import { UsernameCheckStatus } from "@/utils/usernameVerification";
+import {
+  createEntryReview,
+  EntryReview,
+  EntryReviewInputSchema,
+  hasRequiredReason,
+  UNREVIEWED_ENTRY,
+} from "@/utils/entryStatus";
+import {
+  buildEntriesQuery,
+  EntryFilterError,
+  EntryFiltersSchema,
+} from "@/utils/entryQuery";
+import {
+  verifyWalletProof,
+  WalletProofError,
+  WalletProofSchema,
+} from "@/utils/walletProof";
+import {
+  claimUniqueKeys,
+  DuplicateEntryError,
+  releaseUniqueKeys,
+} from "@/utils/uniqueKeys";
+import {
+  getPaginationParams,
+  paginateQuery,
+  PaginationResponse,
+} from "@/utils/pagination";
+import { ENTRY_SORT_FIELDS, getSortParams } from "@/utils/sorting";
 
 // Constants
-const DEFAULT_PAGE_SIZE = 10;
-const MAX_PAGE_SIZE = 100;
-
-// Types
-interface PaginationParams {
-  page: number;
-  limit: number;
-  offset: number;
-}
+// Public submissions allowed per IP
+const SUBMIT_RATE_LIMIT: RateLimitRule = {
+  name: "entries:post",
+  limit: 10,
+  windowMs: 10 * 60 * 1000,
+};
 
-interface PaginationResponse {
-  total: number;
-  page: number;
-  limit: number;
-  totalPages: number;
-}
+// Least privileged role allowed for each admin method
+const METHOD_ROLES: Record<string, AdminRole> = {
+  GET: "viewer",
+  PATCH: "editor",
+  DELETE: "editor",
+};
 
+// Types
 interface EntryResponse {
   entries: EntryData[];
   pagination: PaginationResponse;
 }
 
-interface EntryData {
+// Entries also carry any custom fields their topic's form defines
+interface EntryData extends Partial<EntryReview> {
   id: string;
   topicId: string;
-  telegramUsername: string;
-  platformUsername: string;
-  walletAddress: string;
+  telegramUsername?: string;
+  platformUsername?: string;
+  walletAddress?: string;
   discordUsername?: string;
-  email: string;
+  email?: string;
+  canonical?: CanonicalFields;
+  search?: EntrySearchFields;
+  risk?: EntryRisk | null;
+  riskFingerprints?: string[];
+  walletVerified?: boolean;
+  usernameChecks?: Record<string, UsernameCheckStatus>;
+  receiptCode?: string;
+  topicDeletedAt?: number | null;
   createdAt: number;
+  [field: string]: unknown;
+}
+
+type EntrySubmission = Record<string, FieldValue> & {
+  topicId: string;
+  topicName: string;
+};
+
+interface TopicData extends TopicSchedule {
+  name: string;
+  formFields?: FormField[];
+  requireWalletSignature?: boolean;
 }
 
 // Validation Schema
-const EntrySchema = z.object({
+// The remaining fields are validated against the topic's own form definition
+const EntryTopicSchema = z.object({
   topicId: z.string().min(1, "Topic ID is required"),
-  topicName: z.string(),
-  telegramUsername: z
-    .string()
-    .min(1, "Telegram username is required")
-    .max(32, "Telegram username is too long")
-    .regex(
-      /^@[a-zA-Z0-9_]+$/,
-      "Telegram username must start with '@' and can only contain letters, numbers, and underscores after the '@'"
-    ),
-  platformUsername: z
-    .string()
-    .min(1, "Platform username is required")
-    .max(50, "Platform username is too long")
-    .refine(
-      (username) => {
-        // Use the same validation rules as in validate-platform-username.ts
-        const hasSpecialChars = /[^a-zA-Z0-9_\.]/.test(username);
-        const isInvalidLength = username.length < 3 || username.length > 20;
-        const startsWithNumber = /^[0-9]/.test(username);
-        
-        return !hasSpecialChars && !isInvalidLength && !startsWithNumber;
-      },
-      {
-        message: "Platform username must be 3-20 characters long, start with a letter, and contain only letters, numbers, underscores, and dots"
-      }
-    ),
-  walletAddress: z
-    .string()
-    .min(1, "Wallet address is required")
-    .refine((address) => isAddress(address), "Invalid Ethereum wallet address"),
-  discordUsername: z
-    .string()
-    .max(32, "Discord username is too long")
-    .regex(
-      /^[a-zA-Z0-9_#]+$/,
-      "Discord username can only contain letters, numbers, underscores, and #"
-    )
-    .optional()
-    .or(z.literal("")),
-  email: z
-    .string()
-    .email("Invalid email address")
-    .max(254, "Email address is too long"),
+  // Signed sign-in message, for topics that require wallet ownership
+  walletProof: WalletProofSchema.optional(),
+  // Random id the form keeps in the browser, for spotting repeat submitters
+  deviceId: z.string().max(100).optional(),
+  // Email the edit link to the entry's email address as well
+  sendEditLink: z.boolean().optional(),
+});
+
+const ReviewEntrySchema = EntryReviewInputSchema.extend({
+  id: z.string().min(1, "Entry ID is required"),
+}).refine(hasRequiredReason, {
+  message: "A reason is required",
+  path: ["reason"],
 });
 
 // Helper Functions
-const getPaginationParams = (query: NextApiRequest['query']): PaginationParams => {
-  const page = Math.max(1, parseInt(query.page as string) || 1);
-  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(query.limit as string) || DEFAULT_PAGE_SIZE));
-  const offset = (page - 1) * limit;
-  return { page, limit, offset };
+/**
+ * Email a participant the link to edit their entry. Links need an absolute
+ * URL, so nothing is sent without PUBLIC_APP_URL or a registered mailer.
+ * @returns Whether the email was sent
+ */
+const emailEditLink = async (
+  to: string,
+  topicName: string,
+  link: EntryEditLink
+): Promise<boolean> => {
+  const appUrl = process.env.PUBLIC_APP_URL;
+  if (!appUrl || !isMailerConfigured()) {
+    return false;
+  }
+
+  try {
+    await sendMail({
+      to,
+      subject: `Your entry for ${topicName}`,
+      text: [
+        `Thanks for entering ${topicName}.`,
+        `You can change your entry while the topic is open, until ${new Date(
+          link.expiresAt
+        ).toUTCString()}:`,
+        `${appUrl.replace(/\/+$/, "")}${link.path}`,
+      ].join("\n\n"),
+    });
+    return true;
+  } catch (error) {
+    console.error("Error emailing edit link:", error);
+    return false;
+  }
 };
 
 // Route Handlers
@@ -101,63 +179,43 @@ const handleGetEntries = async (
   res: NextApiResponse
 ): Promise<void> => {
   try {
-    const { page, limit, offset } = getPaginationParams(req.query);
-    const topicId = req.query.topicId as string;
-    const topicName = req.query.topicName as string;
-
-    let entriesQuery: Query<DocumentData> = firestoreDB.collection("entries");
-    
-    // Apply topicId filter if provided
-    if (topicId) {
-      entriesQuery = entriesQuery.where("topicId", "==", topicId);
+    const sort = getSortParams(req.query, ENTRY_SORT_FIELDS);
+    if (!sort) {
+      return res.status(400).json({ error: "Invalid sort" });
+    }
+    const paginationParams = getPaginationParams(req.query, sort);
+    if (!paginationParams) {
+      return res.status(400).json({ error: "Invalid cursor" });
     }
-    
-    // Apply topicName filter if provided and no topicId
-    if (topicName && !topicId) {
-      // Get all entries first since Firestore doesn't support LIKE queries
-      const querySnapshot = await entriesQuery.get();
-      const filteredDocs = querySnapshot.docs.filter(doc => {
-        const docTopicName = doc.data().topicName as string;
-        return docTopicName.toLowerCase().includes(topicName.toLowerCase());
+    const { page, limit } = paginationParams;
+    const filters = EntryFiltersSchema.safeParse(req.query);
+    if (!filters.success) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: filters.error.errors,
       });
+    }
 
-      // Calculate total for pagination
-      const total = filteredDocs.length;
-
-      // Apply manual pagination
-      const entries = filteredDocs
-        .slice(offset, offset + limit)
-        .map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        } as EntryData));
-
+    const entriesQuery = await buildEntriesQuery(filters.data);
+    if (!entriesQuery) {
       const response: EntryResponse = {
-        entries,
-        pagination: {
-          total,
-          page,
-          limit,
-          totalPages: Math.ceil(total / limit)
-        }
+        entries: [],
+        pagination: { total: 0, page, limit, totalPages: 0, nextCursor: null },
       };
-
       return res.status(200).json(response);
     }
 
-    // Get total count for pagination if no topicName filter
+    // Get total count for pagination
     const totalSnapshot = await entriesQuery.count().get();
     const total = totalSnapshot.data().count;
 
-    // Apply pagination with ordering
-    entriesQuery = entriesQuery
-      .orderBy("createdAt", "desc")
-      .limit(limit)
-      .offset(offset);
+    const { docs, nextCursor } = await paginateQuery(
+      entriesQuery,
+      paginationParams,
+      sort
+    );
 
-    const querySnapshot = await entriesQuery.get();
-
-    const entries = querySnapshot.docs.map(doc => ({
+    const entries = docs.map(doc => ({
       id: doc.id,
       ...doc.data()
     } as EntryData));
@@ -168,12 +226,16 @@ const handleGetEntries = async (
         total,
         page,
         limit,
-        totalPages: Math.ceil(total / limit)
+        totalPages: Math.ceil(total / limit),
+        nextCursor,
       }
     };
 
     res.status(200).json(response);
   } catch (error) {
+    if (error instanceof EntryFilterError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error("Error fetching entries:", error);
     res.status(500).json({ error: "Failed to fetch entries" });
   }
@@ -184,60 +246,140 @@ const handlePostEntry = async (
   res: NextApiResponse
 ): Promise<void> => {
   try {
-    const data = EntrySchema.parse(req.body);
-
-    // Check for duplicates in the same topic
-    const duplicatesQuery = await firestoreDB.collection("entries")
-      .where("topicId", "==", data.topicId)
-      .get();
-
-    const duplicates = duplicatesQuery.docs;
-    
-    // Check for duplicate wallet address
-    const duplicateWallet = duplicates.some(doc => doc.data().walletAddress === data.walletAddress);
-    if (duplicateWallet) {
-      return res.status(400).json({
-        error: "This wallet address has already been submitted for this topic",
-      });
-    }
+    const { topicId, walletProof, deviceId, sendEditLink } =
+      EntryTopicSchema.parse(req.body);
 
-    // Check for duplicate email
-    const duplicateEmail = duplicates.some(doc => doc.data().email === data.email);
-    if (duplicateEmail) {
+    const topicDoc = await firestoreDB.collection("topics").doc(topicId).get();
+    const topic = topicDoc.data() as TopicData | undefined;
+    if (!topic || !isTopicOpen(topic)) {
       return res.status(400).json({
-        error: "This email address has already been submitted for this topic",
+        error: "This topic is not accepting entries",
       });
     }
 
-    // Check for duplicate telegram username
-    const duplicateTelegram = duplicates.some(doc => doc.data().telegramUsername === data.telegramUsername);
-    if (duplicateTelegram) {
-      return res.status(400).json({
-        error: "This Telegram username has already been submitted for this topic",
-      });
-    }
+    // Stored with the entry for lists and exports, so it comes from the
+    // topic rather than the request
+    const topicName = topic.name;
+    const formFields = getTopicFormFields(topic);
+    const fieldValues = buildEntryValidator(formFields).parse(req.body);
+    const data: EntrySubmission = { ...fieldValues, topicId, topicName };
 
-    // Check for duplicate platform username
-    const duplicatePlatform = duplicates.some(doc => doc.data().platformUsername === data.platformUsername);
-    if (duplicatePlatform) {
+    const walletField = topic.requireWalletSignature
+      ? getWalletField(formFields)
+      : undefined;
+    if (walletField && !walletProof) {
       return res.status(400).json({
-        error: "This platform username has already been submitted for this topic",
+        error: "Sign the message with your wallet to prove you own it",
       });
     }
 
-    const newEntry = {
+    // Usernames are checked here rather than trusting the form's earlier call
+    const usernameChecks = await verifyEntryUsernames(formFields, fieldValues);
+
+    // Keep what the participant typed, alongside the form used for comparison
+    const canonical = canonicalizeEntry(data);
+    const entryRef = firestoreDB.collection("entries").doc();
+    const createdAt = Date.now();
+
+    // Compare with earlier entries in the topic for signs of one participant
+    // entering several times; entries go unscored while scoring is off
+    const scoreRisk = isRiskScoringEnabled();
+    const riskFingerprints = scoreRisk
+      ? buildRiskFingerprints(canonical, { ip: getClientIp(req), deviceId })
+      : [];
+    const risk = scoreRisk
+      ? scoreEntryRisk(
+          { id: entryRef.id, fingerprints: riskFingerprints, createdAt },
+          await findRiskCandidates(topicId, riskFingerprints)
+        )
+      : null;
+
+    // Participants get their entry back, but not how it was scored
+    const submitted = {
       ...data,
-      createdAt: Date.now(),
+      canonical,
+      search: buildSearchFields(canonical),
+      walletVerified: !!walletField,
+      usernameChecks,
+      ...UNREVIEWED_ENTRY,
+      topicDeletedAt: null,
+      createdAt,
     };
 
-    const docRef = await firestoreDB.collection("entries").add(newEntry);
-    res.status(201).json({ id: docRef.id, ...newEntry });
+    // Claim the per-topic unique keys and write the entry atomically, so two
+    // concurrent submissions can never both pass the duplicate check
+    const receiptCode = await firestoreDB.runTransaction(async (transaction) => {
+      const nonceRef =
+        walletField && walletProof
+          ? await verifyWalletProof(transaction, walletProof, {
+              address: String(data[walletField.name] || ""),
+              topicId,
+            })
+          : null;
+      // What the participant quotes to look the entry up on /status
+      const code = await findFreeReceiptCode(transaction);
+      await claimUniqueKeys(transaction, entryRef.id, data);
+      // Spend the signed nonce with the entry, so it can't be replayed
+      if (nonceRef) {
+        transaction.delete(nonceRef);
+      }
+      const newEntry = { ...submitted, receiptCode: code, risk, riskFingerprints };
+      claimReceiptCode(transaction, code, { entryId: entryRef.id, topicId });
+      transaction.create(entryRef, newEntry);
+      recordEntryStatsInTransaction(transaction, newEntry, 1);
+      recordAuditInTransaction(transaction, req, null, {
+        action: "entry.create",
+        targetType: "entry",
+        targetId: entryRef.id,
+        after: newEntry,
+      });
+      return code;
+    });
+
+    // The entries it matched are flagged too. They are rescored on the next
+    // re-scan anyway, so a failure here doesn't fail the submission
+    try {
+      if (risk) {
+        await flagRelatedEntries(entryRef.id, risk);
+      }
+    } catch (error) {
+      console.error("Error flagging related entries:", error);
+    }
+
+    // The link is only shown once, so participants are told whether it was
+    // also emailed
+    const editLink = isEntryEditEnabled()
+      ? createEntryEditLink({ entryId: entryRef.id, topicId })
+      : null;
+    const editLinkEmailed =
+      !!editLink &&
+      !!sendEditLink &&
+      typeof data.email === "string" &&
+      (await emailEditLink(data.email, topicName, editLink));
+
+    res.status(201).json({
+      id: entryRef.id,
+      ...submitted,
+      receiptCode,
+      editPath: editLink?.path ?? null,
+      editExpiresAt: editLink?.expiresAt ?? null,
+      editLinkEmailed,
+    });
   } catch (error) {
     if (error instanceof z.ZodError) {
       res.status(400).json({
         error: "Validation failed",
         details: error.errors,
       });
+    } else if (
+      error instanceof DuplicateEntryError ||
+      error instanceof WalletProofError
+    ) {
+      res.status(400).json({ error: error.message });
+    } else if (error instanceof UsernameVerificationError) {
+      res
+        .status(error.status === "invalid" ? 400 : 503)
+        .json({ error: error.message, field: error.field });
     } else {
       console.error("Error creating entry:", error);
       res.status(500).json({ error: "Failed to create entry" });
@@ -245,16 +387,81 @@ const handlePostEntry = async (
   }
 };
 
+const handleReviewEntry = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  admin: AdminSession | null
+): Promise<void> => {
+  try {
+    const { id, ...input } = ReviewEntrySchema.parse(req.body);
+    const review = createEntryReview(input, admin?.email || admin?.uid || null);
+
+    const entryRef = firestoreDB.collection("entries").doc(id);
+    const entry = await firestoreDB.runTransaction(async (transaction) => {
+      const entryDoc = await transaction.get(entryRef);
+      if (!entryDoc.exists) {
+        return null;
+      }
+      const before = entryDoc.data() as EntryData;
+      const after = { ...before, ...review };
+      transaction.update(entryRef, { ...review });
+      recordAuditInTransaction(transaction, req, admin, {
+        action: "entry.review",
+        targetType: "entry",
+        targetId: id,
+        before,
+        after,
+      });
+      return after;
+    });
+
+    if (!entry) {
+      return res.status(404).json({ error: "Entry not found" });
+    }
+    res.status(200).json({ message: "Entry reviewed", entry: { ...entry, id } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    console.error("Error reviewing entry:", error);
+    res.status(500).json({ error: "Failed to review entry" });
+  }
+};
+
 const handleDeleteEntry = async (
   req: NextApiRequest,
-  res: NextApiResponse
+  res: NextApiResponse,
+  admin: AdminSession | null
 ): Promise<void> => {
   try {
     const { id } = req.body;
     if (!id) {
       return res.status(400).json({ error: "Entry ID is required" });
     }
-    await firestoreDB.collection("entries").doc(id).delete();
+
+    // Release the entry's unique keys and stats counts together with the
+    // entry itself
+    const entryRef = firestoreDB.collection("entries").doc(id);
+    await firestoreDB.runTransaction(async (transaction) => {
+      const entryDoc = await transaction.get(entryRef);
+      if (!entryDoc.exists) {
+        return;
+      }
+      const entry = entryDoc.data() as EntryData;
+      await releaseUniqueKeys(transaction, id, entry);
+      transaction.delete(entryRef);
+      recordEntryStatsInTransaction(transaction, entry, -1);
+      recordAuditInTransaction(transaction, req, admin, {
+        action: "entry.delete",
+        targetType: "entry",
+        targetId: id,
+        before: entry,
+      });
+    });
+
     res.status(200).json({ message: "Entry deleted successfully" });
   } catch (error) {
     console.error("Error deleting entry:", error);
@@ -267,20 +474,19 @@ export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
 ): Promise<void> {
-  // Only verify token for admin operations
+  // Only require a session for admin operations
+  let admin: AdminSession | null = null;
   if (req.method !== "POST") {
-    const cookies = req.headers.cookie?.split(';').reduce((acc, cookie) => {
-      const [key, value] = cookie.trim().split('=');
-      acc[key] = value;
-      return acc;
-    }, {} as Record<string, string>);
-    
-    const token = cookies?.token;
-    const admin = verifyToken(token || "");
-
+    admin = await requireAdmin(
+      req,
+      res,
+      METHOD_ROLES[req.method || ""] || "viewer"
+    );
     if (!admin) {
-      return res.status(401).json({ error: "Unauthorized" });
+      return;
     }
+  } else if (!(await rateLimit(req, res, SUBMIT_RATE_LIMIT))) {
+    return;
   }
 
   switch (req.method) {
@@ -288,10 +494,12 @@ export default async function handler(
       return handleGetEntries(req, res);
     case "POST":
       return handlePostEntry(req, res);
+    case "PATCH":
+      return handleReviewEntry(req, res, admin);
     case "DELETE":
-      return handleDeleteEntry(req, res);
+      return handleDeleteEntry(req, res, admin);
     default:
-      res.setHeader("Allow", ["GET", "POST", "DELETE"]);
+      res.setHeader("Allow", ["GET", "POST", "PATCH", "DELETE"]);
       res.status(405).end(`Method ${req.method} Not Allowed`);
   }
 }
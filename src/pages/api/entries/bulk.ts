@@ -0,0 +1,300 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  DocumentData,
+  DocumentSnapshot,
+  WriteBatch,
+} from "firebase-admin/firestore";
+import { z } from "zod";
+import { firestoreDB } from "@/utils/firebaseAdmin";
+import { AdminSession, requireAdmin } from "@/utils/session";
+import { AdminRole } from "@/utils/roles";
+import { recordAuditInBatch } from "@/utils/auditLog";
+import { getHeldUniqueKeys, UniqueKeySource } from "@/utils/uniqueKeys";
+import {
+  EntryStatsSource,
+  MAX_STATS_WRITES,
+  recordEntryStatsInBatch,
+} from "@/utils/entryStats";
+import {
+  createEntryReview,
+  EntryReview,
+  EntryReviewInputSchema,
+  hasRequiredReason,
+} from "@/utils/entryStatus";
+import {
+  buildEntriesQuery,
+  EntryFilterError,
+  EntryFiltersSchema,
+  MAX_ENTRY_SELECTION,
+} from "@/utils/entryQuery";
+
+// Constants
+// Ids accepted per request; clients send larger selections in chunks
+const MAX_BULK_IDS = 500;
+
+// Firestore allows at most 500 writes in one batch
+const MAX_BATCH_WRITES = 500;
+
+// Least privileged role allowed for each method
+const METHOD_ROLES: Record<string, AdminRole> = {
+  GET: "viewer",
+  POST: "editor",
+};
+
+// Types
+type EntryData = UniqueKeySource & EntryStatsSource & Partial<EntryReview>;
+
+export interface BulkEntryResult {
+  id: string;
+  ok: boolean;
+  error?: string;
+}
+
+// The writes for one entry, which always land in the same batch
+interface EntryWrite {
+  id: string;
+  writes: number;
+  apply: (batch: WriteBatch) => void;
+}
+
+// Validation Schemas
+const BulkIdsSchema = z
+  .array(z.string().min(1))
+  .min(1, "Select at least one entry")
+  .max(MAX_BULK_IDS, `At most ${MAX_BULK_IDS} entries per request`);
+
+const BulkActionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("delete"), ids: BulkIdsSchema }),
+  EntryReviewInputSchema.extend({
+    action: z.literal("review"),
+    ids: BulkIdsSchema,
+  }),
+]);
+
+// Helper Functions
+// Entries are read before the batch is written, so each write requires the
+// entry to be unchanged since; otherwise it could be counted out twice or
+// audited with a stale `before`
+const unchangedSince = (doc: DocumentSnapshot<DocumentData>) => ({
+  lastUpdateTime: doc.updateTime!,
+});
+
+const planDeletes = async (
+  req: NextApiRequest,
+  admin: AdminSession | null,
+  snapshots: DocumentSnapshot<DocumentData>[]
+): Promise<EntryWrite[]> => {
+  const entries = snapshots.map((doc) => ({
+    id: doc.id,
+    entry: doc.data() as EntryData,
+  }));
+  const heldKeys = await getHeldUniqueKeys(entries);
+
+  return snapshots.map((doc, i) => {
+    const keyRefs = heldKeys.get(doc.id) || [];
+    return {
+      id: doc.id,
+      writes: keyRefs.length + MAX_STATS_WRITES + 2,
+      apply: (batch) => {
+        keyRefs.forEach((ref) => batch.delete(ref));
+        batch.delete(doc.ref, unchangedSince(doc));
+        recordEntryStatsInBatch(batch, entries[i].entry, -1);
+        recordAuditInBatch(batch, req, admin, {
+          action: "entry.delete",
+          targetType: "entry",
+          targetId: doc.id,
+          before: entries[i].entry,
+        });
+      },
+    };
+  });
+};
+
+const planReviews = (
+  req: NextApiRequest,
+  admin: AdminSession | null,
+  snapshots: DocumentSnapshot<DocumentData>[],
+  review: EntryReview
+): EntryWrite[] =>
+  snapshots.map((doc) => {
+    const before = doc.data() as EntryData;
+    return {
+      id: doc.id,
+      writes: 2,
+      apply: (batch) => {
+        batch.update(doc.ref, { ...review }, unchangedSince(doc));
+        recordAuditInBatch(batch, req, admin, {
+          action: "entry.review",
+          targetType: "entry",
+          targetId: doc.id,
+          before,
+          after: { ...before, ...review },
+        });
+      },
+    };
+  });
+
+/**
+ * Commit the writes in as few batches as fit Firestore's limit. A failed
+ * batch, including one with an entry changed since it was read, fails only
+ * the entries in it, which the client can retry.
+ */
+const commitInBatches = async (
+  entryWrites: EntryWrite[]
+): Promise<BulkEntryResult[]> => {
+  const groups: EntryWrite[][] = [];
+  let groupWrites = 0;
+  entryWrites.forEach((entryWrite) => {
+    if (groups.length === 0 || groupWrites + entryWrite.writes > MAX_BATCH_WRITES) {
+      groups.push([]);
+      groupWrites = 0;
+    }
+    groups[groups.length - 1].push(entryWrite);
+    groupWrites += entryWrite.writes;
+  });
+
+  const results: BulkEntryResult[] = [];
+  for (const group of groups) {
+    const batch = firestoreDB.batch();
+    group.forEach((entryWrite) => entryWrite.apply(batch));
+    try {
+      await batch.commit();
+      results.push(...group.map(({ id }) => ({ id, ok: true })));
+    } catch (error) {
+      console.error("Error committing bulk entry batch:", error);
+      results.push(
+        ...group.map(({ id }) => ({ id, ok: false, error: "Failed to update entry" }))
+      );
+    }
+  }
+  return results;
+};
+
+// Route Handlers
+/**
+ * List the ids of every entry matching the filters, newest first, for
+ * selecting all of them at once
+ */
+const handleGetEntryIds = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  try {
+    const filters = EntryFiltersSchema.parse(req.query);
+    const entriesQuery = await buildEntriesQuery(filters);
+    if (!entriesQuery) {
+      return res.status(200).json({ ids: [] });
+    }
+
+    const snapshot = await entriesQuery
+      .orderBy("createdAt", "desc")
+      .select()
+      .limit(MAX_ENTRY_SELECTION + 1)
+      .get();
+    if (snapshot.size > MAX_ENTRY_SELECTION) {
+      return res.status(400).json({
+        error: `More than ${MAX_ENTRY_SELECTION} entries match. Please narrow the filter`,
+      });
+    }
+
+    res.status(200).json({ ids: snapshot.docs.map((doc) => doc.id) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    if (error instanceof EntryFilterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error listing entry ids:", error);
+    res.status(500).json({ error: "Failed to list entries" });
+  }
+};
+
+const handleBulkAction = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  admin: AdminSession | null
+): Promise<void> => {
+  try {
+    const body = BulkActionSchema.parse(req.body);
+    if (body.action === "review" && !hasRequiredReason(body)) {
+      return res.status(400).json({ error: "A reason is required" });
+    }
+
+    const ids = [...new Set(body.ids)];
+    const snapshots = await firestoreDB.getAll(
+      ...ids.map((id) => firestoreDB.collection("entries").doc(id))
+    );
+    const found = snapshots.filter((doc) => doc.exists);
+    // Entries of a topic in the trash are left as they are until it is restored
+    const trashedIds = new Set(
+      found.filter((doc) => doc.get("topicDeletedAt")).map((doc) => doc.id)
+    );
+    const writable = found.filter((doc) => !trashedIds.has(doc.id));
+
+    const entryWrites =
+      body.action === "delete"
+        ? await planDeletes(req, admin, writable)
+        : planReviews(
+            req,
+            admin,
+            writable,
+            createEntryReview(body, admin?.email || admin?.uid || null)
+          );
+    const committed = await commitInBatches(entryWrites);
+
+    // Report in the order the ids were sent
+    const resultsById = new Map(committed.map((result) => [result.id, result]));
+    const results: BulkEntryResult[] = ids.map(
+      (id) =>
+        resultsById.get(id) || {
+          id,
+          ok: false,
+          error: trashedIds.has(id) ? "Entry's topic is in the trash" : "Entry not found",
+        }
+    );
+
+    res.status(200).json({
+      results,
+      succeeded: results.filter((result) => result.ok).length,
+      failed: results.filter((result) => !result.ok).length,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    console.error("Error applying bulk entry action:", error);
+    res.status(500).json({ error: "Failed to update entries" });
+  }
+};
+
+// Main Handler
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> {
+  const admin = await requireAdmin(
+    req,
+    res,
+    METHOD_ROLES[req.method || ""] || "viewer"
+  );
+  if (!admin) {
+    return;
+  }
+
+  switch (req.method) {
+    case "GET":
+      return handleGetEntryIds(req, res);
+    case "POST":
+      return handleBulkAction(req, res, admin);
+    default:
+      res.setHeader("Allow", ["GET", "POST"]);
+      res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,273 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { FieldValue } from "firebase-admin/firestore";
+import { z } from "zod";
+import { firestoreDB } from "@/utils/firebaseAdmin";
+import { recordAuditInTransaction } from "@/utils/auditLog";
+import { rateLimit, RateLimitRule } from "@/utils/rateLimit";
+import { canonicalizeEntry, CanonicalFields } from "@/utils/canonical";
+import { buildSearchFields } from "@/utils/entrySearch";
+import { EntryRisk } from "@/utils/entryRisk";
+import { isTopicOpen, TopicSchedule } from "@/utils/topicSchedule";
+import {
+  EntryReview,
+  getEntryReview,
+  isReviewResetByEdit,
+  UNREVIEWED_ENTRY,
+} from "@/utils/entryStatus";
+import {
+  EntryStatsSource,
+  recordEntryStatsChangeInTransaction,
+} from "@/utils/entryStats";
+import {
+  findRiskCandidates,
+  flagRelatedEntries,
+  isRiskScoringEnabled,
+  refreshRiskFingerprints,
+  scoreEntryRisk,
+} from "@/utils/riskScoring";
+import { EntryEditTokenError, verifyEntryEditToken } from "@/utils/entryEditToken";
+import {
+  buildEntryValidator,
+  FieldValue as FormFieldValue,
+  FormField,
+  getTopicFormFields,
+  getWalletField,
+} from "@/utils/formFields";
+import {
+  UsernameVerificationError,
+  verifyEntryUsernames,
+} from "@/utils/usernameProviders";
+import {
+  verifyWalletProof,
+  WalletProofError,
+  WalletProofSchema,
+} from "@/utils/walletProof";
+import { DuplicateEntryError, updateUniqueKeys } from "@/utils/uniqueKeys";
+
+// Constants
+// Edits allowed per IP
+const EDIT_RATE_LIMIT: RateLimitRule = {
+  name: "entries:edit",
+  limit: 10,
+  windowMs: 10 * 60 * 1000,
+};
+
+// Types
+// Entries also carry any custom fields their topic's form defines
+interface EntryData extends EntryStatsSource, Partial<EntryReview> {
+  topicName: string;
+  canonical?: CanonicalFields;
+  riskFingerprints?: string[];
+  walletVerified?: boolean;
+  topicDeletedAt?: number | null;
+  [field: string]: unknown;
+}
+
+type EntrySubmission = Record<string, FormFieldValue> & {
+  topicId: string;
+  topicName: string;
+};
+
+interface TopicData extends TopicSchedule {
+  formFields?: FormField[];
+  requireWalletSignature?: boolean;
+}
+
+// Validation Schema
+// The remaining fields are validated against the topic's own form definition
+const EditEntrySchema = z.object({
+  editToken: z.string().min(1, "Edit link is required"),
+  // Only needed when the signed wallet changes
+  walletProof: WalletProofSchema.optional(),
+});
+
+// Route Handlers
+/**
+ * Replace a participant's answers using the link they got when submitting.
+ * The new values go through the same validation, duplicate and risk checks
+ * as a new submission, and the entry goes back to pending review.
+ */
+const handleEditEntry = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  try {
+    const { editToken, walletProof } = EditEntrySchema.parse(req.body);
+    const { entryId, topicId } = verifyEntryEditToken(editToken);
+
+    const topicDoc = await firestoreDB.collection("topics").doc(topicId).get();
+    const topic = topicDoc.data() as TopicData | undefined;
+    if (!topic || !isTopicOpen(topic)) {
+      return res.status(400).json({
+        error: "This topic is closed, so entries can no longer be edited",
+      });
+    }
+
+    const entryRef = firestoreDB.collection("entries").doc(entryId);
+    const existing = (await entryRef.get()).data() as EntryData | undefined;
+    if (!existing || existing.topicId !== topicId || existing.topicDeletedAt) {
+      return res.status(404).json({ error: "Entry not found" });
+    }
+
+    const formFields = getTopicFormFields(topic);
+    const fieldValues = buildEntryValidator(formFields).parse(req.body);
+    const data: EntrySubmission = {
+      ...fieldValues,
+      topicId,
+      topicName: existing.topicName,
+    };
+
+    // A new wallet has to be proven like on the first submission
+    const walletField = topic.requireWalletSignature
+      ? getWalletField(formFields)
+      : undefined;
+    const walletChanged =
+      !!walletField &&
+      String(data[walletField.name] || "").toLowerCase() !==
+        String(existing[walletField.name] || "").toLowerCase();
+    if (walletChanged && !walletProof) {
+      return res.status(400).json({
+        error: "Sign the message with your new wallet to prove you own it",
+      });
+    }
+
+    const usernameChecks = await verifyEntryUsernames(formFields, fieldValues);
+
+    const canonical = canonicalizeEntry(data);
+    // While scoring is off the entry keeps the score it had
+    let rescored = {};
+    let risk: EntryRisk | null = null;
+    if (isRiskScoringEnabled()) {
+      const riskFingerprints = refreshRiskFingerprints(
+        existing.riskFingerprints,
+        canonical
+      );
+      risk = scoreEntryRisk(
+        { id: entryId, fingerprints: riskFingerprints, createdAt: existing.createdAt },
+        await findRiskCandidates(topicId, riskFingerprints)
+      );
+      rescored = { risk, riskFingerprints };
+    }
+
+    // Optional fields left blank are removed rather than kept at their old value
+    const clearedFields = formFields
+      .map((field) => field.name)
+      .filter((name) => !(name in fieldValues));
+    const changes = {
+      ...fieldValues,
+      canonical,
+      search: buildSearchFields(canonical),
+      walletVerified: walletChanged || (!!walletField && !!existing.walletVerified),
+      usernameChecks,
+      ...rescored,
+      updatedAt: Date.now(),
+    };
+
+    const found = await firestoreDB.runTransaction(async (transaction) => {
+      const entryDoc = await transaction.get(entryRef);
+      if (!entryDoc.exists) {
+        return false;
+      }
+      const before = entryDoc.data() as EntryData;
+      const resetReview = isReviewResetByEdit(before);
+      const update = { ...changes, ...(resetReview && UNREVIEWED_ENTRY) };
+      const after: EntryData = {
+        ...Object.fromEntries(
+          Object.entries(before).filter(([name]) => !clearedFields.includes(name))
+        ),
+        ...update,
+        topicId,
+        topicName: before.topicName,
+        createdAt: before.createdAt,
+      };
+
+      const nonceRef =
+        walletField && walletChanged && walletProof
+          ? await verifyWalletProof(transaction, walletProof, {
+              address: String(data[walletField.name] || ""),
+              topicId,
+            })
+          : null;
+      await updateUniqueKeys(transaction, entryId, before, after);
+      if (nonceRef) {
+        transaction.delete(nonceRef);
+      }
+      transaction.update(entryRef, {
+        ...update,
+        ...Object.fromEntries(clearedFields.map((name) => [name, FieldValue.delete()])),
+      });
+      recordEntryStatsChangeInTransaction(transaction, before, after);
+      recordAuditInTransaction(transaction, req, null, {
+        action: "entry.update",
+        targetType: "entry",
+        targetId: entryId,
+        before,
+        after,
+      });
+      // The approval the edit undid gets its own record, next to the review
+      // that made it
+      if (resetReview) {
+        recordAuditInTransaction(transaction, req, null, {
+          action: "entry.review",
+          targetType: "entry",
+          targetId: entryId,
+          before: getEntryReview(before),
+          after: UNREVIEWED_ENTRY,
+        });
+      }
+      return true;
+    });
+    if (!found) {
+      return res.status(404).json({ error: "Entry not found" });
+    }
+
+    try {
+      if (risk) {
+        await flagRelatedEntries(entryId, risk);
+      }
+    } catch (error) {
+      console.error("Error flagging related entries:", error);
+    }
+
+    res.status(200).json({ id: entryId, message: "Entry updated successfully" });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    } else if (error instanceof EntryEditTokenError) {
+      res.status(401).json({ error: error.message });
+    } else if (
+      error instanceof DuplicateEntryError ||
+      error instanceof WalletProofError
+    ) {
+      res.status(400).json({ error: error.message });
+    } else if (error instanceof UsernameVerificationError) {
+      res
+        .status(error.status === "invalid" ? 400 : 503)
+        .json({ error: error.message, field: error.field });
+    } else {
+      console.error("Error editing entry:", error);
+      res.status(500).json({ error: "Failed to update entry" });
+    }
+  }
+};
+
+// Main Handler
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> {
+  if (!(await rateLimit(req, res, EDIT_RATE_LIMIT))) {
+    return;
+  }
+
+  switch (req.method) {
+    case "PUT":
+      return handleEditEntry(req, res);
+    default:
+      res.setHeader("Allow", ["PUT"]);
+      res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,334 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { firestoreDB } from "@/utils/firebaseAdmin";
+import { requireAdmin } from "@/utils/session";
+import { z } from "zod";
+import { Parser } from "json2csv";
+import ExcelJS from "exceljs";
+import {
+  DocumentData,
+  Query,
+  QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import {
+  EXPORT_FORMATS,
+  EntryExportField,
+  escapeSpreadsheetCell,
+  ExportableEntry,
+  ExportFormat,
+  getEntryExportFields,
+  resolveExportFields,
+} from "@/utils/entryFields";
+import { FormField, getTopicFormFields } from "@/utils/formFields";
+import { assertResponseOpen, ResponseClosedError, writeChunk } from "@/utils/stream";
+import {
+  EntryStatus,
+  EntryStatusSchema,
+  getEntryStatus,
+} from "@/utils/entryStatus";
+import {
+  buildEntriesQuery,
+  EntryFilterError,
+  EntryFiltersSchema,
+  MAX_ENTRY_SELECTION,
+} from "@/utils/entryQuery";
+
+// Constants
+const EXPORT_BATCH_SIZE = 500;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  jsonl: "application/x-ndjson; charset=utf-8",
+};
+
+// Exports are streamed, so lift Next's default 4MB response limit
+export const config = {
+  api: {
+    responseLimit: false,
+  },
+};
+
+// Types
+// Which entries an export covers: a selection, exported in the given order,
+// or every entry matching the list filters (null when none can match)
+type ExportSource =
+  | { ids: string[]; status?: EntryStatus }
+  | { query: Query<DocumentData> | null };
+
+interface TopicData {
+  formFields?: FormField[];
+}
+
+// Validation Schemas
+const ExportOptionsSchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default("csv"),
+  fields: z
+    .string()
+    .optional()
+    .transform((value) =>
+      value
+        ? value
+            .split(",")
+            .map((key) => key.trim())
+            .filter(Boolean)
+        : []
+    ),
+});
+
+const ExportQuerySchema = EntryFiltersSchema.merge(ExportOptionsSchema);
+
+// Selections are posted since their ids don't fit in a query string
+const ExportSelectionSchema = ExportOptionsSchema.extend({
+  status: EntryStatusSchema.optional(),
+  // The topic the selection was made in, whose form sets the columns
+  topicId: z.string().min(1).optional(),
+  ids: z.array(z.string().min(1)).min(1).max(MAX_ENTRY_SELECTION),
+});
+
+// Helper Functions
+/**
+ * The columns an export can have: a topic's own form fields, or the default
+ * form's when exporting across topics
+ */
+const loadExportFields = async (topicId?: string): Promise<EntryExportField[]> => {
+  if (!topicId) {
+    return getEntryExportFields();
+  }
+  const topic = (
+    await firestoreDB.collection("topics").doc(topicId).get()
+  ).data() as TopicData | undefined;
+  return getEntryExportFields(getTopicFormFields(topic));
+};
+
+/**
+ * Read a selection of entries by id, skipping any that were deleted or
+ * don't match the status
+ */
+const forEachSelectedEntryBatch = async (
+  selection: { ids: string[]; status?: EntryStatus },
+  onBatch: (entries: ExportableEntry[]) => Promise<void>
+): Promise<void> => {
+  for (let i = 0; i < selection.ids.length; i += EXPORT_BATCH_SIZE) {
+    const snapshots = await firestoreDB.getAll(
+      ...selection.ids
+        .slice(i, i + EXPORT_BATCH_SIZE)
+        .map((id) => firestoreDB.collection("entries").doc(id))
+    );
+    const entries = snapshots
+      .filter((doc) => doc.exists && !doc.get("topicDeletedAt"))
+      .map((doc) => doc.data() as ExportableEntry)
+      .filter(
+        (entry) => !selection.status || getEntryStatus(entry) === selection.status
+      );
+    // Every entry of a batch may have been skipped, and an empty batch would
+    // write a blank CSV or JSON Lines row
+    if (entries.length > 0) {
+      await onBatch(entries);
+    }
+  }
+};
+
+/**
+ * Read every entry of the source, newest first unless it is a selection,
+ * handing each Firestore batch to the callback before the next is fetched
+ */
+const forEachEntryBatch = async (
+  source: ExportSource,
+  onBatch: (entries: ExportableEntry[]) => Promise<void>
+): Promise<void> => {
+  if ("ids" in source) {
+    return forEachSelectedEntryBatch(source, onBatch);
+  }
+  if (!source.query) {
+    return;
+  }
+
+  const baseQuery = source.query
+    .orderBy("createdAt", "desc")
+    .limit(EXPORT_BATCH_SIZE);
+
+  let lastDoc: QueryDocumentSnapshot<DocumentData> | undefined;
+  while (true) {
+    const batchQuery = lastDoc ? baseQuery.startAfter(lastDoc) : baseQuery;
+    const snapshot = await batchQuery.get();
+    if (snapshot.empty) {
+      return;
+    }
+
+    await onBatch(snapshot.docs.map((doc) => doc.data() as ExportableEntry));
+
+    if (snapshot.size < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+};
+
+const toRecord = (
+  entry: ExportableEntry,
+  fields: EntryExportField[],
+  formatValue: (value: string) => string = (value) => value
+) =>
+  fields.reduce((acc, field) => {
+    acc[field.key] = formatValue(field.value(entry));
+    return acc;
+  }, {} as Record<string, string>);
+
+const streamCSV = async (
+  res: NextApiResponse,
+  source: ExportSource,
+  fields: EntryExportField[]
+) => {
+  const csvFields = fields.map((field) => ({
+    label: field.label,
+    value: field.key,
+  }));
+
+  // Write the header on its own so an empty export is still a valid CSV
+  await writeChunk(res, new Parser({ fields: csvFields }).parse([]));
+
+  await forEachEntryBatch(source, async (entries) => {
+    const parser = new Parser({ fields: csvFields, header: false });
+    // Entries hold participants' own text, which mustn't run as formulas
+    const rows = entries.map((entry) => toRecord(entry, fields, escapeSpreadsheetCell));
+    await writeChunk(res, `\n${parser.parse(rows)}`);
+  });
+};
+
+const streamXLSX = async (
+  res: NextApiResponse,
+  source: ExportSource,
+  fields: EntryExportField[]
+) => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: res,
+    useStyles: false,
+    useSharedStrings: false,
+  });
+  const worksheet = workbook.addWorksheet("Entries");
+  worksheet.columns = fields.map((field) => ({
+    header: field.label,
+    key: field.key,
+    width: 24,
+  }));
+
+  await forEachEntryBatch(source, async (entries) => {
+    // The workbook writes to the response itself, without waiting on it
+    assertResponseOpen(res);
+    // Values are written as string cells, which Excel never runs as formulas
+    entries.forEach((entry) => {
+      worksheet.addRow(toRecord(entry, fields)).commit();
+    });
+  });
+
+  worksheet.commit();
+  await workbook.commit();
+};
+
+const streamJSONL = async (
+  res: NextApiResponse,
+  source: ExportSource,
+  fields: EntryExportField[]
+) => {
+  await forEachEntryBatch(source, async (entries) => {
+    const lines = entries
+      .map((entry) => JSON.stringify(toRecord(entry, fields)))
+      .join("\n");
+    await writeChunk(res, `${lines}\n`);
+  });
+};
+
+// Route Handlers
+const handleExportEntries = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  let options: z.infer<typeof ExportOptionsSchema> & { status?: EntryStatus };
+  let source: ExportSource;
+  let scopeName: string;
+  let fields: EntryExportField[];
+  try {
+    let topicId: string | undefined;
+    if (req.method === "POST") {
+      const selection = ExportSelectionSchema.parse(req.body);
+      options = selection;
+      source = { ids: selection.ids, status: selection.status };
+      scopeName = "selected";
+      topicId = selection.topicId;
+    } else {
+      const query = ExportQuerySchema.parse(req.query);
+      options = query;
+      source = { query: await buildEntriesQuery(query) };
+      scopeName = query.topicId || "all";
+      topicId = query.topicId;
+    }
+    fields = resolveExportFields(options.fields, await loadExportFields(topicId));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    if (error instanceof EntryFilterError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Error preparing entry export:", error);
+    return res.status(500).json({ error: "Failed to export entries" });
+  }
+
+  if (fields.length === 0) {
+    return res.status(400).json({ error: "No valid export fields selected" });
+  }
+
+  const filename = `entries-${scopeName}${
+    options.status ? `-${options.status}` : ""
+  }.${options.format}`;
+  res.setHeader("Content-Type", CONTENT_TYPES[options.format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.setHeader("Cache-Control", "no-store");
+  res.status(200);
+
+  try {
+    switch (options.format) {
+      case "csv":
+        await streamCSV(res, source, fields);
+        break;
+      case "xlsx":
+        await streamXLSX(res, source, fields);
+        break;
+      case "jsonl":
+        await streamJSONL(res, source, fields);
+        break;
+    }
+    res.end();
+  } catch (error) {
+    // A client that went away needs no error; the query has already stopped
+    if (error instanceof ResponseClosedError) {
+      return;
+    }
+    // Headers are already sent, so the only signal left is a truncated body
+    console.error("Error exporting entries:", error);
+    res.destroy(error instanceof Error ? error : undefined);
+  }
+};
+
+// Main Handler
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> {
+  const admin = await requireAdmin(req, res);
+  if (!admin) {
+    return;
+  }
+
+  switch (req.method) {
+    case "GET":
+    case "POST":
+      return handleExportEntries(req, res);
+    default:
+      res.setHeader("Allow", ["GET", "POST"]);
+      res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
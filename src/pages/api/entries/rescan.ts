@@ -0,0 +1,66 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { firestoreDB } from "@/utils/firebaseAdmin";
+import { requireAdmin } from "@/utils/session";
+import { isRiskScoringEnabled, rescanTopicRisk } from "@/utils/riskScoring";
+
+// Validation Schema
+const RescanSchema = z.object({
+  topicId: z.string().min(1, "Topic ID is required"),
+});
+
+// Route Handlers
+/**
+ * Re-score every entry in a topic against the others, so clusters that
+ * built up over time, or entries from before scoring, are flagged
+ */
+const handleRescan = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  try {
+    const { topicId } = RescanSchema.parse(req.body);
+
+    const topicDoc = await firestoreDB.collection("topics").doc(topicId).get();
+    if (!topicDoc.exists) {
+      return res.status(404).json({ error: "Topic not found" });
+    }
+
+    if (!isRiskScoringEnabled()) {
+      return res.status(400).json({
+        error: "Risk scoring is off until RISK_FINGERPRINT_SECRET is set",
+      });
+    }
+
+    const result = await rescanTopicRisk(topicId);
+    res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    console.error("Error re-scanning entries:", error);
+    res.status(500).json({ error: "Failed to re-scan entries" });
+  }
+};
+
+// Main Handler
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> {
+  const admin = await requireAdmin(req, res, "editor");
+  if (!admin) {
+    return;
+  }
+
+  switch (req.method) {
+    case "POST":
+      return handleRescan(req, res);
+    default:
+      res.setHeader("Allow", ["POST"]);
+      res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
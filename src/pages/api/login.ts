@@ -1,11 +1,40 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { signToken, verifyPassword } from '@/utils/auth';
+import {
+  ADMIN_EMAIL_DOMAIN,
+  AdminAccessError,
+  createFirebaseSession,
+  isAdminEmail,
+  isPasswordLoginEnabled,
+  setSessionCookie,
+  signInWithFirebasePassword,
+  verifyAdminIdToken,
+} from '@/utils/session';
+import {
+  clearLoginFailures,
+  getLockoutRemaining,
+  recordLoginFailure,
+  sendLockedOut,
+} from '@/utils/loginLockout';
+import {
+  createLoginChallenge,
+  deleteLoginChallenge,
+  getLoginAccount,
+  getLoginChallenge,
+  getTwoFactor,
+  PendingLogin,
+  verifySecondFactor,
+} from '@/utils/twoFactor';
+import { rateLimit, RateLimitRule } from '@/utils/rateLimit';
 import { z } from 'zod';
 
 // Types
 interface LoginResponse {
   message: string;
   error?: string;
+  // Set when the account needs a code before a session is issued
+  twoFactorRequired?: boolean;
+  challengeId?: string;
 }
 
 interface LoginCredentials {
@@ -14,15 +43,39 @@ interface LoginCredentials {
 }
 
 // Constants
-const COOKIE_MAX_AGE = 3600; // 1 hour in seconds
-const COOKIE_PATH = '/';
+// Sign-in attempts allowed per IP, successful or not
+const LOGIN_RATE_LIMIT: RateLimitRule = {
+  name: 'login',
+  limit: 10,
+  windowMs: 15 * 60 * 1000,
+};
 
 // Validation Schema
-const LoginSchema = z.object({
+// Admins sign in with their Firebase email and password, checked here so
+// every attempt counts toward the lockout; ID tokens obtained elsewhere
+// aren't accepted. The username/password login is an optional fallback.
+// Accounts with two-factor enabled finish with a code.
+const EmailLoginSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Invalid email address'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+const PasswordLoginSchema = z.object({
   username: z.string().min(1, 'Username is required'),
   password: z.string().min(1, 'Password is required'),
 });
 
+const TwoFactorLoginSchema = z.object({
+  challengeId: z.string().min(1, 'Challenge is required'),
+  code: z.string().trim().min(1, 'Code is required'),
+});
+
+const LoginSchema = z.union([
+  EmailLoginSchema,
+  PasswordLoginSchema,
+  TwoFactorLoginSchema,
+]);
+
 // Helper Functions
 const validateCredentials = (credentials: LoginCredentials): boolean => {
   // Get the stored password hash from environment variable
@@ -39,19 +92,144 @@ const validateCredentials = (credentials: LoginCredentials): boolean => {
   );
 };
 
-const setAuthCookie = (res: NextApiResponse, token: string): void => {
-  const cookieOptions = [
-    `token=${token}`,
-    `Path=${COOKIE_PATH}`,
-    `Max-Age=${COOKIE_MAX_AGE}`,
-    'HttpOnly',
-  ];
-  
-  if (process.env.NODE_ENV === 'production') {
-    cookieOptions.push('Secure');
-  }
-  
-  res.setHeader('Set-Cookie', cookieOptions.join('; '));
+const sendInvalidCredentials = async (
+  res: NextApiResponse<LoginResponse>,
+  account: string,
+  error: string
+) => {
+  const lockoutMs = await recordLoginFailure(account);
+  if (lockoutMs) {
+    return sendLockedOut(res, lockoutMs);
+  }
+  res.status(401).json({ message: 'Login failed', error });
+};
+
+/**
+ * Issue the session cookie for a sign-in that has passed every check
+ */
+const startSession = async (
+  res: NextApiResponse<LoginResponse>,
+  login: PendingLogin
+) => {
+  if (login.method === 'firebase') {
+    setSessionCookie(res, await createFirebaseSession(login.idToken));
+  } else {
+    setSessionCookie(res, signToken({ username: login.username }));
+  }
+  await clearLoginFailures(login.account);
+  res.status(200).json({ message: 'Login successful' });
+};
+
+/**
+ * Start a session, or hold the sign-in for a code when the account has
+ * two-factor enabled
+ */
+const completeFirstFactor = async (
+  res: NextApiResponse<LoginResponse>,
+  login: PendingLogin
+) => {
+  // Unverified or role-less accounts are turned away before the code step
+  if (login.method === 'firebase') {
+    await verifyAdminIdToken(login.idToken);
+  }
+
+  const twoFactor = await getTwoFactor(login.account);
+  if (!twoFactor?.enabled) {
+    return startSession(res, login);
+  }
+
+  const challengeId = await createLoginChallenge(login);
+  res.status(200).json({
+    message: 'Two-factor code required',
+    twoFactorRequired: true,
+    challengeId,
+  });
+};
+
+// Route Handlers
+const handleEmailLogin = async (
+  res: NextApiResponse<LoginResponse>,
+  body: z.infer<typeof EmailLoginSchema>
+) => {
+  if (!isAdminEmail(body.email)) {
+    res.status(403).json({
+      message: 'Login failed',
+      error: `Only @${ADMIN_EMAIL_DOMAIN} accounts can sign in`,
+    });
+    return;
+  }
+
+  const account = getLoginAccount('firebase', body.email);
+  const lockoutMs = await getLockoutRemaining(account);
+  if (lockoutMs) {
+    return sendLockedOut(res, lockoutMs);
+  }
+
+  const idToken = await signInWithFirebasePassword(body.email, body.password);
+  if (!idToken) {
+    return sendInvalidCredentials(res, account, 'Invalid email or password');
+  }
+
+  await completeFirstFactor(res, { account, method: 'firebase', idToken });
+};
+
+const handlePasswordLogin = async (
+  res: NextApiResponse<LoginResponse>,
+  body: z.infer<typeof PasswordLoginSchema>
+) => {
+  if (!isPasswordLoginEnabled()) {
+    res.status(403).json({
+      message: 'Login failed',
+      error: 'Username login is not enabled',
+    });
+    return;
+  }
+
+  const account = getLoginAccount('password', body.username);
+  const lockoutMs = await getLockoutRemaining(account);
+  if (lockoutMs) {
+    return sendLockedOut(res, lockoutMs);
+  }
+
+  // Check credentials
+  if (!validateCredentials(body)) {
+    return sendInvalidCredentials(res, account, 'Invalid credentials');
+  }
+
+  await completeFirstFactor(res, {
+    account,
+    method: 'password',
+    username: body.username,
+  });
+};
+
+const handleTwoFactorLogin = async (
+  res: NextApiResponse<LoginResponse>,
+  body: z.infer<typeof TwoFactorLoginSchema>
+) => {
+  const challenge = await getLoginChallenge(body.challengeId);
+  if (!challenge) {
+    res.status(401).json({
+      message: 'Login failed',
+      error: 'Your sign-in has expired. Please sign in again.',
+    });
+    return;
+  }
+
+  // Wrong codes count toward the same lockout as wrong passwords
+  const lockoutMs = await getLockoutRemaining(challenge.account);
+  if (lockoutMs) {
+    await deleteLoginChallenge(body.challengeId);
+    return sendLockedOut(res, lockoutMs);
+  }
+
+  if (!(await verifySecondFactor(challenge.account, body.code))) {
+    return sendInvalidCredentials(res, challenge.account, 'Invalid code');
+  }
+
+  await deleteLoginChallenge(body.challengeId);
+  const { expiresAt, ...login } = challenge;
+  await startSession(res, login);
 };
 
 // Main Handler
@@ -65,37 +243,38 @@ export default async function handler(
     return;
   }
 
+  if (!(await rateLimit(req, res, LOGIN_RATE_LIMIT))) {
+    return;
+  }
+
   try {
     // Validate request body
-    const credentials = LoginSchema.parse(req.body);
+    const body = LoginSchema.parse(req.body);
 
-    // Check credentials
-    if (!validateCredentials(credentials)) {
-      res.status(401).json({ 
-        message: 'Login failed',
-        error: 'Invalid credentials' 
-      });
-      return;
+    if ('challengeId' in body) {
+      return await handleTwoFactorLogin(res, body);
     }
-
-    // Create and set JWT token
-    const token = signToken({ username: credentials.username });
-    setAuthCookie(res, token);
-
-    res.status(200).json({ message: 'Login successful' });
+    if ('email' in body) {
+      return await handleEmailLogin(res, body);
+    }
+    return await handlePasswordLogin(res, body);
   } catch (error) {
     if (error instanceof z.ZodError) {
-      res.status(400).json({ 
+      res.status(400).json({
         message: 'Login failed',
-        error: 'Invalid request format' 
+        error: 'Invalid request format'
       });
       return;
     }
-    
+    if (error instanceof AdminAccessError) {
+      res.status(403).json({ message: 'Login failed', error: error.message });
+      return;
+    }
+
     console.error('Login error:', error);
-    res.status(500).json({ 
+    res.status(500).json({
       message: 'Login failed',
-      error: 'Internal server error' 
+      error: 'Internal server error'
     });
   }
 }
@@ -1,4 +1,5 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { clearSessionCookie } from '@/utils/session';
 
 interface LogoutResponse {
   message: string;
@@ -10,19 +11,8 @@ export default function handler(
   res: NextApiResponse<LogoutResponse>
 ) {
   try {
-    // Clear the token cookie
-    const cookieOptions = [
-      'token=',
-      'Path=/',
-      'Expires=Thu, 01 Jan 1970 00:00:00 GMT',
-      'HttpOnly',
-    ];
-    
-    if (process.env.NODE_ENV === 'production') {
-      cookieOptions.push('Secure');
-    }
-    
-    res.setHeader('Set-Cookie', cookieOptions.join('; '));
+    // Clear the session cookie
+    clearSessionCookie(res);
     
     res.status(200).json({ message: 'Logged out successfully' });
   } catch (error) {
@@ -0,0 +1,52 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { requireAdmin } from "@/utils/session";
+import { getStatsReport, StatsQuerySchema } from "@/utils/entryStats";
+
+// Route Handlers
+/**
+ * Submission counts per topic and over time, read from the counters kept
+ * as entries are written rather than by scanning entries
+ */
+const handleGetStats = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  try {
+    const query = StatsQuerySchema.parse(req.query);
+    const report = await getStatsReport(query);
+    if (!report) {
+      return res.status(404).json({ error: "Topic not found" });
+    }
+
+    res.status(200).json(report);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    console.error("Error fetching stats:", error);
+    res.status(500).json({ error: "Failed to fetch stats" });
+  }
+};
+
+// Main Handler
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> {
+  const admin = await requireAdmin(req, res, "viewer");
+  if (!admin) {
+    return;
+  }
+
+  switch (req.method) {
+    case "GET":
+      return handleGetStats(req, res);
+    default:
+      res.setHeader("Allow", ["GET"]);
+      res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,89 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { Parser } from "json2csv";
+import { requireAdmin } from "@/utils/session";
+import { getStatsReport, StatsQuerySchema } from "@/utils/entryStats";
+import {
+  STATS_EXPORT_FORMATS,
+  StatsExportFormat,
+  toSeriesRows,
+} from "@/utils/statsReport";
+
+// Constants
+const CONTENT_TYPES: Record<StatsExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+const CSV_FIELDS = [
+  { label: "Bucket", value: "bucket" },
+  { label: "Topic ID", value: "topicId" },
+  { label: "Topic", value: "topicName" },
+  { label: "Submissions", value: "submissions" },
+];
+
+// Validation Schema
+const ExportFormatSchema = z.object({
+  format: z.enum(STATS_EXPORT_FORMATS).default("csv"),
+});
+
+// Route Handlers
+/**
+ * Download the raw submission series behind the analytics charts, one row
+ * per topic and bucket
+ */
+const handleExportStats = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  try {
+    const { format } = ExportFormatSchema.parse(req.query);
+    const query = StatsQuerySchema.parse(req.query);
+    const report = await getStatsReport(query);
+    if (!report) {
+      return res.status(404).json({ error: "Topic not found" });
+    }
+
+    const rows = toSeriesRows(report);
+    const body =
+      format === "csv"
+        ? new Parser({ fields: CSV_FIELDS }).parse(rows)
+        : JSON.stringify(rows);
+
+    res.setHeader("Content-Type", CONTENT_TYPES[format]);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="stats-${report.granularity}-${report.from}-${report.to}.${format}"`
+    );
+    res.setHeader("Cache-Control", "no-store");
+    res.status(200).send(body);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    console.error("Error exporting stats:", error);
+    res.status(500).json({ error: "Failed to export stats" });
+  }
+};
+
+// Main Handler
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> {
+  const admin = await requireAdmin(req, res, "viewer");
+  if (!admin) {
+    return;
+  }
+
+  switch (req.method) {
+    case "GET":
+      return handleExportStats(req, res);
+    default:
+      res.setHeader("Allow", ["GET"]);
+      res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,136 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { firestoreDB } from "@/utils/firebaseAdmin";
+import { rateLimit, RateLimitRule } from "@/utils/rateLimit";
+import { canonicalizeEmail, CanonicalFields } from "@/utils/canonical";
+import {
+  EntryStatus,
+  getParticipantStatus,
+  ParticipantEntryStatus,
+} from "@/utils/entryStatus";
+import { ReceiptCodeSchema } from "@/utils/receiptCode";
+
+// Constants
+// Lookups allowed per IP; low, since each one is a guess at a code and email
+const STATUS_RATE_LIMIT: RateLimitRule = {
+  name: "status",
+  limit: 10,
+  windowMs: 10 * 60 * 1000,
+};
+
+// Characters of a wallet kept visible at each end
+const WALLET_VISIBLE_START = 6;
+const WALLET_VISIBLE_END = 4;
+
+// The same answer for an unknown code and a wrong email, so neither can be
+// confirmed on its own
+const NOT_FOUND_MESSAGE =
+  "No entry matches that receipt code and email. Check both and try again.";
+
+// Types
+interface EntryData {
+  topicName: string;
+  email?: string;
+  walletAddress?: string;
+  canonical?: CanonicalFields;
+  status?: EntryStatus;
+  topicDeletedAt?: number | null;
+  createdAt: number;
+  updatedAt?: number;
+}
+
+// Everything a lookup returns; never the participant's own details
+interface EntryStatusResponse {
+  receiptCode: string;
+  topicName: string;
+  createdAt: number;
+  updatedAt: number | null;
+  wallet: string | null;
+  status: ParticipantEntryStatus;
+}
+
+// Validation Schema
+// POST, so the email stays out of URLs and access logs
+const StatusLookupSchema = z.object({
+  receiptCode: ReceiptCodeSchema,
+  email: z.string().trim().email("Enter the email you submitted with"),
+});
+
+// Helper Functions
+const maskWallet = (address: string): string =>
+  address.length <= WALLET_VISIBLE_START + WALLET_VISIBLE_END
+    ? address
+    : `${address.slice(0, WALLET_VISIBLE_START)}…${address.slice(-WALLET_VISIBLE_END)}`;
+
+const getEntryEmail = (entry: EntryData): string | null =>
+  entry.canonical?.email || (entry.email ? canonicalizeEmail(entry.email) : null);
+
+// Route Handlers
+/**
+ * Look up an entry by its receipt code, for the participant holding both the
+ * code and the email it was submitted with
+ */
+const handleLookupStatus = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  try {
+    const { receiptCode, email } = StatusLookupSchema.parse(req.body);
+
+    // New codes are unique, but entries from before codes were claimed may
+    // share one, so the email picks between them
+    const snapshot = await firestoreDB
+      .collection("entries")
+      .where("receiptCode", "==", receiptCode)
+      .get();
+    const entry = snapshot.docs
+      .map((doc) => doc.data() as EntryData)
+      .find(
+        (candidate) =>
+          !candidate.topicDeletedAt &&
+          getEntryEmail(candidate) === canonicalizeEmail(email)
+      );
+    if (!entry) {
+      return res.status(404).json({ error: NOT_FOUND_MESSAGE });
+    }
+
+    const wallet = entry.canonical?.walletAddress || entry.walletAddress;
+    const response: EntryStatusResponse = {
+      receiptCode,
+      topicName: entry.topicName,
+      createdAt: entry.createdAt,
+      updatedAt: entry.updatedAt ?? null,
+      wallet: wallet ? maskWallet(wallet) : null,
+      status: getParticipantStatus(entry),
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    } else {
+      console.error("Error looking up entry status:", error);
+      res.status(500).json({ error: "Failed to look up entry" });
+    }
+  }
+};
+
+// Main Handler
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> {
+  if (!(await rateLimit(req, res, STATUS_RATE_LIMIT))) {
+    return;
+  }
+
+  switch (req.method) {
+    case "POST":
+      return handleLookupStatus(req, res);
+    default:
+      res.setHeader("Allow", ["POST"]);
+      res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
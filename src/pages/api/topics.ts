@@ -1,12 +1,36 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { firestoreDB } from "@/utils/firebaseAdmin";
-import { verifyToken } from "@/utils/auth";
+import { AdminSession, requireAdmin } from "@/utils/session";
+import { recordAudit } from "@/utils/auditLog";
+import { AdminRole } from "@/utils/roles";
 import { z } from "zod";
 import {
-  CollectionReference,
   DocumentData,
   Query,
+  UpdateData,
 } from "firebase-admin/firestore";
+import {
+  getPaginationParams,
+  paginateDocs,
+  paginateQuery,
+  PageResult,
+  PaginationParams,
+  PaginationResponse,
+  sortDocs,
+} from "@/utils/pagination";
+import { getSortParams, SortParams, TOPIC_SORT_FIELDS } from "@/utils/sorting";
+import { isTopicOpen } from "@/utils/topicSchedule";
+import { deleteTopicStats } from "@/utils/entryStats";
+import { deleteAllowlist } from "@/utils/allowlists";
+import { deleteTopicDraws } from "@/utils/draws";
+import { getTopicUniqueKeysQuery } from "@/utils/uniqueKeys";
+import {
+  DEFAULT_FORM_FIELDS,
+  FormField,
+  FormFieldsSchema,
+  getTopicFormFields,
+  getWalletField,
+} from "@/utils/formFields";
 
 // Types
 interface Topic {
@@ -14,17 +38,17 @@ interface Topic {
   name: string;
   description: string;
   isActive: boolean;
+  opensAt?: number | null;
+  closesAt?: number | null;
+  formFields?: FormField[];
+  requireWalletSignature?: boolean;
+  deletedAt?: number | null;
   createdAt: number;
 }
 
 interface TopicResponse {
   topics: Topic[];
-  pagination: {
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-  };
+  pagination: PaginationResponse;
 }
 
 interface TopicError {
@@ -33,35 +57,169 @@ interface TopicError {
 }
 
 // Constants
-const DEFAULT_PAGE_SIZE = 10;
-const MAX_PAGE_SIZE = 100;
+const BATCH_SIZE = 500;
 
 // Validation Schemas
-const CreateTopicSchema = z.object({
-  name: z
-    .string()
-    .min(1, "Topic name is required")
-    .max(100, "Topic name is too long"),
-  description: z
-    .string()
-    .min(1, "Description is required")
-    .max(500, "Description is too long"),
-});
+const TopicNameSchema = z
+  .string()
+  .min(1, "Topic name is required")
+  .max(100, "Topic name is too long");
+
+const TopicDescriptionSchema = z
+  .string()
+  .min(1, "Description is required")
+  .max(500, "Description is too long");
+
+// Schedule timestamps are milliseconds since epoch; null clears them
+const TopicTimestampSchema = z
+  .number()
+  .int("Timestamp must be an integer")
+  .nonnegative("Timestamp must be positive")
+  .nullable();
+
+const hasValidWindow = (topic: {
+  opensAt?: number | null;
+  closesAt?: number | null;
+}) => !topic.opensAt || !topic.closesAt || topic.opensAt < topic.closesAt;
+
+// A wallet signature needs an address field to prove ownership of
+const hasWalletFieldIfRequired = (topic: {
+  formFields?: FormField[];
+  requireWalletSignature?: boolean;
+}) => !topic.requireWalletSignature || !!getWalletField(getTopicFormFields(topic));
+
+const WALLET_FIELD_REQUIRED_MESSAGE =
+  "Requiring a wallet signature needs an EVM address field in the form";
+
+const CreateTopicSchema = z
+  .object({
+    name: TopicNameSchema,
+    description: TopicDescriptionSchema,
+    opensAt: TopicTimestampSchema.optional(),
+    closesAt: TopicTimestampSchema.optional(),
+    formFields: FormFieldsSchema.optional(),
+    requireWalletSignature: z.boolean().optional(),
+  })
+  .refine(hasValidWindow, {
+    message: "Closing time must be after opening time",
+    path: ["closesAt"],
+  })
+  .refine(hasWalletFieldIfRequired, {
+    message: WALLET_FIELD_REQUIRED_MESSAGE,
+    path: ["requireWalletSignature"],
+  });
 
-const UpdateTopicSchema = z.object({
+const UpdateTopicSchema = z
+  .object({
+    id: z.string().min(1, "Topic ID is required"),
+    isActive: z.boolean().optional(),
+    name: TopicNameSchema.optional(),
+    description: TopicDescriptionSchema.optional(),
+    opensAt: TopicTimestampSchema.optional(),
+    closesAt: TopicTimestampSchema.optional(),
+    formFields: FormFieldsSchema.optional(),
+    requireWalletSignature: z.boolean().optional(),
+    // Sending null restores a topic from the trash
+    deletedAt: z.null().optional(),
+  })
+  .refine(({ id, ...updates }) => Object.keys(updates).length > 0, {
+    message: "At least one field to update is required",
+  });
+
+const DeleteTopicSchema = z.object({
   id: z.string().min(1, "Topic ID is required"),
-  isActive: z.boolean(),
+  // Purging permanently removes a topic that is already in the trash
+  purge: z.boolean().optional(),
 });
 
 // Helper Functions
-const getPaginationParams = (query: NextApiRequest["query"]) => {
-  const page = Math.max(1, parseInt(query.page as string) || 1);
-  const limit = Math.min(
-    MAX_PAGE_SIZE,
-    Math.max(1, parseInt(query.limit as string) || DEFAULT_PAGE_SIZE)
+/**
+ * Topics matching a filter that can't be combined with the sort in one
+ * Firestore query (the schedule window, the trash's inequality). The base
+ * query narrows them to a small set, which is filtered, sorted and
+ * paginated in memory.
+ */
+const getFilteredTopicsPage = async (
+  baseQuery: Query<DocumentData>,
+  predicate: (topic: Topic) => boolean,
+  paginationParams: PaginationParams,
+  sort: SortParams
+): Promise<PageResult & { total: number }> => {
+  const snapshot = await baseQuery.get();
+
+  const docs = sortDocs(
+    snapshot.docs.filter((doc) => predicate(doc.data() as Topic)),
+    sort
   );
-  const offset = (page - 1) * limit;
-  return { page, limit, offset };
+
+  return {
+    ...paginateDocs(docs, paginationParams, sort),
+    total: docs.length,
+  };
+};
+
+// Entries keep a copy of their topic's name and trash state, so changes to
+// either are fanned out
+const updateTopicEntries = async (
+  topicId: string,
+  fields: UpdateData<DocumentData>
+) => {
+  const snapshot = await firestoreDB
+    .collection("entries")
+    .where("topicId", "==", topicId)
+    .select()
+    .get();
+
+  for (let i = 0; i < snapshot.docs.length; i += BATCH_SIZE) {
+    const batch = firestoreDB.batch();
+    snapshot.docs.slice(i, i + BATCH_SIZE).forEach((doc) => {
+      batch.update(doc.ref, fields);
+    });
+    await batch.commit();
+  }
+};
+
+const deleteInBatches = async (query: Query<DocumentData>) => {
+  while (true) {
+    const snapshot = await query.select().limit(BATCH_SIZE).get();
+    if (snapshot.empty) {
+      return;
+    }
+    const batch = firestoreDB.batch();
+    snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+    await batch.commit();
+  }
+};
+
+/**
+ * Permanently delete a topic with its entries, their unique keys, its stats
+ * counters, its allowlist and its draws. The topic document goes last, so a
+ * purge that fails part way can be retried.
+ */
+const purgeTopic = async (topicId: string) => {
+  await deleteInBatches(
+    firestoreDB.collection("entries").where("topicId", "==", topicId)
+  );
+  await deleteInBatches(getTopicUniqueKeysQuery(topicId));
+  await deleteTopicStats(topicId);
+  await deleteAllowlist(topicId);
+  await deleteTopicDraws(topicId);
+  await firestoreDB.collection("topics").doc(topicId).delete();
+};
+
+/**
+ * The least privileged role allowed to make a request, or null for the
+ * public topic listings
+ */
+const getRequiredRole = (req: NextApiRequest): AdminRole | null => {
+  if (req.method === "GET") {
+    return req.query.type === "trash" ? "viewer" : null;
+  }
+  // Purging can't be undone, so it is kept to owners
+  if (req.method === "DELETE" && req.body?.purge === true) {
+    return "owner";
+  }
+  return "editor";
 };
 
 // Route Handlers
@@ -70,31 +228,47 @@ const handleGetTopics = async (
   res: NextApiResponse<TopicResponse | TopicError>
 ) => {
   try {
-    const { page, limit, offset } = getPaginationParams(req.query);
+    const sort = getSortParams(req.query, TOPIC_SORT_FIELDS);
+    if (!sort) {
+      return res.status(400).json({ error: "Invalid sort" });
+    }
+    const paginationParams = getPaginationParams(req.query, sort);
+    if (!paginationParams) {
+      return res.status(400).json({ error: "Invalid cursor" });
+    }
+    const { page, limit } = paginationParams;
     const { type } = req.query;
 
-    // Build base query
-    let baseQuery: CollectionReference<DocumentData> | Query<DocumentData> =
-      firestoreDB.collection("topics");
+    const topicsCollection = firestoreDB.collection("topics");
+    const now = Date.now();
+    let pageResult: PageResult & { total: number };
 
-    // Conditionally filter by 'isActive'
     if (type === "active") {
-      baseQuery = baseQuery.where("isActive", "==", true);
+      // Only switched-on topics (a small set) can be open
+      pageResult = await getFilteredTopicsPage(
+        topicsCollection.where("isActive", "==", true),
+        (topic) => isTopicOpen(topic, now),
+        paginationParams,
+        sort
+      );
+    } else if (type === "trash") {
+      pageResult = await getFilteredTopicsPage(
+        topicsCollection.where("deletedAt", "!=", null),
+        (topic) => !!topic.deletedAt,
+        paginationParams,
+        sort
+      );
+    } else {
+      const topicsQuery = topicsCollection.where("deletedAt", "==", null);
+      const [topicsPage, totalSnapshot] = await Promise.all([
+        paginateQuery(topicsQuery, paginationParams, sort),
+        topicsQuery.count().get(),
+      ]);
+      pageResult = { ...topicsPage, total: totalSnapshot.data().count };
     }
+    const { docs, nextCursor, total } = pageResult;
 
-    // Get total count *after* applying filter
-    const totalSnapshot = await baseQuery.count().get();
-    const total = totalSnapshot.data().count;
-
-    // Add sort and pagination
-    let paginatedQuery = baseQuery
-      .orderBy("createdAt", "desc")
-      .limit(limit)
-      .offset(offset);
-
-    const snapshot = await paginatedQuery.get();
-
-    const topics = snapshot.docs.map(
+    const topics = docs.map(
       (doc) =>
         ({
           id: doc.id,
@@ -109,6 +283,7 @@ const handleGetTopics = async (
         page,
         limit,
         totalPages: Math.ceil(total / limit),
+        nextCursor,
       },
     });
   } catch (error) {
@@ -117,17 +292,34 @@ const handleGetTopics = async (
   }
 };
 
-const handleCreateTopic = async (req: NextApiRequest, res: NextApiResponse) => {
+const handleCreateTopic = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  admin: AdminSession | null
+) => {
   try {
     const validatedData = CreateTopicSchema.parse(req.body);
 
+    // New topics get their own copy of the default form unless one is given
+    // Unscheduled topics store null, so sorting by a schedule field keeps them
     const newTopic = {
       ...validatedData,
+      opensAt: validatedData.opensAt ?? null,
+      closesAt: validatedData.closesAt ?? null,
+      formFields: validatedData.formFields || DEFAULT_FORM_FIELDS,
+      requireWalletSignature: validatedData.requireWalletSignature || false,
       isActive: true,
+      deletedAt: null,
       createdAt: Date.now(),
     };
 
     const docRef = await firestoreDB.collection("topics").add(newTopic);
+    await recordAudit(req, admin, {
+      action: "topic.create",
+      targetType: "topic",
+      targetId: docRef.id,
+      after: newTopic,
+    });
     res.status(201).json({ id: docRef.id, ...newTopic });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -141,14 +333,62 @@ const handleCreateTopic = async (req: NextApiRequest, res: NextApiResponse) => {
   }
 };
 
-const handleUpdateTopic = async (req: NextApiRequest, res: NextApiResponse) => {
+const handleUpdateTopic = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  admin: AdminSession | null
+) => {
   try {
-    const validatedData = UpdateTopicSchema.parse(req.body);
+    const { id, ...updates } = UpdateTopicSchema.parse(req.body);
+
+    const topicRef = firestoreDB.collection("topics").doc(id);
+    const topicDoc = await topicRef.get();
+    if (!topicDoc.exists) {
+      return res.status(404).json({ error: "Topic not found" });
+    }
+
+    const currentTopic = topicDoc.data() as Topic;
+    const isRestore = updates.deletedAt === null;
+    if (currentTopic.deletedAt && !isRestore) {
+      return res.status(400).json({
+        error: "Restore the topic before editing it",
+      });
+    }
+
+    const updatedTopic = { ...currentTopic, ...updates };
+
+    // Only one end of the window may be sent, so check it against the stored one
+    if (!hasValidWindow(updatedTopic)) {
+      return res.status(400).json({
+        error: "Closing time must be after opening time",
+      });
+    }
+    if (!hasWalletFieldIfRequired(updatedTopic)) {
+      return res.status(400).json({ error: WALLET_FIELD_REQUIRED_MESSAGE });
+    }
+
+    await topicRef.update(updates);
+
+    if (updates.name !== undefined && updates.name !== currentTopic.name) {
+      await updateTopicEntries(id, { topicName: updates.name });
+    }
+    if (isRestore && currentTopic.deletedAt) {
+      await updateTopicEntries(id, { topicDeletedAt: null });
+    }
+
+    await recordAudit(req, admin, {
+      action:
+        isRestore && currentTopic.deletedAt ? "topic.restore" : "topic.update",
+      targetType: "topic",
+      targetId: id,
+      before: currentTopic,
+      after: updatedTopic,
+    });
 
-    await firestoreDB.collection("topics").doc(validatedData.id).update({
-      isActive: validatedData.isActive,
+    res.status(200).json({
+      message: "Topic updated",
+      topic: { ...updatedTopic, id },
     });
-    res.status(200).json({ message: "Topic status updated" });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({
@@ -161,15 +401,58 @@ const handleUpdateTopic = async (req: NextApiRequest, res: NextApiResponse) => {
   }
 };
 
-const handleDeleteTopic = async (req: NextApiRequest, res: NextApiResponse) => {
+const handleDeleteTopic = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  admin: AdminSession | null
+) => {
   try {
-    const { id } = req.body;
-    if (!id) {
-      return res.status(400).json({ error: "Topic ID is required" });
+    const { id, purge } = DeleteTopicSchema.parse(req.body);
+
+    const topicRef = firestoreDB.collection("topics").doc(id);
+    const topicDoc = await topicRef.get();
+    if (!topicDoc.exists) {
+      return res.status(404).json({ error: "Topic not found" });
     }
-    await firestoreDB.collection("topics").doc(id).delete();
-    res.status(200).json({ message: "Topic deleted successfully" });
+    const topic = topicDoc.data() as Topic;
+
+    if (purge) {
+      if (!topic.deletedAt) {
+        return res.status(400).json({
+          error: "Only topics in the trash can be purged",
+        });
+      }
+      await purgeTopic(id);
+      await recordAudit(req, admin, {
+        action: "topic.purge",
+        targetType: "topic",
+        targetId: id,
+        before: topic,
+      });
+      return res.status(200).json({ message: "Topic purged successfully" });
+    }
+
+    // Deleting moves the topic, and its entries with it, to the trash
+    if (!topic.deletedAt) {
+      const deletedAt = Date.now();
+      await topicRef.update({ deletedAt });
+      await updateTopicEntries(id, { topicDeletedAt: deletedAt });
+      await recordAudit(req, admin, {
+        action: "topic.delete",
+        targetType: "topic",
+        targetId: id,
+        before: topic,
+        after: { ...topic, deletedAt },
+      });
+    }
+    res.status(200).json({ message: "Topic moved to trash" });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
     console.error("Error deleting topic:", error);
     res.status(500).json({ error: "Failed to delete topic" });
   }
@@ -180,19 +463,13 @@ export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
 ) {
-  // Only verify token for admin operations
-  if (req.method !== "GET") {
-    const cookies = req.headers.cookie?.split(";").reduce((acc, cookie) => {
-      const [key, value] = cookie.trim().split("=");
-      acc[key] = value;
-      return acc;
-    }, {} as Record<string, string>);
-
-    const token = cookies?.token;
-    const admin = verifyToken(token || "");
-
+  // Only require a session for admin operations
+  let admin: AdminSession | null = null;
+  const requiredRole = getRequiredRole(req);
+  if (requiredRole) {
+    admin = await requireAdmin(req, res, requiredRole);
     if (!admin) {
-      return res.status(401).json({ error: "Unauthorized" });
+      return;
     }
   }
 
@@ -200,11 +477,11 @@ export default async function handler(
     case "GET":
       return handleGetTopics(req, res);
     case "POST":
-      return handleCreateTopic(req, res);
+      return handleCreateTopic(req, res, admin);
     case "PATCH":
-      return handleUpdateTopic(req, res);
+      return handleUpdateTopic(req, res, admin);
     case "DELETE":
-      return handleDeleteTopic(req, res);
+      return handleDeleteTopic(req, res, admin);
     default:
       res.setHeader("Allow", ["GET", "POST", "PATCH", "DELETE"]);
       res.status(405).end(`Method ${req.method} Not Allowed`);
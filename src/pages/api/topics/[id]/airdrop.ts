@@ -0,0 +1,189 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { firestoreDB } from "@/utils/firebaseAdmin";
+import { requireAdmin } from "@/utils/session";
+import { FormField, getTopicFormFields, getWalletField } from "@/utils/formFields";
+import { DrawData, DRAWS_COLLECTION } from "@/utils/draws";
+import {
+  buildDistribution,
+  DISTRIBUTION_FILE_TYPES,
+  DistributionRecipient,
+  DistributionRequestSchema,
+  formatDistribution,
+} from "@/utils/airdrop";
+
+// Constants
+// Uploaded weights can run to tens of thousands of rows
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: "5mb",
+    },
+  },
+};
+
+// Types
+interface TopicData {
+  name: string;
+  formFields?: FormField[];
+  deletedAt?: number | null;
+}
+
+// Validation Schemas
+const AirdropQuerySchema = z.object({
+  id: z.string().min(1, "Topic ID is required"),
+});
+
+// Helper Functions
+/**
+ * A topic's entries with their wallets, oldest first
+ */
+const loadEntryRecipients = async (
+  topicId: string,
+  options: { walletField: string; approvedOnly: boolean }
+): Promise<DistributionRecipient[]> => {
+  let entriesQuery = firestoreDB
+    .collection("entries")
+    .where("topicId", "==", topicId)
+    .where("topicDeletedAt", "==", null);
+  if (options.approvedOnly) {
+    entriesQuery = entriesQuery.where("status", "==", "approved");
+  }
+  const snapshot = await entriesQuery.select(options.walletField, "createdAt").get();
+
+  return snapshot.docs
+    .map((doc) => ({
+      entryId: doc.id,
+      wallet: doc.get(options.walletField),
+      createdAt: Number(doc.get("createdAt")) || 0,
+    }))
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(({ entryId, wallet }) => ({
+      entryId,
+      wallet: typeof wallet === "string" && wallet ? wallet : null,
+    }));
+};
+
+/**
+ * A revealed draw of the topic: the one asked for, or else the latest
+ * @returns null if there is no such draw
+ */
+const getRevealedDraw = async (
+  topicId: string,
+  drawId: string | undefined
+): Promise<DrawData | null> => {
+  if (drawId) {
+    const draw = (
+      await firestoreDB.collection(DRAWS_COLLECTION).doc(drawId).get()
+    ).data() as DrawData | undefined;
+    return draw && draw.topicId === topicId && draw.status === "drawn" ? draw : null;
+  }
+
+  const snapshot = await firestoreDB
+    .collection(DRAWS_COLLECTION)
+    .where("topicId", "==", topicId)
+    .where("status", "==", "drawn")
+    .get();
+  const draws = snapshot.docs
+    .map((doc) => doc.data() as DrawData)
+    .sort((a, b) => (b.drawnAt || 0) - (a.drawnAt || 0));
+  return draws[0] || null;
+};
+
+// Route Handlers
+/**
+ * Generate a distribution file for the topic's entries, approved entries or
+ * draw winners. Tiers are handed out in draw order for winners and in
+ * submission order otherwise.
+ */
+const handleGenerateDistribution = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  try {
+    const { id } = AirdropQuerySchema.parse(req.query);
+    const { source, drawId, rule, decimals, tokenAddress, format } =
+      DistributionRequestSchema.parse(req.body);
+
+    const topic = (
+      await firestoreDB.collection("topics").doc(id).get()
+    ).data() as TopicData | undefined;
+    if (!topic || topic.deletedAt) {
+      return res.status(404).json({ error: "Topic not found" });
+    }
+    const walletField = getWalletField(getTopicFormFields(topic));
+    if (!walletField) {
+      return res.status(400).json({ error: "This topic's form has no EVM address field" });
+    }
+
+    let recipients: DistributionRecipient[];
+    if (source === "winners") {
+      const draw = await getRevealedDraw(id, drawId);
+      if (!draw) {
+        return res.status(404).json({ error: "No revealed draw found for this topic" });
+      }
+      // Winners are paid at the wallet they held when they were drawn
+      recipients = draw.winners.map((winner) => ({
+        entryId: winner.id,
+        wallet: winner.wallet,
+      }));
+    } else {
+      recipients = await loadEntryRecipients(id, {
+        walletField: walletField.name,
+        approvedOnly: source === "approved",
+      });
+    }
+
+    const distribution = buildDistribution(recipients, rule, decimals);
+    if (distribution.rows.length === 0) {
+      return res.status(400).json({ error: "No entries receive anything under this rule" });
+    }
+
+    const { contentType, extension } = DISTRIBUTION_FILE_TYPES[format];
+    res.setHeader("Content-Type", contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="airdrop-${id}.${extension}"`);
+    res.setHeader("Cache-Control", "no-store");
+    res.status(200).send(
+      formatDistribution(distribution, {
+        format,
+        decimals,
+        tokenAddress,
+        details: {
+          topicId: id,
+          topicName: topic.name,
+          source,
+          rule: rule.type,
+          generatedAt: Date.now(),
+        },
+      })
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    console.error("Error generating distribution:", error);
+    res.status(500).json({ error: "Failed to generate distribution" });
+  }
+};
+
+// Main Handler
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> {
+  const admin = await requireAdmin(req, res, "viewer");
+  if (!admin) {
+    return;
+  }
+
+  switch (req.method) {
+    case "POST":
+      return handleGenerateDistribution(req, res);
+    default:
+      res.setHeader("Allow", ["POST"]);
+      res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
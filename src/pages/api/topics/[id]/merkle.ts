@@ -0,0 +1,215 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { firestoreDB } from "@/utils/firebaseAdmin";
+import { AdminSession, requireAdmin } from "@/utils/session";
+import { recordAudit } from "@/utils/auditLog";
+import { rateLimit, RateLimitRule } from "@/utils/rateLimit";
+import { AdminRole } from "@/utils/roles";
+import { FormField, getTopicFormFields, getWalletField } from "@/utils/formFields";
+import { buildMerkleTree } from "@/utils/merkle";
+import {
+  getAllowlist,
+  getAllowlistProof,
+  getAllowlistProofs,
+  loadTopicAddresses,
+  saveAllowlist,
+} from "@/utils/allowlists";
+
+// Constants
+// Public proof lookups allowed per IP
+const PROOF_RATE_LIMIT: RateLimitRule = {
+  name: "merkle-proof",
+  limit: 60,
+  windowMs: 60 * 1000,
+};
+
+// Types
+interface TopicData {
+  name: string;
+  formFields?: FormField[];
+  deletedAt?: number | null;
+}
+
+// Validation Schemas
+const MerkleQuerySchema = z.object({
+  id: z.string().min(1, "Topic ID is required"),
+  address: z.string().trim().min(1).optional(),
+  format: z.literal("json").optional(),
+});
+
+const BuildAllowlistSchema = z.object({
+  approvedOnly: z.boolean().default(false),
+});
+
+// Helper Functions
+/**
+ * Proof lookups for one address are public, so claim pages can fetch them;
+ * the whole allowlist and rebuilding it are for admins
+ */
+const getRequiredRole = (req: NextApiRequest): AdminRole | null => {
+  if (req.method === "GET") {
+    return req.query.address ? null : "viewer";
+  }
+  return "editor";
+};
+
+// Route Handlers
+const handleGetAllowlist = async (
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> => {
+  try {
+    const { id, address, format } = MerkleQuerySchema.parse(req.query);
+
+    // Claims stop while a topic is in the trash; admins can still see it
+    if (address) {
+      const topic = (
+        await firestoreDB.collection("topics").doc(id).get()
+      ).data() as TopicData | undefined;
+      if (!topic || topic.deletedAt) {
+        return res.status(404).json({ error: "Topic not found" });
+      }
+    }
+
+    const allowlist = await getAllowlist(id);
+    if (!allowlist) {
+      if (address || format) {
+        return res.status(404).json({ error: "No allowlist has been built for this topic" });
+      }
+      return res.status(200).json({ allowlist: null });
+    }
+
+    if (address) {
+      const proof = await getAllowlistProof(allowlist, address);
+      if (!proof) {
+        return res.status(404).json({ error: "This address is not on the allowlist" });
+      }
+      return res.status(200).json({ root: allowlist.root, ...proof });
+    }
+
+    if (format === "json") {
+      res.setHeader("Content-Type", "application/json; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="allowlist-${id}.json"`);
+      res.setHeader("Cache-Control", "no-store");
+      return res.status(200).send(
+        JSON.stringify(
+          {
+            topicId: allowlist.topicId,
+            topicName: allowlist.topicName,
+            root: allowlist.root,
+            count: allowlist.count,
+            builtAt: allowlist.builtAt,
+            proofs: await getAllowlistProofs(allowlist),
+          },
+          null,
+          2
+        )
+      );
+    }
+
+    res.status(200).json({ allowlist });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    console.error("Error fetching allowlist:", error);
+    res.status(500).json({ error: "Failed to fetch allowlist" });
+  }
+};
+
+/**
+ * Build the topic's allowlist from the addresses in its wallet field,
+ * replacing any built before
+ */
+const handleBuildAllowlist = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  admin: AdminSession | null
+): Promise<void> => {
+  try {
+    const { id } = MerkleQuerySchema.parse(req.query);
+    const { approvedOnly } = BuildAllowlistSchema.parse(req.body || {});
+
+    const topic = (
+      await firestoreDB.collection("topics").doc(id).get()
+    ).data() as TopicData | undefined;
+    if (!topic || topic.deletedAt) {
+      return res.status(404).json({ error: "Topic not found" });
+    }
+    const walletField = getWalletField(getTopicFormFields(topic));
+    if (!walletField) {
+      return res.status(400).json({ error: "This topic's form has no EVM address field" });
+    }
+
+    const { addresses, skipped } = await loadTopicAddresses(id, {
+      walletField: walletField.name,
+      approvedOnly,
+    });
+    if (addresses.length === 0) {
+      return res.status(400).json({ error: "No entries have a valid wallet address" });
+    }
+
+    const tree = buildMerkleTree(addresses);
+    const allowlist = await saveAllowlist(
+      {
+        topicId: id,
+        topicName: topic.name,
+        root: tree.root,
+        count: tree.addresses.length,
+        walletField: walletField.name,
+        approvedOnly,
+        skipped,
+        builtBy: admin?.email || admin?.uid || null,
+        builtAt: Date.now(),
+      },
+      tree
+    );
+    await recordAudit(req, admin, {
+      action: "allowlist.build",
+      targetType: "topic",
+      targetId: id,
+      after: allowlist,
+    });
+
+    res.status(200).json({ allowlist });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    console.error("Error building allowlist:", error);
+    res.status(500).json({ error: "Failed to build allowlist" });
+  }
+};
+
+// Main Handler
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<void> {
+  let admin: AdminSession | null = null;
+  const requiredRole = getRequiredRole(req);
+  if (requiredRole) {
+    admin = await requireAdmin(req, res, requiredRole);
+    if (!admin) {
+      return;
+    }
+  } else if (!(await rateLimit(req, res, PROOF_RATE_LIMIT))) {
+    return;
+  }
+
+  switch (req.method) {
+    case "GET":
+      return handleGetAllowlist(req, res);
+    case "POST":
+      return handleBuildAllowlist(req, res, admin);
+    default:
+      res.setHeader("Allow", ["GET", "POST"]);
+      res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
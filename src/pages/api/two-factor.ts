@@ -0,0 +1,256 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import QRCode from "qrcode";
+import { z } from "zod";
+import { AdminSession, requireAdmin } from "@/utils/session";
+import {
+  getLockoutRemaining,
+  recordLoginFailure,
+  sendLockedOut,
+} from "@/utils/loginLockout";
+import { rateLimit, RateLimitRule } from "@/utils/rateLimit";
+import {
+  getSessionAccount,
+  getTwoFactor,
+  getTwoFactorRef,
+  TwoFactorRecord,
+  verifySecondFactor,
+} from "@/utils/twoFactor";
+import {
+  buildOtpAuthUrl,
+  generateBackupCodes,
+  generateTotpSecret,
+  hashBackupCode,
+  verifyTotp,
+} from "@/utils/totp";
+
+// Constants
+// Code checks allowed per IP, as many as sign-in attempts
+const TWO_FACTOR_RATE_LIMIT: RateLimitRule = {
+  name: "two-factor",
+  limit: 10,
+  windowMs: 15 * 60 * 1000,
+};
+
+// Validation Schemas
+const CodeSchema = z.string().trim().min(1, "Code is required");
+
+// Every admin manages their own second factor
+const TwoFactorActionSchema = z.discriminatedUnion("action", [
+  // Start enrollment with a new secret
+  z.object({ action: z.literal("setup") }),
+  // Confirm enrollment with a code from the new secret
+  z.object({ action: z.literal("enable"), code: CodeSchema }),
+  // Replace the backup codes; needs a current code
+  z.object({ action: z.literal("backup-codes"), code: CodeSchema }),
+]);
+
+const DisableTwoFactorSchema = z.object({
+  code: CodeSchema,
+});
+
+// Helper Functions
+const getAccountLabel = (admin: AdminSession): string =>
+  admin.email || admin.uid;
+
+/**
+ * Issue new backup codes, storing only their hashes
+ * @returns The codes to show the admin once
+ */
+const issueBackupCodes = (): { codes: string[]; hashes: string[] } => {
+  const codes = generateBackupCodes();
+  return { codes, hashes: codes.map(hashBackupCode) };
+};
+
+/**
+ * Check a current code before the second factor is changed. Wrong codes
+ * count toward the sign-in lockout, so a session can't be used to guess
+ * codes that sign-in would have locked out.
+ * @returns Whether the code is right; otherwise the response has been sent
+ */
+const checkCurrentCode = async (
+  res: NextApiResponse,
+  account: string,
+  code: string
+): Promise<boolean> => {
+  const lockoutMs = await getLockoutRemaining(account);
+  if (lockoutMs) {
+    sendLockedOut(res, lockoutMs);
+    return false;
+  }
+  if (await verifySecondFactor(account, code)) {
+    return true;
+  }
+
+  const newLockoutMs = await recordLoginFailure(account);
+  if (newLockoutMs) {
+    sendLockedOut(res, newLockoutMs);
+  } else {
+    res.status(400).json({ error: "Invalid code" });
+  }
+  return false;
+};
+
+// Route Handlers
+const handleGetStatus = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  admin: AdminSession
+) => {
+  try {
+    const twoFactor = await getTwoFactor(getSessionAccount(admin));
+    res.status(200).json({
+      enabled: !!twoFactor?.enabled,
+      enabledAt: twoFactor?.enabledAt || null,
+      backupCodesRemaining: twoFactor?.enabled
+        ? twoFactor.backupCodes.length
+        : 0,
+    });
+  } catch (error) {
+    console.error("Error fetching two-factor status:", error);
+    res.status(500).json({ error: "Failed to fetch two-factor status" });
+  }
+};
+
+const handleAction = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  admin: AdminSession
+) => {
+  try {
+    const body = TwoFactorActionSchema.parse(req.body);
+    const account = getSessionAccount(admin);
+    const twoFactorRef = getTwoFactorRef(account);
+    const twoFactor = await getTwoFactor(account);
+
+    if (body.action === "setup") {
+      if (twoFactor?.enabled) {
+        return res
+          .status(400)
+          .json({ error: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTotpSecret();
+      const record: TwoFactorRecord = {
+        enabled: false,
+        secret: null,
+        pendingSecret: secret,
+        backupCodes: [],
+        lastUsedStep: null,
+        enabledAt: null,
+        updatedAt: Date.now(),
+      };
+      await twoFactorRef.set(record);
+
+      const otpAuthUrl = buildOtpAuthUrl(secret, getAccountLabel(admin));
+      return res.status(200).json({
+        secret,
+        otpAuthUrl,
+        qrCode: await QRCode.toDataURL(otpAuthUrl),
+      });
+    }
+
+    if (body.action === "enable") {
+      if (twoFactor?.enabled) {
+        return res
+          .status(400)
+          .json({ error: "Two-factor authentication is already enabled" });
+      }
+      if (!twoFactor?.pendingSecret) {
+        return res.status(400).json({ error: "Start setup first" });
+      }
+
+      const step = verifyTotp(twoFactor.pendingSecret, body.code);
+      if (step === null) {
+        return res.status(400).json({ error: "Invalid code" });
+      }
+
+      const { codes, hashes } = issueBackupCodes();
+      await twoFactorRef.update({
+        enabled: true,
+        secret: twoFactor.pendingSecret,
+        pendingSecret: null,
+        backupCodes: hashes,
+        lastUsedStep: step,
+        enabledAt: Date.now(),
+        updatedAt: Date.now(),
+      });
+      return res.status(200).json({ enabled: true, backupCodes: codes });
+    }
+
+    if (!twoFactor?.enabled) {
+      return res
+        .status(400)
+        .json({ error: "Two-factor authentication is not enabled" });
+    }
+    if (!(await checkCurrentCode(res, account, body.code))) {
+      return;
+    }
+
+    const { codes, hashes } = issueBackupCodes();
+    await twoFactorRef.update({ backupCodes: hashes, updatedAt: Date.now() });
+    res.status(200).json({ backupCodes: codes });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    console.error("Error updating two-factor:", error);
+    res.status(500).json({ error: "Failed to update two-factor" });
+  }
+};
+
+const handleDisable = async (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  admin: AdminSession
+) => {
+  try {
+    const { code } = DisableTwoFactorSchema.parse(req.body);
+    const account = getSessionAccount(admin);
+
+    if (!(await checkCurrentCode(res, account, code))) {
+      return;
+    }
+
+    await getTwoFactorRef(account).delete();
+    res.status(200).json({ enabled: false });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    console.error("Error disabling two-factor:", error);
+    res.status(500).json({ error: "Failed to disable two-factor" });
+  }
+};
+
+// Main Handler
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const admin = await requireAdmin(req, res);
+  if (!admin) {
+    return;
+  }
+  // Every change checks a code, so changes share the sign-in rate limit
+  if (req.method !== "GET" && !(await rateLimit(req, res, TWO_FACTOR_RATE_LIMIT))) {
+    return;
+  }
+
+  switch (req.method) {
+    case "GET":
+      return handleGetStatus(req, res, admin);
+    case "POST":
+      return handleAction(req, res, admin);
+    case "DELETE":
+      return handleDisable(req, res, admin);
+    default:
+      res.setHeader("Allow", ["GET", "POST", "DELETE"]);
+      res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
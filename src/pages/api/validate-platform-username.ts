@@ -1,23 +1,24 @@
 import { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { rateLimit, RateLimitRule } from "@/utils/rateLimit";
+import { verifyFieldUsername } from "@/utils/usernameProviders";
 
-// Mock validation function
-const validatePlatformUsername = (username: string): boolean => {
-  // This is a mock implementation that simulates an external API
-  // In a real application, this would call an actual third-party service
-  
-  // For demonstration purposes, we'll consider usernames with special characters as invalid
-  const hasSpecialChars = /[^a-zA-Z0-9_\.]/.test(username);
-  
-  // Usernames that are too short or too long are invalid
-  const isInvalidLength = username.length < 3 || username.length > 20;
-  
-  // Usernames that start with a number are invalid
-  const startsWithNumber = /^[0-9]/.test(username);
-  
-  return !hasSpecialChars && !isInvalidLength && !startsWithNumber;
+// Checks allowed per IP
+const VALIDATE_RATE_LIMIT: RateLimitRule = {
+  name: "validate-platform-username",
+  limit: 30,
+  windowMs: 60 * 1000,
 };
 
-export default function handler(
+// The format is checked by the topic's form; this asks the external
+// provider whether the account exists. Entry submissions repeat the check
+// on the server, so this is only for early feedback.
+const ValidateUsernameSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  field: z.string().min(1).default("platformUsername"),
+});
+
+export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
 ) {
@@ -25,17 +26,29 @@ export default function handler(
     return res.status(405).json({ error: "Method not allowed" });
   }
 
+  if (!(await rateLimit(req, res, VALIDATE_RATE_LIMIT))) {
+    return;
+  }
+
   try {
-    const { username } = req.body;
+    const { username, field } = ValidateUsernameSchema.parse(req.body);
 
-    if (!username) {
-      return res.status(400).json({ error: "Username is required" });
+    const check = await verifyFieldUsername(field, username);
+    // Without a registered provider there is nothing to check against, and
+    // the submission won't check either
+    if (!check) {
+      return res.status(200).json({ isValid: true, status: "unchecked" });
     }
 
-    const isValid = validatePlatformUsername(username);
-
-    return res.status(200).json({ isValid });
+    // An unreachable provider doesn't block the participant here
+    return res.status(200).json({
+      isValid: check.status !== "invalid",
+      status: check.status,
+    });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Username is required" });
+    }
     console.error("Error validating platform username:", error);
     return res.status(500).json({ error: "Internal server error" });
   }
@@ -0,0 +1,72 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { z } from "zod";
+import { firestoreDB } from "@/utils/firebaseAdmin";
+import { isTopicOpen, TopicSchedule } from "@/utils/topicSchedule";
+import { rateLimit, RateLimitRule } from "@/utils/rateLimit";
+import { createWalletChallenge, WalletAddressSchema } from "@/utils/walletProof";
+
+// Constants
+// Sign-in messages issued per IP
+const NONCE_RATE_LIMIT: RateLimitRule = {
+  name: "wallet-nonce",
+  limit: 20,
+  windowMs: 10 * 60 * 1000,
+};
+
+// Validation Schema
+const WalletNonceSchema = z.object({
+  topicId: z.string().min(1, "Topic ID is required"),
+  address: WalletAddressSchema,
+  chainId: z.number().int().positive("Invalid chain ID"),
+});
+
+// Main Handler
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  if (!(await rateLimit(req, res, NONCE_RATE_LIMIT))) {
+    return;
+  }
+
+  try {
+    const { topicId, address, chainId } = WalletNonceSchema.parse(req.body);
+
+    const topicDoc = await firestoreDB.collection("topics").doc(topicId).get();
+    const topic = topicDoc.data() as
+      | (TopicSchedule & { name: string; requireWalletSignature?: boolean })
+      | undefined;
+    if (!topic || !isTopicOpen(topic)) {
+      return res.status(400).json({
+        error: "This topic is not accepting entries",
+      });
+    }
+    if (!topic.requireWalletSignature) {
+      return res.status(400).json({
+        error: "This topic doesn't require a wallet signature",
+      });
+    }
+
+    const challenge = await createWalletChallenge(req, {
+      address,
+      chainId,
+      topicId,
+      topicName: topic.name,
+    });
+    res.status(200).json(challenge);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: error.errors,
+      });
+    }
+    console.error("Error issuing wallet nonce:", error);
+    res.status(500).json({ error: "Failed to start wallet verification" });
+  }
+}
@@ -0,0 +1,145 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Hex } from "viem";
+import {
+  buildDistribution,
+  DistributionRecipient,
+  DistributionRule,
+  parseTokenAmount,
+} from "./airdrop";
+
+const WALLETS: Hex[] = [
+  "0x1111111111111111111111111111111111111111",
+  "0x2222222222222222222222222222222222222222",
+  "0x3333333333333333333333333333333333333333",
+  "0x4444444444444444444444444444444444444444",
+  "0x5555555555555555555555555555555555555555",
+];
+
+const RECIPIENTS: DistributionRecipient[] = WALLETS.map((wallet, i) => ({
+  entryId: `entry-${i + 1}`,
+  wallet,
+}));
+
+// The same address without its checksum casing
+const upperCased = (address: Hex): Hex => `0x${address.slice(2).toUpperCase()}`;
+
+// Amounts by address, in base units
+const getAmounts = (
+  recipients: DistributionRecipient[],
+  rule: DistributionRule,
+  decimals = 0
+): Record<string, bigint> =>
+  Object.fromEntries(
+    buildDistribution(recipients, rule, decimals).rows.map(({ address, amount }) => [
+      address,
+      amount,
+    ])
+  );
+
+describe("parseTokenAmount", () => {
+  it("converts decimals to base units", () => {
+    assert.equal(parseTokenAmount("1.5", 18), BigInt("1500000000000000000"));
+    assert.equal(parseTokenAmount(" 2 ", 0), BigInt(2));
+  });
+
+  it("rejects zero, extra decimal places and anything that isn't a plain decimal", () => {
+    ["0", "0.000", "1.234", "-1", "1e3", "abc", ""].forEach((value) => {
+      assert.equal(parseTokenAmount(value, 2), null, value);
+    });
+  });
+});
+
+describe("buildDistribution", () => {
+  it("pays tiers in order and nothing past the last tier", () => {
+    const distribution = buildDistribution(
+      RECIPIENTS,
+      {
+        type: "tiered",
+        tiers: [
+          { count: 2, amount: "10" },
+          { count: 2, amount: "5" },
+        ],
+      },
+      0
+    );
+
+    assert.deepEqual(
+      distribution.rows.map(({ address, amount }) => [address, amount]),
+      [
+        [WALLETS[0], BigInt(10)],
+        [WALLETS[1], BigInt(10)],
+        [WALLETS[2], BigInt(5)],
+        [WALLETS[3], BigInt(5)],
+      ]
+    );
+    assert.equal(distribution.total, BigInt(30));
+    assert.equal(distribution.skipped, 1);
+  });
+
+  it("stops at the last recipient when tiers are longer than the list", () => {
+    const distribution = buildDistribution(
+      RECIPIENTS.slice(0, 3),
+      {
+        type: "tiered",
+        tiers: [
+          { count: 3, amount: "10" },
+          { count: 5, amount: "1" },
+        ],
+      },
+      0
+    );
+    assert.equal(distribution.rows.length, 3);
+    assert.equal(distribution.total, BigInt(30));
+    assert.equal(distribution.skipped, 0);
+  });
+
+  it("rounds weighted shares down and leaves the remainder unpaid", () => {
+    const distribution = buildDistribution(
+      RECIPIENTS.slice(0, 3),
+      {
+        type: "weights",
+        total: "10",
+        weights: WALLETS.slice(0, 3).map((address) => ({ address, weight: "1" })),
+      },
+      0
+    );
+    assert.deepEqual(
+      distribution.rows.map(({ amount }) => amount),
+      [BigInt(3), BigInt(3), BigInt(3)]
+    );
+    assert.equal(distribution.total, BigInt(9));
+  });
+
+  it("splits by fractional weights and skips entries without one", () => {
+    assert.deepEqual(
+      getAmounts(RECIPIENTS, {
+        type: "weights",
+        total: "100",
+        weights: [
+          { address: WALLETS[0], weight: "0.5" },
+          { address: upperCased(WALLETS[1]), weight: "1" },
+          { address: WALLETS[1], weight: "0.5" },
+        ],
+      }),
+      { [WALLETS[0]]: BigInt(25), [WALLETS[1]]: BigInt(75) }
+    );
+  });
+
+  it("pays entries sharing an address as one row and skips invalid wallets", () => {
+    const distribution = buildDistribution(
+      [
+        { entryId: "entry-1", wallet: WALLETS[0] },
+        { entryId: "entry-2", wallet: upperCased(WALLETS[0]) },
+        { entryId: "entry-3", wallet: "not a wallet" },
+        { entryId: "entry-4", wallet: null },
+      ],
+      { type: "flat", amount: "2" },
+      0
+    );
+    assert.deepEqual(distribution.rows, [
+      { address: WALLETS[0], amount: BigInt(4), entryIds: ["entry-1", "entry-2"] },
+    ]);
+    assert.equal(distribution.skipped, 2);
+  });
+});
@@ -0,0 +1,344 @@
+import { formatUnits, getAddress, isAddress, parseUnits } from "viem";
+import { z } from "zod";
+
+// Constants
+export const DISTRIBUTION_SOURCES = ["all", "approved", "winners"] as const;
+
+export const DISTRIBUTION_FORMATS = ["safe", "disperse", "json"] as const;
+
+export const DEFAULT_TOKEN_DECIMALS = 18;
+
+// ERC-20 decimals is a uint8, but no real token goes anywhere near this
+export const MAX_TOKEN_DECIMALS = 36;
+
+export const MAX_DISTRIBUTION_TIERS = 50;
+
+// More recipients than any topic holds; tiers past it would never be reached
+export const MAX_TIER_COUNT = 1000000;
+
+export const MAX_UPLOADED_WEIGHTS = 50000;
+
+// Uploaded weights are compared as fixed-point numbers with this many places
+const WEIGHT_DECIMALS = 18;
+
+const DECIMAL_PATTERN = /^\d+(\.\d+)?$/;
+
+export const DISTRIBUTION_FILE_TYPES: Record<
+  DistributionFormat,
+  { contentType: string; extension: string }
+> = {
+  safe: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  disperse: { contentType: "text/plain; charset=utf-8", extension: "txt" },
+  json: { contentType: "application/json; charset=utf-8", extension: "json" },
+};
+
+// Types
+export type DistributionSource = (typeof DISTRIBUTION_SOURCES)[number];
+
+export type DistributionFormat = (typeof DISTRIBUTION_FORMATS)[number];
+
+export type DistributionRule = z.infer<typeof DistributionRuleSchema>;
+
+export type DistributionRequest = z.infer<typeof DistributionRequestSchema>;
+
+// An entry that may receive tokens, in the order tiers are handed out
+export interface DistributionRecipient {
+  entryId: string;
+  wallet: string | null;
+}
+
+export interface DistributionRow {
+  address: string;
+  // In the token's base units
+  amount: bigint;
+  entryIds: string[];
+}
+
+export interface Distribution {
+  rows: DistributionRow[];
+  total: bigint;
+  // Entries that get nothing: no valid wallet, past the last tier, or not
+  // in the uploaded weights
+  skipped: number;
+}
+
+// Validation Schemas
+const AmountSchema = z
+  .string()
+  .trim()
+  .regex(DECIMAL_PATTERN, "Amounts must be plain decimal numbers");
+
+const AddressSchema = z
+  .string()
+  .trim()
+  .refine((value) => isAddress(value, { strict: false }), "Invalid EVM address");
+
+const DistributionRuleSchema = z.discriminatedUnion("type", [
+  // Every recipient gets the same amount
+  z.object({
+    type: z.literal("flat"),
+    amount: AmountSchema,
+  }),
+  // The first `count` recipients get the first tier's amount, the next
+  // `count` the second's, and so on; anyone past the last tier gets nothing
+  z.object({
+    type: z.literal("tiered"),
+    tiers: z
+      .array(
+        z.object({
+          count: z.number().int().min(1).max(MAX_TIER_COUNT),
+          amount: AmountSchema,
+        })
+      )
+      .min(1)
+      .max(MAX_DISTRIBUTION_TIERS),
+  }),
+  // `total` is split between recipients' addresses in proportion to their
+  // uploaded weights
+  z.object({
+    type: z.literal("weights"),
+    total: AmountSchema,
+    weights: z
+      .array(
+        z.object({
+          address: AddressSchema,
+          weight: z.string().trim().regex(DECIMAL_PATTERN, "Weights must be plain decimal numbers"),
+        })
+      )
+      .min(1)
+      .max(MAX_UPLOADED_WEIGHTS),
+  }),
+]);
+
+export const DistributionRequestSchema = z
+  .object({
+    source: z.enum(DISTRIBUTION_SOURCES).default("approved"),
+    // The draw whose winners to pay when the source is "winners"; defaults
+    // to the topic's latest revealed draw
+    drawId: z.string().min(1).optional(),
+    rule: DistributionRuleSchema,
+    decimals: z.number().int().min(0).max(MAX_TOKEN_DECIMALS).default(DEFAULT_TOKEN_DECIMALS),
+    // The ERC-20 being sent; null for the chain's native token
+    tokenAddress: AddressSchema.nullable().default(null),
+    format: z.enum(DISTRIBUTION_FORMATS).default("safe"),
+  })
+  .superRefine(({ rule, decimals }, ctx) => {
+    const amounts =
+      rule.type === "flat"
+        ? [{ value: rule.amount, path: ["amount"] }]
+        : rule.type === "tiered"
+          ? rule.tiers.map((tier, i) => ({ value: tier.amount, path: ["tiers", i, "amount"] }))
+          : [{ value: rule.total, path: ["total"] }];
+    amounts.forEach(({ value, path }) => {
+      if (!parseTokenAmount(value, decimals)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["rule", ...path],
+          message: `Must be a positive amount with at most ${decimals} decimal places`,
+        });
+      }
+    });
+    if (rule.type === "weights") {
+      rule.weights.forEach(({ weight }, i) => {
+        if (!parseTokenAmount(weight, WEIGHT_DECIMALS)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["rule", "weights", i, "weight"],
+            message: `Weights must be positive with at most ${WEIGHT_DECIMALS} decimal places`,
+          });
+        }
+      });
+    }
+  });
+
+/**
+ * A positive token amount in base units, checked with viem's `parseUnits`
+ * @returns null if the value isn't a plain decimal above zero with at most
+ * `decimals` places. parseUnits would round extra places away, so they're
+ * rejected first.
+ */
+export function parseTokenAmount(value: string, decimals: number): bigint | null {
+  const trimmed = value.trim();
+  if (!DECIMAL_PATTERN.test(trimmed) || (trimmed.split(".")[1]?.length ?? 0) > decimals) {
+    return null;
+  }
+  const amount = parseUnits(trimmed, decimals);
+  return amount > BigInt(0) ? amount : null;
+}
+
+// Helper Functions
+const getWeights = (
+  weights: { address: string; weight: string }[]
+): Map<string, bigint> => {
+  const byAddress = new Map<string, bigint>();
+  weights.forEach(({ address, weight }) => {
+    const checksummed = getAddress(address);
+    byAddress.set(
+      checksummed,
+      (byAddress.get(checksummed) ?? BigInt(0)) +
+        (parseTokenAmount(weight, WEIGHT_DECIMALS) ?? BigInt(0))
+    );
+  });
+  return byAddress;
+};
+
+/**
+ * Each recipient's share in base units. Recipients the rule leaves out
+ * aren't returned; with uploaded weights an address's whole share goes on
+ * its first entry.
+ */
+const getShares = (
+  recipients: { entryId: string; address: string }[],
+  rule: DistributionRule,
+  decimals: number
+): { entryId: string; address: string; amount: bigint }[] => {
+  switch (rule.type) {
+    case "flat": {
+      const amount = parseUnits(rule.amount, decimals);
+      return recipients.map((recipient) => ({ ...recipient, amount }));
+    }
+    case "tiered": {
+      const shares: { entryId: string; address: string; amount: bigint }[] = [];
+      let next = 0;
+      for (const tier of rule.tiers) {
+        const amount = parseUnits(tier.amount, decimals);
+        const end = Math.min(next + tier.count, recipients.length);
+        for (; next < end; next++) {
+          shares.push({ ...recipients[next], amount });
+        }
+        if (next === recipients.length) {
+          break;
+        }
+      }
+      return shares;
+    }
+    case "weights": {
+      const weights = getWeights(rule.weights);
+      const weighted = recipients.filter(({ address }) => weights.has(address));
+      const addresses = new Set(weighted.map(({ address }) => address));
+      const totalWeight = Array.from(addresses).reduce(
+        (sum, address) => sum + (weights.get(address) ?? BigInt(0)),
+        BigInt(0)
+      );
+      if (totalWeight === BigInt(0)) {
+        return [];
+      }
+
+      // Shares round down, so a few base units of the total can be left over
+      const total = parseUnits(rule.total, decimals);
+      const paid = new Set<string>();
+      return weighted.map((recipient) => {
+        const first = !paid.has(recipient.address);
+        paid.add(recipient.address);
+        return {
+          ...recipient,
+          amount: first
+            ? (total * (weights.get(recipient.address) ?? BigInt(0))) / totalWeight
+            : BigInt(0),
+        };
+      });
+    }
+  }
+};
+
+/**
+ * Work out what each address receives under a rule. Entries sharing an
+ * address are paid as one row, so no address appears twice in a file.
+ * @param recipients Entries in the order tiers are handed out
+ */
+export function buildDistribution(
+  recipients: DistributionRecipient[],
+  rule: DistributionRule,
+  decimals: number
+): Distribution {
+  const withAddresses = recipients.flatMap(({ entryId, wallet }) => {
+    const value = wallet?.trim();
+    return value && isAddress(value, { strict: false })
+      ? [{ entryId, address: getAddress(value) }]
+      : [];
+  });
+
+  const rowsByAddress = new Map<string, DistributionRow>();
+  getShares(withAddresses, rule, decimals).forEach(({ entryId, address, amount }) => {
+    const row = rowsByAddress.get(address);
+    if (row) {
+      row.amount += amount;
+      row.entryIds.push(entryId);
+    } else {
+      rowsByAddress.set(address, { address, amount, entryIds: [entryId] });
+    }
+  });
+
+  const rows = Array.from(rowsByAddress.values()).filter(
+    ({ amount }) => amount > BigInt(0)
+  );
+  const paidEntries = rows.reduce((count, row) => count + row.entryIds.length, 0);
+  return {
+    rows,
+    total: rows.reduce((sum, row) => sum + row.amount, BigInt(0)),
+    skipped: recipients.length - paidEntries,
+  };
+}
+
+/**
+ * Render a distribution in a format a distribution tool accepts:
+ * - safe: the Safe{Wallet} CSV Airdrop app's
+ *   `token_type,token_address,receiver,amount,id` file
+ * - disperse: Disperse-style `address,amount` lines
+ * - json: every row with its amount in both units and the entries it pays
+ * Amounts in the CSV and Disperse files are in whole tokens, as those tools
+ * expect.
+ * @param details Extra fields for the top of the JSON file
+ */
+export function formatDistribution(
+  distribution: Distribution,
+  options: {
+    format: DistributionFormat;
+    decimals: number;
+    tokenAddress: string | null;
+    details?: Record<string, unknown>;
+  }
+): string {
+  const { format, decimals } = options;
+  const tokenAddress = options.tokenAddress ? getAddress(options.tokenAddress) : null;
+
+  switch (format) {
+    case "safe":
+      return [
+        "token_type,token_address,receiver,amount,id",
+        ...distribution.rows.map((row) =>
+          [
+            tokenAddress ? "erc20" : "native",
+            tokenAddress ?? "",
+            row.address,
+            formatUnits(row.amount, decimals),
+            "",
+          ].join(",")
+        ),
+      ].join("\n");
+    case "disperse":
+      return distribution.rows
+        .map((row) => `${row.address},${formatUnits(row.amount, decimals)}`)
+        .join("\n");
+    case "json":
+      return JSON.stringify(
+        {
+          ...options.details,
+          tokenAddress,
+          decimals,
+          total: formatUnits(distribution.total, decimals),
+          totalBaseUnits: distribution.total.toString(),
+          recipientCount: distribution.rows.length,
+          skipped: distribution.skipped,
+          recipients: distribution.rows.map((row) => ({
+            address: row.address,
+            amount: formatUnits(row.amount, decimals),
+            amountBaseUnits: row.amount.toString(),
+            entryIds: row.entryIds,
+          })),
+        },
+        null,
+        2
+      );
+  }
+}
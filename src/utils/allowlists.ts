@@ -0,0 +1,192 @@
+import { getAddress, isAddress } from "viem";
+import { firestoreDB } from "./firebaseAdmin";
+import { canonicalizeAddresses, getMerkleProof, MerkleProof, MerkleTree } from "./merkle";
+
+// Constants
+// One allowlist per topic, keyed by topic id
+export const ALLOWLISTS_COLLECTION = "allowlists";
+
+// Each build is written under its own id and never changed afterwards, with
+// one proof document per address, keyed by checksummed address
+const ALLOWLIST_BUILDS_COLLECTION = "builds";
+const ALLOWLIST_PROOFS_COLLECTION = "proofs";
+
+// Firestore allows at most 500 writes in one batch
+const BATCH_SIZE = 500;
+
+// Types
+export interface AllowlistData {
+  topicId: string;
+  topicName: string;
+  root: string;
+  count: number;
+  // Form field the addresses were read from
+  walletField: string;
+  approvedOnly: boolean;
+  // Entries left out because their value isn't a valid EVM address
+  skipped: number;
+  builtBy: string | null;
+  builtAt: number;
+  // The build the root describes
+  buildId: string;
+}
+
+interface StoredProof extends MerkleProof {
+  // Position in leaf order, for listing every proof
+  index: number;
+}
+
+const getAllowlistRef = (topicId: string) =>
+  firestoreDB.collection(ALLOWLISTS_COLLECTION).doc(topicId);
+
+const getProofsCollection = (topicId: string, buildId: string) =>
+  getAllowlistRef(topicId)
+    .collection(ALLOWLIST_BUILDS_COLLECTION)
+    .doc(buildId)
+    .collection(ALLOWLIST_PROOFS_COLLECTION);
+
+/**
+ * Every distinct EVM address entered in a topic's wallet field, checksummed
+ */
+export async function loadTopicAddresses(
+  topicId: string,
+  options: { walletField: string; approvedOnly: boolean }
+): Promise<{ addresses: string[]; skipped: number }> {
+  let entriesQuery = firestoreDB
+    .collection("entries")
+    .where("topicId", "==", topicId)
+    .where("topicDeletedAt", "==", null);
+  if (options.approvedOnly) {
+    entriesQuery = entriesQuery.where("status", "==", "approved");
+  }
+  const snapshot = await entriesQuery.select(options.walletField).get();
+
+  const values = snapshot.docs
+    .map((doc) => doc.get(options.walletField))
+    .filter((value): value is string => typeof value === "string" && !!value);
+  return {
+    addresses: canonicalizeAddresses(values),
+    skipped: values.filter((value) => !isAddress(value.trim(), { strict: false })).length,
+  };
+}
+
+/**
+ * Replace a topic's allowlist with a newly built tree. Every proof is stored
+ * under a new build first, and the root switches to it in one write, so
+ * readers never see a root and proofs that don't match. The build it
+ * replaces is kept for readers already part way through it; older ones go.
+ * Builds are ordered by `builtAt`: when rebuilds overlap, the one started
+ * last wins and a slower older one is discarded instead of switched to.
+ * @returns The allowlist now stored, which is a newer build's if one won
+ */
+export async function saveAllowlist(
+  allowlist: Omit<AllowlistData, "buildId">,
+  tree: MerkleTree
+): Promise<AllowlistData> {
+  const allowlistRef = getAllowlistRef(allowlist.topicId);
+  const buildsCollection = allowlistRef.collection(ALLOWLIST_BUILDS_COLLECTION);
+  const buildRef = buildsCollection.doc();
+  const proofsCollection = buildRef.collection(ALLOWLIST_PROOFS_COLLECTION);
+
+  // Written before the proofs, so a concurrent rebuild's cleanup can tell
+  // how old this build is while it is still being written
+  await buildRef.set({
+    root: tree.root,
+    count: tree.addresses.length,
+    builtAt: allowlist.builtAt,
+  });
+  for (let i = 0; i < tree.addresses.length; i += BATCH_SIZE) {
+    const batch = firestoreDB.batch();
+    tree.addresses.slice(i, i + BATCH_SIZE).forEach((address, offset) => {
+      const proof = getMerkleProof(tree, address);
+      if (proof) {
+        const stored: StoredProof = { ...proof, index: i + offset };
+        batch.set(proofsCollection.doc(address), stored);
+      }
+    });
+    await batch.commit();
+  }
+
+  const saved: AllowlistData = { ...allowlist, buildId: buildRef.id };
+  const { current, previous } = await firestoreDB.runTransaction(async (transaction) => {
+    const before = (await transaction.get(allowlistRef)).data() as
+      | AllowlistData
+      | undefined;
+    if (before && before.builtAt > saved.builtAt) {
+      return { current: before, previous: null };
+    }
+    transaction.set(allowlistRef, saved);
+    return { current: saved, previous: before || null };
+  });
+
+  if (current !== saved) {
+    await firestoreDB.recursiveDelete(buildRef);
+    return current;
+  }
+  // Newer builds may belong to rebuilds still writing their proofs
+  if (previous) {
+    const staleBuilds = await buildsCollection
+      .where("builtAt", "<", previous.builtAt)
+      .select()
+      .get();
+    await Promise.all(
+      staleBuilds.docs.map((doc) => firestoreDB.recursiveDelete(doc.ref))
+    );
+  }
+
+  return saved;
+}
+
+/**
+ * A topic's stored allowlist
+ * @returns null if none has been built
+ */
+export async function getAllowlist(topicId: string): Promise<AllowlistData | null> {
+  const allowlist = (await getAllowlistRef(topicId).get()).data() as
+    | AllowlistData
+    | undefined;
+  return allowlist || null;
+}
+
+/**
+ * One address's stored proof, read without rebuilding the tree
+ * @returns null if the address isn't on the allowlist
+ */
+export async function getAllowlistProof(
+  allowlist: AllowlistData,
+  address: string
+): Promise<MerkleProof | null> {
+  if (!isAddress(address, { strict: false })) {
+    return null;
+  }
+  const proofDoc = await getProofsCollection(allowlist.topicId, allowlist.buildId)
+    .doc(getAddress(address))
+    .get();
+  if (!proofDoc.exists) {
+    return null;
+  }
+  const { index, ...proof } = proofDoc.data() as StoredProof;
+  return proof;
+}
+
+/**
+ * Every stored proof of an allowlist, in leaf order
+ */
+export async function getAllowlistProofs(
+  allowlist: AllowlistData
+): Promise<MerkleProof[]> {
+  const snapshot = await getProofsCollection(allowlist.topicId, allowlist.buildId)
+    .orderBy("index")
+    .get();
+  return snapshot.docs.map((doc) => {
+    const { index, ...proof } = doc.data() as StoredProof;
+    return proof;
+  });
+}
+
+/**
+ * Remove a topic's allowlist, for purges
+ */
+export async function deleteAllowlist(topicId: string): Promise<void> {
+  await firestoreDB.recursiveDelete(getAllowlistRef(topicId));
+}
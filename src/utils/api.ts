@@ -1,11 +1,9 @@
-import { auth } from "./firebase";
-
 interface FetchOptions extends RequestInit {
   requiresAuth?: boolean;
 }
 
 /**
- * Utility function to make API requests with Firebase authentication
+ * Utility function to make API requests with the admin session cookie
  * @param url The API endpoint URL
  * @param options Fetch options including whether authentication is required
  * @returns The response data
@@ -24,22 +22,14 @@ export async function fetchWithAuth<T>(
     headers.set("Content-Type", "application/json");
   }
   
-  // Add authorization header if authentication is required
+  // The HttpOnly session cookie authenticates the request, so there is no
+  // header to add
   if (requiresAuth) {
-    try {
-      const token = await auth.currentUser?.getIdToken();
-      if (token) {
-        headers.set("Authorization", `Bearer ${token}`);
-        
-        // Reset inactivity timer when making authenticated requests
-        // This is a workaround since we can't directly access the AuthContext here
-        // The actual reset will happen in components that use this function
-        const event = new CustomEvent('userActivity');
-        window.dispatchEvent(event);
-      }
-    } catch (error) {
-      console.error("Error getting auth token:", error);
-    }
+    // Reset inactivity timer when making authenticated requests
+    // This is a workaround since we can't directly access the AuthContext here
+    // The actual reset will happen in components that use this function
+    const event = new CustomEvent('userActivity');
+    window.dispatchEvent(event);
   }
   
   // Make the request
@@ -0,0 +1,72 @@
+// Constants
+export const AUDIT_ACTIONS = [
+  "topic.create",
+  "topic.update",
+  "topic.delete",
+  "topic.restore",
+  "topic.purge",
+  "allowlist.build",
+  "entry.create",
+  "entry.update",
+  "entry.delete",
+  "entry.review",
+  "draw.commit",
+  "draw.reveal",
+  "role.assign",
+  "role.remove",
+] as const;
+
+export const AUDIT_EXPORT_FORMATS = ["csv", "json"] as const;
+
+// Types
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditTargetType = "topic" | "entry" | "draw" | "admin";
+
+export type AuditExportFormat = (typeof AUDIT_EXPORT_FORMATS)[number];
+
+// Who made the change; null for public entry submissions
+export interface AuditActor {
+  uid: string;
+  email: string | null;
+  method: "firebase" | "password";
+  role: string;
+}
+
+export interface AuditRecord {
+  actor: AuditActor | null;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  ip: string | null;
+  createdAt: number;
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "topic.create": "Created topic",
+  "topic.update": "Updated topic",
+  "topic.delete": "Moved topic to trash",
+  "topic.restore": "Restored topic",
+  "topic.purge": "Purged topic",
+  "allowlist.build": "Built allowlist",
+  "entry.create": "Submitted entry",
+  "entry.update": "Participant edited entry",
+  "entry.delete": "Deleted entry",
+  "entry.review": "Reviewed entry",
+  "draw.commit": "Committed winner draw",
+  "draw.reveal": "Drew winners",
+  "role.assign": "Assigned role",
+  "role.remove": "Removed role",
+};
+
+/**
+ * Display name for whoever made a change
+ */
+export function formatAuditActor(actor: AuditActor | null): string {
+  if (!actor) {
+    return "Public";
+  }
+  return actor.email || actor.uid;
+}
@@ -0,0 +1,146 @@
+import type { NextApiRequest } from "next";
+import {
+  DocumentData,
+  Query,
+  Transaction,
+  WriteBatch,
+} from "firebase-admin/firestore";
+import { z } from "zod";
+import { firestoreDB } from "./firebaseAdmin";
+import { AdminSession } from "./session";
+import { getClientIp, optionalQueryParam } from "./request";
+import {
+  AUDIT_ACTIONS,
+  AuditAction,
+  AuditRecord,
+  AuditTargetType,
+} from "./auditEvents";
+
+// Records are only ever added; nothing in the app updates or deletes them
+export const AUDIT_LOG_COLLECTION = "auditLog";
+
+// Types
+export interface AuditEvent {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  before?: object | null;
+  after?: object | null;
+}
+
+export const AuditFiltersSchema = z.object({
+  action: optionalQueryParam(z.enum(AUDIT_ACTIONS)),
+  actorEmail: optionalQueryParam(z.string().trim().toLowerCase()),
+  targetId: optionalQueryParam(z.string().trim()),
+  from: optionalQueryParam(z.coerce.number().int().nonnegative()),
+  to: optionalQueryParam(z.coerce.number().int().nonnegative()),
+});
+
+export type AuditFilters = z.infer<typeof AuditFiltersSchema>;
+
+// Snapshots are stored as plain data; Firestore rejects undefined values
+const toSnapshot = (value?: object | null): Record<string, unknown> | null =>
+  value ? JSON.parse(JSON.stringify(value)) : null;
+
+/**
+ * Build the record for a change
+ * @param actor The admin who made it, or null for a public submission
+ */
+export function createAuditRecord(
+  req: NextApiRequest,
+  actor: AdminSession | null,
+  event: AuditEvent
+): AuditRecord {
+  return {
+    actor: actor
+      ? {
+          uid: actor.uid,
+          email: actor.email?.toLowerCase() || null,
+          method: actor.method,
+          role: actor.role,
+        }
+      : null,
+    action: event.action,
+    targetType: event.targetType,
+    targetId: event.targetId,
+    before: toSnapshot(event.before),
+    after: toSnapshot(event.after),
+    ip: getClientIp(req),
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Add an audit record inside the transaction that makes the change, so one
+ * is never written without the other
+ */
+export function recordAuditInTransaction(
+  transaction: Transaction,
+  req: NextApiRequest,
+  actor: AdminSession | null,
+  event: AuditEvent
+): void {
+  transaction.create(
+    firestoreDB.collection(AUDIT_LOG_COLLECTION).doc(),
+    createAuditRecord(req, actor, event)
+  );
+}
+
+/**
+ * Add an audit record to the batched write that makes the change
+ */
+export function recordAuditInBatch(
+  batch: WriteBatch,
+  req: NextApiRequest,
+  actor: AdminSession | null,
+  event: AuditEvent
+): void {
+  batch.create(
+    firestoreDB.collection(AUDIT_LOG_COLLECTION).doc(),
+    createAuditRecord(req, actor, event)
+  );
+}
+
+/**
+ * Add an audit record for a change that has already been written. A failed
+ * write is logged rather than reported as a failure of the change itself.
+ */
+export async function recordAudit(
+  req: NextApiRequest,
+  actor: AdminSession | null,
+  event: AuditEvent
+): Promise<void> {
+  try {
+    await firestoreDB
+      .collection(AUDIT_LOG_COLLECTION)
+      .add(createAuditRecord(req, actor, event));
+  } catch (error) {
+    console.error("Error writing audit record:", error);
+  }
+}
+
+/**
+ * Query the audit log with the given filters applied. Sorting is left to
+ * the caller.
+ */
+export function buildAuditQuery(filters: AuditFilters): Query<DocumentData> {
+  let query: Query<DocumentData> = firestoreDB.collection(AUDIT_LOG_COLLECTION);
+
+  if (filters.action) {
+    query = query.where("action", "==", filters.action);
+  }
+  if (filters.actorEmail) {
+    query = query.where("actor.email", "==", filters.actorEmail);
+  }
+  if (filters.targetId) {
+    query = query.where("targetId", "==", filters.targetId);
+  }
+  if (filters.from !== undefined) {
+    query = query.where("createdAt", ">=", filters.from);
+  }
+  if (filters.to !== undefined) {
+    query = query.where("createdAt", "<=", filters.to);
+  }
+
+  return query;
+}
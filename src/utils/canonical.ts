@@ -0,0 +1,94 @@
+import { getAddress, isAddress } from "viem";
+
+// Domains that ignore dots and plus-tags in the local part of an address
+const GMAIL_DOMAINS = ["gmail.com", "googlemail.com"];
+
+// Types
+export type CanonicalKey =
+  | "walletAddress"
+  | "email"
+  | "telegramUsername"
+  | "platformUsername"
+  | "discordUsername";
+
+// Topics with a custom form may not ask for every identifying field, and
+// submitted values are only trusted to be strings once checked
+export type CanonicalSource = Record<string, unknown> & {
+  [K in CanonicalKey]?: unknown;
+};
+
+export type CanonicalFields = { [K in CanonicalKey]?: string };
+
+/**
+ * Canonical wallet form: the EIP-55 checksummed address
+ * @throws if the value is not a valid address
+ */
+export function canonicalizeWallet(address: string): string {
+  return getAddress(address.trim());
+}
+
+/**
+ * Whether a `walletAddress` value can be canonicalized. Topics created before
+ * the default field names were tied to their types may hold something other
+ * than an EVM address there, which has no canonical form.
+ */
+export function isCanonicalWallet(value: string): boolean {
+  return isAddress(value.trim(), { strict: false });
+}
+
+/**
+ * Canonical email form: lowercased, with Gmail's ignored dots and
+ * plus-tags removed so every alias of one inbox compares equal
+ */
+export function canonicalizeEmail(email: string): string {
+  const normalized = email.trim().toLowerCase();
+  const atIndex = normalized.lastIndexOf("@");
+  if (atIndex === -1) {
+    return normalized;
+  }
+
+  let local = normalized.slice(0, atIndex);
+  let domain = normalized.slice(atIndex + 1);
+
+  if (GMAIL_DOMAINS.includes(domain)) {
+    local = local.split("+")[0].replace(/\./g, "");
+    domain = "gmail.com";
+  }
+
+  return `${local}@${domain}`;
+}
+
+/**
+ * Canonical handle form for Telegram, platform and Discord usernames
+ */
+export function canonicalizeHandle(handle: string): string {
+  return handle.trim().toLowerCase();
+}
+
+const CANONICALIZERS: Record<CanonicalKey, (value: string) => string> = {
+  walletAddress: canonicalizeWallet,
+  email: canonicalizeEmail,
+  telegramUsername: canonicalizeHandle,
+  platformUsername: canonicalizeHandle,
+  discordUsername: canonicalizeHandle,
+};
+
+/**
+ * Canonicalize every identifying field an entry has filled in
+ * @param entry The values as the participant typed them
+ * @returns Canonical values, omitting fields that are missing or blank
+ */
+export function canonicalizeEntry(entry: CanonicalSource): CanonicalFields {
+  const canonical: CanonicalFields = {};
+  (Object.keys(CANONICALIZERS) as CanonicalKey[]).forEach((key) => {
+    const value = entry[key];
+    if (
+      typeof value === "string" &&
+      value &&
+      (key !== "walletAddress" || isCanonicalWallet(value))
+    ) {
+      canonical[key] = CANONICALIZERS[key](value);
+    }
+  });
+  return canonical;
+}
@@ -0,0 +1,187 @@
+import { FieldPath, Transaction, WriteBatch } from "firebase-admin/firestore";
+import { firestoreDB } from "./firebaseAdmin";
+import { DrawEntry, DrawRecord, MAX_DRAW_WEIGHT, sortDrawEntries } from "./raffle";
+
+// Constants
+export const DRAWS_COLLECTION = "draws";
+
+// Seeds stay here, out of every API response, until their draw is revealed
+export const DRAW_SEEDS_COLLECTION = "drawSeeds";
+
+// The entries each draw was run over, stored in chunks under the draw
+const DRAW_ENTRY_SET_COLLECTION = "entrySet";
+const ENTRY_SET_CHUNK_SIZE = 2000;
+
+// Types
+export type DrawStatus = "committed" | "drawn";
+
+export interface DrawWinner {
+  id: string;
+  // The winning entry's wallet when it was drawn, for paying out
+  wallet: string | null;
+}
+
+export interface DrawData {
+  topicId: string;
+  topicName: string;
+  winnerCount: number;
+  approvedOnly: boolean;
+  // Form field holding each entry's tickets; null for one ticket each
+  weightField: string | null;
+  algorithm: string;
+  seedHash: string;
+  status: DrawStatus;
+  committedBy: string | null;
+  committedAt: number;
+  // The entry set is snapshotted when the draw is committed. Draws committed
+  // before that have none and can't be revealed.
+  entrySetHash: string | null;
+  entryCount: number | null;
+  // Set once the draw is revealed
+  seed: string | null;
+  winners: DrawWinner[];
+  drawnBy: string | null;
+  drawnAt: number | null;
+}
+
+interface DrawEntrySetChunk {
+  index: number;
+  entries: DrawEntry[];
+}
+
+const getEntrySetCollection = (drawId: string) =>
+  firestoreDB.collection(DRAWS_COLLECTION).doc(drawId).collection(DRAW_ENTRY_SET_COLLECTION);
+
+/**
+ * The entries a draw for a topic would run over. Rejected entries are always
+ * left out. Without a weight field each entry holds one ticket; with one,
+ * entries whose value isn't a positive whole number hold none and are left
+ * out, and larger values are cut down to MAX_DRAW_WEIGHT. Entries come back
+ * in the canonical draw order.
+ */
+export async function loadDrawCandidates(
+  topicId: string,
+  options: { approvedOnly: boolean; weightField: string | null }
+): Promise<DrawEntry[]> {
+  let entriesQuery = firestoreDB
+    .collection("entries")
+    .where("topicId", "==", topicId)
+    .where("topicDeletedAt", "==", null);
+  if (options.approvedOnly) {
+    entriesQuery = entriesQuery.where("status", "==", "approved");
+  }
+  const fields = ["status", options.weightField].filter(
+    (field): field is string => !!field
+  );
+  const snapshot = await entriesQuery.select(...fields).get();
+
+  const entries: DrawEntry[] = [];
+  snapshot.docs.forEach((doc) => {
+    if (doc.get("status") === "rejected") {
+      return;
+    }
+    const weight = options.weightField ? Number(doc.get(options.weightField)) : 1;
+    if (!Number.isSafeInteger(weight) || weight <= 0) {
+      return;
+    }
+    entries.push({ id: doc.id, weight: Math.min(weight, MAX_DRAW_WEIGHT) });
+  });
+
+  return sortDrawEntries(entries);
+}
+
+/**
+ * Store the entries a draw will run over with its commit, so they can't be
+ * changed before the seed is revealed
+ */
+export function writeDrawEntrySetInBatch(
+  batch: WriteBatch,
+  drawId: string,
+  entries: DrawEntry[]
+): void {
+  const collection = getEntrySetCollection(drawId);
+  for (let i = 0; i * ENTRY_SET_CHUNK_SIZE < entries.length; i++) {
+    const chunk: DrawEntrySetChunk = {
+      index: i,
+      entries: entries.slice(i * ENTRY_SET_CHUNK_SIZE, (i + 1) * ENTRY_SET_CHUNK_SIZE),
+    };
+    batch.create(collection.doc(String(i)), chunk);
+  }
+}
+
+/**
+ * The entries a draw was committed over, in draw order
+ */
+export async function getDrawEntrySet(drawId: string): Promise<DrawEntry[]> {
+  const chunks = await getEntrySetCollection(drawId).orderBy("index").get();
+  return chunks.docs.flatMap((doc) => (doc.data() as DrawEntrySetChunk).entries);
+}
+
+/**
+ * Each winning entry's wallet as the draw is revealed, for paying out
+ * @returns Wallets by entry id; deleted entries and blank values are null
+ */
+export async function getWinnerWalletsInTransaction(
+  transaction: Transaction,
+  entryIds: string[],
+  walletField: string | undefined
+): Promise<Map<string, string | null>> {
+  const wallets = new Map<string, string | null>(entryIds.map((id) => [id, null]));
+  if (!walletField || entryIds.length === 0) {
+    return wallets;
+  }
+
+  const docs = await transaction.getAll(
+    ...entryIds.map((id) => firestoreDB.collection("entries").doc(id)),
+    { fieldMask: [new FieldPath(walletField)] }
+  );
+  docs.forEach((doc) => {
+    const wallet = doc.get(walletField);
+    if (typeof wallet === "string" && wallet) {
+      wallets.set(doc.id, wallet);
+    }
+  });
+  return wallets;
+}
+
+/**
+ * The verifiable record of a revealed draw, with the entries it ran over
+ * @returns null if the draw hasn't been revealed
+ */
+export async function getDrawRecord(
+  drawId: string,
+  draw: DrawData
+): Promise<DrawRecord | null> {
+  if (draw.status !== "drawn" || !draw.seed || !draw.entrySetHash) {
+    return null;
+  }
+
+  return {
+    algorithm: draw.algorithm,
+    seed: draw.seed,
+    seedHash: draw.seedHash,
+    entrySetHash: draw.entrySetHash,
+    winnerCount: draw.winnerCount,
+    entries: await getDrawEntrySet(drawId),
+    winners: draw.winners.map(({ id }) => id),
+  };
+}
+
+/**
+ * Delete a topic's draws with their entry sets and unrevealed seeds, for
+ * purging the topic
+ */
+export async function deleteTopicDraws(topicId: string): Promise<void> {
+  const snapshot = await firestoreDB
+    .collection(DRAWS_COLLECTION)
+    .where("topicId", "==", topicId)
+    .select()
+    .get();
+
+  for (const doc of snapshot.docs) {
+    // The seed goes first, so a purge that fails part way still finds the
+    // draw it belongs to when retried
+    await firestoreDB.collection(DRAW_SEEDS_COLLECTION).doc(doc.id).delete();
+    await firestoreDB.recursiveDelete(doc.ref);
+  }
+}
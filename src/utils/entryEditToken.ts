@@ -0,0 +1,88 @@
+import jwt from "jsonwebtoken";
+
+// Constants
+// How long the link from a participant's confirmation keeps working
+export const ENTRY_EDIT_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Keeps edit tokens from passing as any other token signed with the secret
+const ENTRY_EDIT_AUDIENCE = "entry-edit";
+
+// Types
+export interface EntryEditClaims {
+  entryId: string;
+  topicId: string;
+}
+
+export interface EntryEditLink {
+  token: string;
+  // Site-relative URL of the edit page
+  path: string;
+  expiresAt: number;
+}
+
+export class EntryEditTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EntryEditTokenError";
+  }
+}
+
+// Helper Functions
+const getSecret = (): string | undefined => process.env.ENTRY_EDIT_SECRET;
+
+/**
+ * Whether participants get edit links; off until ENTRY_EDIT_SECRET is set
+ */
+export const isEntryEditEnabled = (): boolean => !!getSecret();
+
+export const getEntryEditPath = (topicId: string, token: string): string =>
+  `/submit/${encodeURIComponent(topicId)}/edit?token=${encodeURIComponent(token)}`;
+
+/**
+ * Sign a link that lets whoever holds it edit one entry until it expires
+ */
+export function createEntryEditLink({ entryId, topicId }: EntryEditClaims): EntryEditLink {
+  const secret = getSecret();
+  if (!secret) {
+    throw new Error("ENTRY_EDIT_SECRET is not set");
+  }
+
+  const token = jwt.sign({ topicId }, secret, {
+    subject: entryId,
+    audience: ENTRY_EDIT_AUDIENCE,
+    expiresIn: ENTRY_EDIT_TOKEN_TTL_SECONDS,
+  });
+  return {
+    token,
+    path: getEntryEditPath(topicId, token),
+    expiresAt: Date.now() + ENTRY_EDIT_TOKEN_TTL_SECONDS * 1000,
+  };
+}
+
+/**
+ * Check an edit token's signature and expiry
+ * @returns The entry and topic it grants editing
+ * @throws EntryEditTokenError with a message fit to show the participant
+ */
+export function verifyEntryEditToken(token: string): EntryEditClaims {
+  const secret = getSecret();
+  if (!secret) {
+    throw new EntryEditTokenError("Editing entries is not enabled");
+  }
+
+  try {
+    const payload = jwt.verify(token, secret, {
+      audience: ENTRY_EDIT_AUDIENCE,
+      algorithms: ["HS256"],
+    }) as jwt.JwtPayload;
+    if (!payload.sub || typeof payload.topicId !== "string") {
+      throw new EntryEditTokenError("This edit link is invalid");
+    }
+    return { entryId: payload.sub, topicId: payload.topicId };
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new EntryEditTokenError("This edit link has expired");
+    }
+    throw new EntryEditTokenError("This edit link is invalid");
+  }
+}
@@ -0,0 +1,164 @@
+import { format } from "date-fns";
+import { EntryStatus, ENTRY_STATUS_LABELS, getEntryStatus } from "./entryStatus";
+import { describeRiskReasons, EntryRisk, RISK_LEVEL_LABELS } from "./entryRisk";
+import { FormField } from "./formFields";
+
+// Topics with a custom form may leave any of the default fields out and
+// store their own fields under the field names
+export interface ExportableEntry {
+  topicName: string;
+  telegramUsername?: string;
+  platformUsername?: string;
+  walletAddress?: string;
+  discordUsername?: string;
+  email?: string;
+  status?: EntryStatus;
+  statusReason?: string | null;
+  risk?: EntryRisk;
+  receiptCode?: string;
+  createdAt: number;
+  [field: string]: unknown;
+}
+
+export interface EntryExportField {
+  // A form field's name, or one of the columns every entry has
+  key: string;
+  label: string;
+  value: (entry: ExportableEntry) => string;
+}
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "jsonl"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Format a submission timestamp the same way the admin tables display it
+ * @param createdAt Milliseconds since epoch
+ */
+export const formatSubmissionDate = (createdAt: number): string =>
+  format(createdAt, "MMM d, yyyy h:mm a");
+
+// Spreadsheet apps run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Make a CSV cell read as text: values a spreadsheet would run as a formula
+ * get a leading apostrophe
+ */
+export const escapeSpreadsheetCell = (value: string): string =>
+  FORMULA_PREFIX.test(value) ? `'${value}` : value;
+
+/**
+ * A submitted form value as shown in tables and exports
+ */
+export const formatFieldValue = (value: unknown): string => {
+  if (typeof value === "boolean") {
+    return value ? "Yes" : "No";
+  }
+  return typeof value === "string" ? value : "";
+};
+
+const TOPIC_NAME_FIELD: EntryExportField = {
+  key: "topicName",
+  label: "Topic Name",
+  value: (entry) => entry.topicName,
+};
+
+// Columns every entry has, whatever its topic's form
+const REVIEW_EXPORT_FIELDS: EntryExportField[] = [
+  {
+    key: "status",
+    label: "Status",
+    value: (entry) => ENTRY_STATUS_LABELS[getEntryStatus(entry)],
+  },
+  {
+    key: "statusReason",
+    label: "Review Reason",
+    value: (entry) => entry.statusReason || "",
+  },
+  {
+    key: "riskScore",
+    label: "Risk",
+    value: (entry) =>
+      entry.risk ? `${RISK_LEVEL_LABELS[entry.risk.level]} (${entry.risk.score})` : "",
+  },
+  {
+    key: "riskReasons",
+    label: "Risk Reasons",
+    value: (entry) => (entry.risk ? describeRiskReasons(entry.risk) : ""),
+  },
+  {
+    key: "receiptCode",
+    label: "Receipt Code",
+    value: (entry) => entry.receiptCode || "",
+  },
+  {
+    key: "createdAt",
+    label: "Submission Date",
+    value: (entry) => formatSubmissionDate(entry.createdAt),
+  },
+];
+
+// Columns for exports spanning topics, in their default order. Only the
+// default form's fields are listed, since each topic's form can differ.
+export const ENTRY_EXPORT_FIELDS: EntryExportField[] = [
+  TOPIC_NAME_FIELD,
+  {
+    key: "telegramUsername",
+    label: "Telegram Username",
+    value: (entry) => entry.telegramUsername || "",
+  },
+  {
+    key: "platformUsername",
+    label: "Platform Username",
+    value: (entry) => entry.platformUsername || "",
+  },
+  {
+    key: "walletAddress",
+    label: "Wallet Address",
+    value: (entry) => entry.walletAddress || "",
+  },
+  {
+    key: "discordUsername",
+    label: "Discord Username",
+    value: (entry) => entry.discordUsername || "",
+  },
+  { key: "email", label: "Email", value: (entry) => entry.email || "" },
+  ...REVIEW_EXPORT_FIELDS,
+];
+
+/**
+ * The columns available for one topic's entries: its form's fields in form
+ * order, between the topic name and the review columns
+ * @param formFields The topic's form; the cross-topic columns when omitted
+ */
+export function getEntryExportFields(formFields?: FormField[]): EntryExportField[] {
+  if (!formFields) {
+    return ENTRY_EXPORT_FIELDS;
+  }
+  return [
+    TOPIC_NAME_FIELD,
+    ...formFields.map((field) => ({
+      key: field.name,
+      label: field.label,
+      value: (entry: ExportableEntry) => formatFieldValue(entry[field.name]),
+    })),
+    ...REVIEW_EXPORT_FIELDS,
+  ];
+}
+
+/**
+ * Resolve requested column keys into export fields
+ * @param keys Requested column keys; all columns are returned when empty
+ * @param fields The columns available, from `getEntryExportFields`
+ * @returns The matching fields in their default order
+ */
+export function resolveExportFields(
+  keys: string[] | undefined,
+  fields: EntryExportField[] = ENTRY_EXPORT_FIELDS
+): EntryExportField[] {
+  if (!keys || keys.length === 0) {
+    return fields;
+  }
+  return fields.filter((field) => keys.includes(field.key));
+}
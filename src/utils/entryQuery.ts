@@ -0,0 +1,154 @@
+import { DocumentData, Query } from "firebase-admin/firestore";
+import { z } from "zod";
+import { firestoreDB } from "./firebaseAdmin";
+import { EntryStatusSchema } from "./entryStatus";
+import { RiskLevelSchema } from "./entryRisk";
+import { canonicalizeEmail } from "./canonical";
+import { optionalQueryParam } from "./request";
+import {
+  MIN_WALLET_PREFIX_LENGTH,
+  normalizeEmailDomainSearch,
+  normalizeHandleSearch,
+  normalizeWalletSearch,
+} from "./entrySearch";
+
+// Constants
+// Firestore caps `in` filters at 30 values
+const MAX_TOPIC_NAME_MATCHES = 30;
+
+// Most entries one bulk selection can hold
+export const MAX_ENTRY_SELECTION = 5000;
+
+// Validation Schemas
+const HandleSearchSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .transform(normalizeHandleSearch);
+
+export const EntryFiltersSchema = z.object({
+  topicId: optionalQueryParam(z.string()),
+  topicName: optionalQueryParam(z.string()),
+  status: optionalQueryParam(EntryStatusSchema),
+  risk: optionalQueryParam(RiskLevelSchema),
+  wallet: optionalQueryParam(
+    z
+      .string()
+      .trim()
+      .min(
+        MIN_WALLET_PREFIX_LENGTH,
+        `Wallet searches need at least ${MIN_WALLET_PREFIX_LENGTH} characters`
+      )
+      .transform(normalizeWalletSearch)
+  ),
+  // A full address, or a domain such as "example.com" or "@example.com"
+  email: optionalQueryParam(z.string().trim().min(1)),
+  telegram: optionalQueryParam(HandleSearchSchema),
+  discord: optionalQueryParam(HandleSearchSchema),
+  platform: optionalQueryParam(HandleSearchSchema),
+  // createdAt bounds in milliseconds, both inclusive
+  from: optionalQueryParam(z.coerce.number().int().nonnegative()),
+  to: optionalQueryParam(z.coerce.number().int().nonnegative()),
+});
+
+// Types
+export type EntryFilters = z.infer<typeof EntryFiltersSchema>;
+
+export class EntryFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EntryFilterError";
+  }
+}
+
+// Helper Functions
+/**
+ * Resolve a case-insensitive topic name search to matching topic ids,
+ * leaving out topics in the trash. The topics collection is small, so it is
+ * scanned instead of the entries.
+ */
+const findTopicIdsByName = async (topicName: string): Promise<string[]> => {
+  const search = topicName.toLowerCase();
+  const topicsSnapshot = await firestoreDB
+    .collection("topics")
+    .select("name", "deletedAt")
+    .get();
+  return topicsSnapshot.docs
+    .filter((doc) => !doc.get("deletedAt"))
+    .filter((doc) => ((doc.get("name") as string) || "").toLowerCase().includes(search))
+    .map((doc) => doc.id);
+};
+
+/**
+ * Query the entries matching the given filters. Entries of topics in the
+ * trash are always left out. Sorting is left to the caller.
+ * @returns The query, or null when no entry can match
+ * @throws EntryFilterError when the topic name matches too many topics
+ */
+export async function buildEntriesQuery(
+  filters: EntryFilters
+): Promise<Query<DocumentData> | null> {
+  let entriesQuery: Query<DocumentData> = firestoreDB
+    .collection("entries")
+    .where("topicDeletedAt", "==", null);
+
+  if (filters.status) {
+    entriesQuery = entriesQuery.where("status", "==", filters.status);
+  }
+  if (filters.risk) {
+    entriesQuery = entriesQuery.where("risk.level", "==", filters.risk);
+  }
+
+  // Field searches match the lowercased copies kept under `search`
+  if (filters.wallet) {
+    entriesQuery = entriesQuery.where(
+      "search.walletPrefixes",
+      "array-contains",
+      filters.wallet
+    );
+  }
+  if (filters.email) {
+    entriesQuery = filters.email.indexOf("@") > 0
+      ? entriesQuery.where("search.email", "==", canonicalizeEmail(filters.email))
+      : entriesQuery.where(
+          "search.emailDomain",
+          "==",
+          normalizeEmailDomainSearch(filters.email)
+        );
+  }
+  if (filters.telegram) {
+    entriesQuery = entriesQuery.where("search.telegram", "==", filters.telegram);
+  }
+  if (filters.discord) {
+    entriesQuery = entriesQuery.where("search.discord", "==", filters.discord);
+  }
+  if (filters.platform) {
+    entriesQuery = entriesQuery.where("search.platform", "==", filters.platform);
+  }
+
+  if (filters.from !== undefined) {
+    entriesQuery = entriesQuery.where("createdAt", ">=", filters.from);
+  }
+  if (filters.to !== undefined) {
+    entriesQuery = entriesQuery.where("createdAt", "<=", filters.to);
+  }
+
+  if (filters.topicId) {
+    return entriesQuery.where("topicId", "==", filters.topicId);
+  }
+
+  if (filters.topicName) {
+    const topicIds = await findTopicIdsByName(filters.topicName);
+    if (topicIds.length === 0) {
+      return null;
+    }
+    if (topicIds.length > MAX_TOPIC_NAME_MATCHES) {
+      throw new EntryFilterError(
+        "Topic name matches too many topics. Please refine your search"
+      );
+    }
+    entriesQuery = entriesQuery.where("topicId", "in", topicIds);
+  }
+
+  return entriesQuery;
+}
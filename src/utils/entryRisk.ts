@@ -0,0 +1,80 @@
+import { z } from "zod";
+
+// Constants
+export const RISK_LEVELS = ["low", "medium", "high"] as const;
+
+// Ways an entry can look like another participant's, or the same one's
+export const RISK_SIGNALS = [
+  "email_alias",
+  "email_sequence",
+  "similar_telegram",
+  "similar_platform",
+  "shared_ip",
+  "shared_device",
+  "burst",
+] as const;
+
+// Lowest score of each level above low
+const RISK_LEVEL_THRESHOLDS = { medium: 30, high: 60 };
+
+// Types
+export type RiskLevel = (typeof RISK_LEVELS)[number];
+
+export type RiskSignal = (typeof RISK_SIGNALS)[number];
+
+export interface RiskReason {
+  signal: RiskSignal;
+  // Other entries in the same topic that triggered the signal
+  relatedIds: string[];
+}
+
+export interface EntryRisk {
+  // 0 to 100
+  score: number;
+  level: RiskLevel;
+  reasons: RiskReason[];
+  scoredAt: number;
+}
+
+export const RISK_LEVEL_LABELS: Record<RiskLevel, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+};
+
+export const RISK_SIGNAL_LABELS: Record<RiskSignal, string> = {
+  email_alias: "Same inbox as another entry (plus-alias or dots)",
+  email_sequence: "Email differs from another entry only by a number",
+  similar_telegram: "Near-identical Telegram username",
+  similar_platform: "Near-identical platform username",
+  shared_ip: "Same IP address as another entry",
+  shared_device: "Same device as another entry",
+  burst: "Several entries from one IP or device within minutes",
+};
+
+// Validation Schemas
+export const RiskLevelSchema = z.enum(RISK_LEVELS);
+
+/**
+ * Level a risk score falls in
+ */
+export function getRiskLevel(score: number): RiskLevel {
+  if (score >= RISK_LEVEL_THRESHOLDS.high) {
+    return "high";
+  }
+  if (score >= RISK_LEVEL_THRESHOLDS.medium) {
+    return "medium";
+  }
+  return "low";
+}
+
+/**
+ * One line per reason, for tooltips and exports
+ */
+export const describeRiskReasons = (risk: EntryRisk): string =>
+  risk.reasons
+    .map(
+      ({ signal, relatedIds }) =>
+        `${RISK_SIGNAL_LABELS[signal]} (${relatedIds.length} related)`
+    )
+    .join("\n");
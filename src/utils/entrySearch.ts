@@ -0,0 +1,72 @@
+import { CanonicalFields, canonicalizeEmail, canonicalizeHandle } from "./canonical";
+
+// Constants
+// Shortest wallet prefix that can be searched: "0x" and four hex digits
+export const MIN_WALLET_PREFIX_LENGTH = 6;
+
+// Types
+// Lowercased copies of an entry's identifying fields, stored under `search`
+// so Firestore can filter and sort on them. Wallets are matched by prefix,
+// so every prefix is stored. Missing values are stored empty, since sorting
+// by a field leaves out documents that don't have it.
+export interface EntrySearchFields {
+  wallet: string;
+  walletPrefixes: string[];
+  email: string;
+  emailDomain: string;
+  telegram: string;
+  discord: string;
+  platform: string;
+}
+
+// Helper Functions
+const getEmailDomain = (email: string): string =>
+  email.slice(email.lastIndexOf("@") + 1);
+
+/**
+ * Search form of a wallet address or prefix
+ */
+export function normalizeWalletSearch(wallet: string): string {
+  return wallet.trim().toLowerCase();
+}
+
+/**
+ * Search form of a Telegram, Discord or platform handle; a leading @ is
+ * ignored
+ */
+export function normalizeHandleSearch(handle: string): string {
+  return canonicalizeHandle(handle).replace(/^@/, "");
+}
+
+/**
+ * Search form of an email domain, with Gmail's aliases folded together the
+ * same way canonical emails are
+ */
+export function normalizeEmailDomainSearch(domain: string): string {
+  return getEmailDomain(canonicalizeEmail(`x@${domain.trim().replace(/^@/, "")}`));
+}
+
+/**
+ * Build the search fields for an entry
+ * @param canonical The entry's canonical fields
+ * @returns Search values, empty for fields the entry doesn't have
+ */
+export function buildSearchFields(canonical: CanonicalFields): EntrySearchFields {
+  const wallet = canonical.walletAddress
+    ? normalizeWalletSearch(canonical.walletAddress)
+    : "";
+  const walletPrefixes: string[] = [];
+  for (let length = MIN_WALLET_PREFIX_LENGTH; length <= wallet.length; length++) {
+    walletPrefixes.push(wallet.slice(0, length));
+  }
+
+  return {
+    wallet,
+    walletPrefixes,
+    email: canonical.email || "",
+    emailDomain: canonical.email ? getEmailDomain(canonical.email) : "",
+    telegram: normalizeHandleSearch(canonical.telegramUsername || ""),
+    discord: normalizeHandleSearch(canonical.discordUsername || ""),
+    platform: normalizeHandleSearch(canonical.platformUsername || ""),
+  };
+}
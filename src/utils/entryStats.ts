@@ -0,0 +1,449 @@
+import {
+  DocumentData,
+  DocumentReference,
+  FieldValue,
+  Transaction,
+  WriteBatch,
+} from "firebase-admin/firestore";
+import { z } from "zod";
+import { firestoreDB } from "./firebaseAdmin";
+import { optionalQueryParam } from "./request";
+import { CanonicalFields, CanonicalSource, canonicalizeEntry } from "./canonical";
+import { buildSearchFields, EntrySearchFields } from "./entrySearch";
+import {
+  addDays,
+  countDays,
+  DEFAULT_RANGE_DAYS,
+  getStatsBuckets,
+  MAX_RANGE_DAYS,
+  STATS_GRANULARITIES,
+  StatsReport,
+  TopicStatsReport,
+} from "./statsReport";
+
+// Constants
+// Per-topic totals are split over shards at topicStats/{topicId}/shards/{n},
+// and each UTC day's hourly counts over topicStats/{topicId}/days/{date}_{n},
+// so concurrent submissions rarely write the same document. Counters from
+// before sharding, on topicStats/{topicId} and days/{date}, are still summed.
+export const TOPIC_STATS_COLLECTION = "topicStats";
+export const STATS_SHARDS_COLLECTION = "shards";
+export const STATS_DAYS_COLLECTION = "days";
+export const STATS_SHARD_COUNT = 10;
+
+// Entries per wallet, per topic under topicStats/{topicId}/wallets and across
+// all topics here. A wallet is unique while its count is above zero.
+export const STATS_WALLETS_COLLECTION = "wallets";
+export const WALLET_STATS_COLLECTION = "walletStats";
+
+// Most writes counting one entry takes, for sizing batches
+export const MAX_STATS_WRITES = 4;
+
+// Firestore allows at most 500 writes in one batch
+const BATCH_SIZE = 500;
+
+// Types
+// What the counters need from an entry; legacy entries may lack the
+// canonical and search copies, which are then derived
+export interface EntryStatsSource extends CanonicalSource {
+  topicId: string;
+  createdAt: number;
+  canonical?: CanonicalFields;
+  search?: EntrySearchFields;
+}
+
+export interface TopicStatsCounters {
+  total: number;
+  wallets: number;
+  withDiscord: number;
+  emailDomains: Record<string, number>;
+}
+
+export interface StatsDayCounters {
+  date: string;
+  total: number;
+  hours: Record<string, number>;
+}
+
+interface StatsWrite {
+  ref: DocumentReference;
+  data: DocumentData;
+}
+
+// Validation Schema
+const StatsDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD")
+  // Date.parse rolls days like Feb 30 over instead of rejecting them
+  .refine(
+    (value) => !isNaN(Date.parse(value)) && toDayBucket(Date.parse(value)) === value,
+    "Invalid date"
+  );
+
+// Ranges default to the most recent days, ending today
+export const StatsQuerySchema = z
+  .object({
+    topicId: optionalQueryParam(z.string()),
+    // Blank counts as missing, so it takes the default too
+    granularity: z.preprocess(
+      (value) => (value === "" ? undefined : value),
+      z.enum(STATS_GRANULARITIES).default("day")
+    ),
+    from: optionalQueryParam(StatsDateSchema),
+    to: optionalQueryParam(StatsDateSchema),
+  })
+  .transform(({ from, to, granularity, ...rest }) => {
+    const end = to || toDayBucket(Date.now());
+    return {
+      ...rest,
+      granularity,
+      from: from || addDays(end, 1 - DEFAULT_RANGE_DAYS[granularity]),
+      to: end,
+    };
+  })
+  .refine(({ from, to }) => from <= to, {
+    message: "The start date must not be after the end date",
+    path: ["from"],
+  })
+  .refine(
+    ({ from, to, granularity }) => countDays(from, to) <= MAX_RANGE_DAYS[granularity],
+    ({ granularity }) => ({
+      message: `Ranges can span at most ${MAX_RANGE_DAYS[granularity]} days at this granularity`,
+      path: ["from"],
+    })
+  );
+
+export type StatsQuery = z.infer<typeof StatsQuerySchema>;
+
+// Helper Functions
+/**
+ * UTC day bucket of a timestamp, as YYYY-MM-DD
+ */
+export const toDayBucket = (timestamp: number): string =>
+  new Date(timestamp).toISOString().slice(0, 10);
+
+/**
+ * UTC hour of a timestamp within its day bucket, as 00 to 23
+ */
+export const toHourKey = (timestamp: number): string =>
+  new Date(timestamp).toISOString().slice(11, 13);
+
+/**
+ * One shard of a topic's totals
+ */
+export const getTopicStatsShardRef = (topicId: string, shard: number): DocumentReference =>
+  firestoreDB
+    .collection(TOPIC_STATS_COLLECTION)
+    .doc(topicId)
+    .collection(STATS_SHARDS_COLLECTION)
+    .doc(String(shard));
+
+/**
+ * One shard of a topic's counts for a UTC day
+ */
+export const getStatsDayRef = (
+  topicId: string,
+  date: string,
+  shard: number
+): DocumentReference =>
+  firestoreDB
+    .collection(TOPIC_STATS_COLLECTION)
+    .doc(topicId)
+    .collection(STATS_DAYS_COLLECTION)
+    .doc(`${date}_${shard}`);
+
+const pickShard = (): number => Math.floor(Math.random() * STATS_SHARD_COUNT);
+
+/**
+ * The lowercased wallet, email domain and Discord handle an entry is counted by
+ */
+export function getEntryStatsFields(entry: EntryStatsSource): EntrySearchFields {
+  if (entry.search) {
+    return entry.search;
+  }
+  return buildSearchFields(entry.canonical || canonicalizeEntry(entry));
+}
+
+// Counter changes for one document, by field path, next to the plain
+// fields written with them
+interface StatsDocChange {
+  ref: DocumentReference;
+  fields: DocumentData;
+  counts: Map<string, { path: string[]; value: number }>;
+}
+
+const addCount = (
+  changes: Map<string, StatsDocChange>,
+  ref: DocumentReference,
+  fields: DocumentData,
+  path: string[],
+  value: number
+) => {
+  const change = changes.get(ref.path) || { ref, fields, counts: new Map() };
+  // Paths are joined with a character no segment contains; email domains
+  // contain dots, so they can't be used as Firestore field paths
+  const key = path.join("\u0000");
+  const count = change.counts.get(key) || { path, value: 0 };
+  change.counts.set(key, { path, value: count.value + value });
+  changes.set(ref.path, change);
+};
+
+const addEntryCounts = (
+  changes: Map<string, StatsDocChange>,
+  entry: EntryStatsSource,
+  delta: 1 | -1,
+  shard: number
+) => {
+  const { wallet, emailDomain, discord } = getEntryStatsFields(entry);
+  const shardRef = getTopicStatsShardRef(entry.topicId, shard);
+  const walletsCollection = firestoreDB
+    .collection(TOPIC_STATS_COLLECTION)
+    .doc(entry.topicId)
+    .collection(STATS_WALLETS_COLLECTION);
+  const topicFields = { topicId: entry.topicId, updatedAt: Date.now() };
+  const date = toDayBucket(entry.createdAt);
+  const dayRef = getStatsDayRef(entry.topicId, date, shard);
+
+  addCount(changes, shardRef, topicFields, ["total"], delta);
+  if (wallet) {
+    addCount(changes, shardRef, topicFields, ["wallets"], delta);
+    addCount(
+      changes,
+      walletsCollection.doc(wallet),
+      {},
+      ["count"],
+      delta
+    );
+    addCount(
+      changes,
+      firestoreDB.collection(WALLET_STATS_COLLECTION).doc(wallet),
+      {},
+      ["count"],
+      delta
+    );
+  }
+  if (discord) {
+    addCount(changes, shardRef, topicFields, ["withDiscord"], delta);
+  }
+  if (emailDomain) {
+    addCount(changes, shardRef, topicFields, ["emailDomains", emailDomain], delta);
+  }
+  addCount(changes, dayRef, { date }, ["total"], delta);
+  addCount(changes, dayRef, { date }, ["hours", toHourKey(entry.createdAt)], delta);
+};
+
+// One merge write per document, leaving out counts that cancel out
+const toStatsWrites = (changes: Map<string, StatsDocChange>): StatsWrite[] =>
+  Array.from(changes.values()).flatMap(({ ref, fields, counts }) => {
+    const data: DocumentData = { ...fields };
+    let hasCounts = false;
+    counts.forEach(({ path, value }) => {
+      if (value === 0) {
+        return;
+      }
+      hasCounts = true;
+      let target = data;
+      path.slice(0, -1).forEach((segment) => {
+        target[segment] = target[segment] || {};
+        target = target[segment];
+      });
+      target[path[path.length - 1]] = FieldValue.increment(value);
+    });
+    return hasCounts ? [{ ref, data }] : [];
+  });
+
+const buildStatsWrites = (entry: EntryStatsSource, delta: 1 | -1): StatsWrite[] => {
+  const changes = new Map<string, StatsDocChange>();
+  addEntryCounts(changes, entry, delta, pickShard());
+  return toStatsWrites(changes);
+};
+
+/**
+ * Count an entry in, or out of, the stats counters as part of a transaction.
+ * Counters are only incremented, so no reads are needed and this can go
+ * anywhere after the transaction's reads.
+ * @param delta 1 when the entry is written, -1 when it is deleted
+ */
+export function recordEntryStatsInTransaction(
+  transaction: Transaction,
+  entry: EntryStatsSource,
+  delta: 1 | -1
+): void {
+  buildStatsWrites(entry, delta).forEach(({ ref, data }) =>
+    transaction.set(ref, data, { merge: true })
+  );
+}
+
+/**
+ * Move an edited entry's counts from its old values to its new ones as part
+ * of a transaction. Both sides use one shard, so only the counters that
+ * change are written.
+ */
+export function recordEntryStatsChangeInTransaction(
+  transaction: Transaction,
+  before: EntryStatsSource,
+  after: EntryStatsSource
+): void {
+  const changes = new Map<string, StatsDocChange>();
+  const shard = pickShard();
+  addEntryCounts(changes, before, -1, shard);
+  addEntryCounts(changes, after, 1, shard);
+  toStatsWrites(changes).forEach(({ ref, data }) =>
+    transaction.set(ref, data, { merge: true })
+  );
+}
+
+/**
+ * Count an entry in, or out of, the stats counters as part of a batch
+ * @param delta 1 when the entry is written, -1 when it is deleted
+ */
+export function recordEntryStatsInBatch(
+  batch: WriteBatch,
+  entry: EntryStatsSource,
+  delta: 1 | -1
+): void {
+  buildStatsWrites(entry, delta).forEach(({ ref, data }) =>
+    batch.set(ref, data, { merge: true })
+  );
+}
+
+/**
+ * Remove a purged topic's counters, taking its wallets out of the cross-topic
+ * unique wallet counts first
+ */
+export async function deleteTopicStats(topicId: string): Promise<void> {
+  const topicRef = firestoreDB.collection(TOPIC_STATS_COLLECTION).doc(topicId);
+  const walletsSnapshot = await topicRef
+    .collection(STATS_WALLETS_COLLECTION)
+    .where("count", ">", 0)
+    .get();
+
+  for (let i = 0; i < walletsSnapshot.docs.length; i += BATCH_SIZE) {
+    const batch = firestoreDB.batch();
+    walletsSnapshot.docs.slice(i, i + BATCH_SIZE).forEach((doc) => {
+      batch.set(
+        firestoreDB.collection(WALLET_STATS_COLLECTION).doc(doc.id),
+        { count: FieldValue.increment(-(doc.get("count") as number)) },
+        { merge: true }
+      );
+    });
+    await batch.commit();
+  }
+
+  await firestoreDB.recursiveDelete(topicRef);
+}
+
+/**
+ * Add up a topic's counter shards, along with its counters from before
+ * sharding
+ */
+const sumTopicCounters = (docs: DocumentData[]): TopicStatsCounters =>
+  docs.reduce<TopicStatsCounters>(
+    (sum, doc) => {
+      const counters = doc as Partial<TopicStatsCounters>;
+      Object.entries(counters.emailDomains || {}).forEach(([domain, count]) => {
+        sum.emailDomains[domain] = (sum.emailDomains[domain] || 0) + count;
+      });
+      return {
+        total: sum.total + (counters.total || 0),
+        wallets: sum.wallets + (counters.wallets || 0),
+        withDiscord: sum.withDiscord + (counters.withDiscord || 0),
+        emailDomains: sum.emailDomains,
+      };
+    },
+    { total: 0, wallets: 0, withDiscord: 0, emailDomains: {} }
+  );
+
+/**
+ * Read the counters of every topic outside the trash, or of one topic
+ * @returns The report, or null if the requested topic doesn't exist
+ */
+export async function getStatsReport(query: StatsQuery): Promise<StatsReport | null> {
+  const topicsSnapshot = await firestoreDB
+    .collection("topics")
+    .select("name", "deletedAt")
+    .get();
+  const topics = topicsSnapshot.docs.filter(
+    (doc) => !doc.get("deletedAt") && (!query.topicId || doc.id === query.topicId)
+  );
+  if (query.topicId && topics.length === 0) {
+    return null;
+  }
+
+  const buckets = getStatsBuckets(query.granularity, query.from, query.to);
+  const bucketIndexes = new Map(buckets.map((bucket, i) => [bucket, i]));
+
+  const reports = await Promise.all(
+    topics.map(async (topic): Promise<TopicStatsReport> => {
+      const statsRef = firestoreDB.collection(TOPIC_STATS_COLLECTION).doc(topic.id);
+      const [legacyDoc, shardsSnapshot, daysSnapshot, uniqueSnapshot] = await Promise.all([
+        statsRef.get(),
+        statsRef.collection(STATS_SHARDS_COLLECTION).get(),
+        statsRef
+          .collection(STATS_DAYS_COLLECTION)
+          .where("date", ">=", query.from)
+          .where("date", "<=", query.to)
+          .get(),
+        statsRef
+          .collection(STATS_WALLETS_COLLECTION)
+          .where("count", ">", 0)
+          .count()
+          .get(),
+      ]);
+
+      // A day's shards each hold part of its counts
+      const series: number[] = new Array(buckets.length).fill(0);
+      daysSnapshot.docs.forEach((doc) => {
+        const day = doc.data() as StatsDayCounters;
+        if (query.granularity === "day") {
+          series[bucketIndexes.get(day.date)!] += day.total || 0;
+          return;
+        }
+        Object.entries(day.hours || {}).forEach(([hour, count]) => {
+          const index = bucketIndexes.get(`${day.date}T${hour}`);
+          if (index !== undefined) {
+            series[index] += count;
+          }
+        });
+      });
+
+      const counters = sumTopicCounters([
+        legacyDoc.data() || {},
+        ...shardsSnapshot.docs.map((doc) => doc.data()),
+      ]);
+      return {
+        topicId: topic.id,
+        topicName: (topic.get("name") as string) || "",
+        total: counters.total,
+        wallets: counters.wallets,
+        uniqueWallets: uniqueSnapshot.data().count,
+        withDiscord: counters.withDiscord,
+        emailDomains: Object.entries(counters.emailDomains)
+          .filter(([, count]) => count > 0)
+          .map(([domain, count]) => ({ domain, count }))
+          .sort((a, b) => b.count - a.count),
+        series,
+      };
+    })
+  );
+
+  // A wallet can enter several topics, so the overall count has its own tally
+  const uniqueWallets = query.topicId
+    ? reports[0].uniqueWallets
+    : (
+        await firestoreDB
+          .collection(WALLET_STATS_COLLECTION)
+          .where("count", ">", 0)
+          .count()
+          .get()
+      ).data().count;
+
+  return {
+    granularity: query.granularity,
+    from: query.from,
+    to: query.to,
+    buckets,
+    uniqueWallets,
+    topics: reports.sort((a, b) => a.topicName.localeCompare(b.topicName)),
+  };
+}
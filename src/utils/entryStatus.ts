@@ -0,0 +1,112 @@
+import { z } from "zod";
+
+// Constants
+export const ENTRY_STATUSES = [
+  "pending",
+  "approved",
+  "rejected",
+  "flagged",
+] as const;
+
+// New entries wait for review; entries from before reviews existed count as
+// pending too
+export const DEFAULT_ENTRY_STATUS = "pending";
+
+// Rejecting or flagging an entry has to say why
+export const STATUSES_REQUIRING_REASON: EntryStatus[] = ["rejected", "flagged"];
+
+// Types
+export type EntryStatus = (typeof ENTRY_STATUSES)[number];
+
+export interface EntryReview {
+  status: EntryStatus;
+  statusReason: string | null;
+  // Email (or username for the password login) of the admin who reviewed it
+  reviewedBy: string | null;
+  reviewedAt: number | null;
+}
+
+export const ENTRY_STATUS_LABELS: Record<EntryStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+  flagged: "Flagged",
+};
+
+// What participants are told about their entry on /status
+export type ParticipantEntryStatus = Exclude<EntryStatus, "flagged">;
+
+export const PARTICIPANT_STATUS_LABELS: Record<ParticipantEntryStatus, string> = {
+  pending: "Waiting for review",
+  approved: "Approved",
+  rejected: "Not accepted",
+};
+
+// Validation Schemas
+export const EntryStatusSchema = z.enum(ENTRY_STATUSES);
+
+// A review as submitted by an admin; see hasRequiredReason
+export const EntryReviewInputSchema = z.object({
+  status: EntryStatusSchema,
+  reason: z.string().trim().max(500, "Reason is too long").optional(),
+});
+
+export type EntryReviewInput = z.infer<typeof EntryReviewInputSchema>;
+
+// Rejected and flagged entries are kept as evidence, with the reason why
+export const hasRequiredReason = ({ status, reason }: EntryReviewInput): boolean =>
+  !STATUSES_REQUIRING_REASON.includes(status) || !!reason;
+
+export const getEntryStatus = (entry: { status?: EntryStatus }): EntryStatus =>
+  entry.status || DEFAULT_ENTRY_STATUS;
+
+// What a freshly submitted entry starts with
+export const UNREVIEWED_ENTRY: EntryReview = {
+  status: DEFAULT_ENTRY_STATUS,
+  statusReason: null,
+  reviewedBy: null,
+  reviewedAt: null,
+};
+
+/**
+ * Whether a participant's edit sends an entry back for review. Only
+ * approvals are reset; rejected and flagged entries keep their review as
+ * evidence, and pending ones are still waiting.
+ */
+export const isReviewResetByEdit = (entry: { status?: EntryStatus }): boolean =>
+  getEntryStatus(entry) === "approved";
+
+/**
+ * The review fields an entry holds
+ */
+export const getEntryReview = (entry: Partial<EntryReview>): EntryReview => ({
+  status: getEntryStatus(entry),
+  statusReason: entry.statusReason ?? null,
+  reviewedBy: entry.reviewedBy ?? null,
+  reviewedAt: entry.reviewedAt ?? null,
+});
+
+/**
+ * Build the review fields stored on an entry
+ * @param reviewedBy Email or uid of the reviewing admin
+ */
+export const createEntryReview = (
+  { status, reason }: EntryReviewInput,
+  reviewedBy: string | null
+): EntryReview => ({
+  status,
+  statusReason: reason || null,
+  reviewedBy,
+  reviewedAt: Date.now(),
+});
+
+/**
+ * An entry's status as shown to the participant. Flagged entries are still
+ * being looked into, so they read as waiting for review.
+ */
+export const getParticipantStatus = (entry: {
+  status?: EntryStatus;
+}): ParticipantEntryStatus => {
+  const status = getEntryStatus(entry);
+  return status === "flagged" ? "pending" : status;
+};
@@ -0,0 +1,349 @@
+import { z } from "zod";
+import { isAddress } from "viem";
+
+// Constants
+export const FIELD_TYPES = [
+  "text",
+  "email",
+  "evmAddress",
+  "solanaAddress",
+  "url",
+  "select",
+  "checkbox",
+] as const;
+
+// Entry properties that are set by the server, and the submit and edit
+// request keys sent alongside the answers, which can't be used as field names
+export const RESERVED_FIELD_NAMES = [
+  "id",
+  "topicId",
+  "topicName",
+  "createdAt",
+  "updatedAt",
+  "canonical",
+  "walletVerified",
+  "usernameChecks",
+  "search",
+  "status",
+  "statusReason",
+  "reviewedBy",
+  "reviewedAt",
+  "risk",
+  "riskFingerprints",
+  "receiptCode",
+  "topicDeletedAt",
+  "walletProof",
+  "deviceId",
+  "sendEditLink",
+  "editToken",
+];
+
+const MAX_FORM_FIELDS = 30;
+
+// The default field names are canonicalized and deduplicated as their
+// default types, so a custom form can only use them with those types
+const DEFAULT_FIELD_TYPES = new Map<string, FieldType>([
+  ["walletAddress", "evmAddress"],
+  ["email", "email"],
+  ["telegramUsername", "text"],
+  ["platformUsername", "text"],
+  ["discordUsername", "text"],
+]);
+
+// Base58 without 0, O, I and l; Solana public keys encode to 32-44 characters
+const SOLANA_ADDRESS_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+// Types
+export type FieldType = (typeof FIELD_TYPES)[number];
+
+export type FieldValue = string | boolean;
+
+export const FIELD_TYPE_LABELS: Record<FieldType, string> = {
+  text: "Text",
+  email: "Email",
+  evmAddress: "EVM Address",
+  solanaAddress: "Solana Address",
+  url: "URL",
+  select: "Select",
+  checkbox: "Checkbox",
+};
+
+export interface FormField {
+  name: string;
+  label: string;
+  type: FieldType;
+  required: boolean;
+  placeholder?: string;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  patternMessage?: string;
+  options?: string[];
+}
+
+// The form every topic used before forms became configurable
+export const DEFAULT_FORM_FIELDS: FormField[] = [
+  {
+    name: "telegramUsername",
+    label: "Telegram Username",
+    type: "text",
+    required: true,
+    placeholder: "@username",
+    maxLength: 32,
+    pattern: "^@[a-zA-Z0-9_]+$",
+    patternMessage:
+      "Telegram username must start with '@' and can only contain letters, numbers, and underscores after the '@'",
+  },
+  {
+    name: "platformUsername",
+    label: "Platform Username",
+    type: "text",
+    required: true,
+    placeholder: "username",
+    minLength: 3,
+    maxLength: 20,
+    pattern: "^[a-zA-Z_.][a-zA-Z0-9_.]*$",
+    patternMessage:
+      "Platform username must start with a letter and contain only letters, numbers, underscores, and dots",
+  },
+  {
+    name: "walletAddress",
+    label: "Wallet Address",
+    type: "evmAddress",
+    required: true,
+    placeholder: "0x1234...1234",
+  },
+  {
+    name: "discordUsername",
+    label: "Discord Username",
+    type: "text",
+    required: false,
+    placeholder: "username#1234",
+    maxLength: 32,
+    pattern: "^[a-zA-Z0-9_#]+$",
+    patternMessage:
+      "Discord username can only contain letters, numbers, underscores, and #",
+  },
+  {
+    name: "email",
+    label: "Email Address",
+    type: "email",
+    required: true,
+    placeholder: "your@email.com",
+    maxLength: 254,
+  },
+];
+
+const isValidRegex = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Validation Schemas for field definitions supplied by admins
+export const FormFieldSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, "Field name is required")
+      .max(50, "Field name is too long")
+      .regex(
+        /^[a-zA-Z][a-zA-Z0-9_]*$/,
+        "Field name must start with a letter and contain only letters, numbers, and underscores"
+      )
+      .refine(
+        (name) => !RESERVED_FIELD_NAMES.includes(name),
+        "Field name is reserved"
+      ),
+    label: z
+      .string()
+      .min(1, "Field label is required")
+      .max(100, "Field label is too long"),
+    type: z.enum(FIELD_TYPES),
+    required: z.boolean(),
+    placeholder: z.string().max(100, "Placeholder is too long").optional(),
+    minLength: z.number().int().nonnegative().optional(),
+    maxLength: z.number().int().positive().optional(),
+    pattern: z
+      .string()
+      .max(500, "Pattern is too long")
+      .refine(isValidRegex, "Pattern is not a valid regular expression")
+      .optional(),
+    patternMessage: z.string().max(200, "Pattern message is too long").optional(),
+    options: z
+      .array(z.string().min(1, "Options can't be empty").max(100))
+      .max(50, "Too many options")
+      .optional(),
+  })
+  .refine(
+    (field) =>
+      !DEFAULT_FIELD_TYPES.has(field.name) ||
+      DEFAULT_FIELD_TYPES.get(field.name) === field.type,
+    (field) => ({
+      message: `The ${field.name} field must have the ${
+        FIELD_TYPE_LABELS[DEFAULT_FIELD_TYPES.get(field.name) || "text"]
+      } type`,
+      path: ["type"],
+    })
+  )
+  .refine(
+    (field) =>
+      field.type !== "select" || (field.options && field.options.length > 0),
+    { message: "Select fields need at least one option", path: ["options"] }
+  )
+  .refine(
+    (field) =>
+      field.minLength === undefined ||
+      field.maxLength === undefined ||
+      field.minLength <= field.maxLength,
+    { message: "Minimum length can't exceed maximum length", path: ["minLength"] }
+  );
+
+export const FormFieldsSchema = z
+  .array(FormFieldSchema)
+  .min(1, "At least one field is required")
+  .max(MAX_FORM_FIELDS, "Too many fields")
+  .refine(
+    (fields) => new Set(fields.map((field) => field.name)).size === fields.length,
+    "Field names must be unique"
+  );
+
+/**
+ * The fields a topic's form asks for; topics created before forms were
+ * configurable use the default template
+ */
+export function getTopicFormFields(topic?: {
+  formFields?: FormField[];
+}): FormField[] {
+  return topic?.formFields && topic.formFields.length > 0
+    ? topic.formFields
+    : DEFAULT_FORM_FIELDS;
+}
+
+/**
+ * The address field a wallet signature proves ownership of: the
+ * `walletAddress` field when the form has one, otherwise its first EVM
+ * address field
+ */
+export function getWalletField(fields: FormField[]): FormField | undefined {
+  const evmFields = fields.filter((field) => field.type === "evmAddress");
+  return (
+    evmFields.find((field) => field.name === "walletAddress") || evmFields[0]
+  );
+}
+
+/**
+ * Build the Zod validator for a single field's submitted value
+ */
+export function buildFieldSchema(field: FormField): z.ZodTypeAny {
+  if (field.type === "checkbox") {
+    return field.required
+      ? z.literal(true, {
+          errorMap: () => ({ message: `${field.label} must be checked` }),
+        })
+      : z.boolean().optional();
+  }
+
+  let schema = z.string({
+    required_error: `${field.label} is required`,
+    invalid_type_error: `${field.label} must be text`,
+  });
+
+  if (field.required) {
+    schema = schema.min(1, `${field.label} is required`);
+  }
+  if (field.minLength) {
+    schema = schema.min(
+      field.minLength,
+      `${field.label} must be at least ${field.minLength} characters`
+    );
+  }
+  if (field.maxLength) {
+    schema = schema.max(field.maxLength, `${field.label} is too long`);
+  }
+  if (field.pattern) {
+    schema = schema.regex(
+      new RegExp(field.pattern),
+      field.patternMessage || `${field.label} is invalid`
+    );
+  }
+
+  let typedSchema: z.ZodTypeAny = schema;
+  switch (field.type) {
+    case "email":
+      typedSchema = schema.email("Invalid email address");
+      break;
+    case "url":
+      typedSchema = schema.url("Invalid URL");
+      break;
+    case "solanaAddress":
+      typedSchema = schema.regex(SOLANA_ADDRESS_REGEX, "Invalid Solana address");
+      break;
+    case "evmAddress":
+      typedSchema = schema.refine(
+        (address) => isAddress(address),
+        "Invalid Ethereum wallet address"
+      );
+      break;
+    case "select":
+      typedSchema = schema.refine(
+        (value) => (field.options || []).includes(value),
+        `${field.label} must be one of the listed options`
+      );
+      break;
+  }
+
+  if (field.required) {
+    return typedSchema;
+  }
+
+  // Optional fields may be left blank without tripping the other rules
+  return z
+    .string({ invalid_type_error: `${field.label} must be text` })
+    .optional()
+    .superRefine((value, ctx) => {
+      if (!value) {
+        return;
+      }
+      const result = typedSchema.safeParse(value);
+      if (!result.success) {
+        result.error.errors.forEach((issue) => {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message });
+        });
+      }
+    });
+}
+
+/**
+ * Build the validator for a whole submission. Keys not in the form are
+ * stripped, so a client can't write arbitrary properties onto an entry.
+ */
+export function buildEntryValidator(fields: FormField[]) {
+  return z
+    .object(
+      Object.fromEntries(
+        fields.map((field) => [field.name, buildFieldSchema(field)])
+      )
+    )
+    .transform((values) =>
+      // Firestore rejects undefined, so skipped optional fields are dropped
+      Object.fromEntries(
+        Object.entries(values).filter(([, value]) => value !== undefined)
+      ) as Record<string, FieldValue>
+    );
+}
+
+/**
+ * Validate one field's value the same way the server will
+ * @returns The first error message, or null if the value is valid
+ */
+export function validateFieldValue(
+  field: FormField,
+  value: FieldValue | undefined
+): string | null {
+  const result = buildFieldSchema(field).safeParse(value);
+  return result.success ? null : result.error.errors[0]?.message || "Invalid value";
+}
@@ -0,0 +1,91 @@
+import type { NextApiResponse } from "next";
+import { firestoreDB } from "./firebaseAdmin";
+
+// Constants
+// Failed sign-ins per account live at loginAttempts/{account}
+export const LOGIN_ATTEMPTS_COLLECTION = "loginAttempts";
+// Failures allowed before the first lockout
+const FREE_FAILURES = 5;
+// Each failure past the free ones doubles the lockout, up to the maximum
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+// A quiet day wipes the slate clean
+const FAILURE_RESET_MS = 24 * 60 * 60 * 1000;
+
+// Types
+interface LoginAttempts {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil: number | null;
+}
+
+// Helper Functions
+const getAttemptsRef = (account: string) =>
+  firestoreDB
+    .collection(LOGIN_ATTEMPTS_COLLECTION)
+    .doc(encodeURIComponent(account.toLowerCase()));
+
+const getLockoutMs = (failures: number): number =>
+  failures < FREE_FAILURES
+    ? 0
+    : Math.min(BASE_LOCKOUT_MS * 2 ** (failures - FREE_FAILURES), MAX_LOCKOUT_MS);
+
+/**
+ * Milliseconds until the account may try to sign in again, 0 if it isn't
+ * locked
+ */
+export async function getLockoutRemaining(account: string): Promise<number> {
+  const attempts = (await getAttemptsRef(account).get()).data() as
+    | LoginAttempts
+    | undefined;
+  return Math.max(0, (attempts?.lockedUntil || 0) - Date.now());
+}
+
+/**
+ * Count a failed password or two-factor attempt against the account
+ * @returns How long the account is now locked for, 0 if it isn't
+ */
+export async function recordLoginFailure(account: string): Promise<number> {
+  const attemptsRef = getAttemptsRef(account);
+
+  return firestoreDB.runTransaction(async (transaction) => {
+    const now = Date.now();
+    const previous = (await transaction.get(attemptsRef)).data() as
+      | LoginAttempts
+      | undefined;
+    const failures =
+      previous && now - previous.lastFailureAt < FAILURE_RESET_MS
+        ? previous.failures + 1
+        : 1;
+    const lockoutMs = getLockoutMs(failures);
+
+    const attempts: LoginAttempts = {
+      failures,
+      lastFailureAt: now,
+      lockedUntil: lockoutMs ? now + lockoutMs : null,
+    };
+    transaction.set(attemptsRef, attempts);
+    return lockoutMs;
+  });
+}
+
+/**
+ * Forget failed attempts once the account has fully signed in
+ */
+export async function clearLoginFailures(account: string): Promise<void> {
+  await getAttemptsRef(account).delete();
+}
+
+/**
+ * Respond 429 with Retry-After for a locked account
+ */
+export function sendLockedOut(res: NextApiResponse, lockoutMs: number): void {
+  const minutes = Math.ceil(lockoutMs / 60000);
+  res.setHeader("Retry-After", Math.ceil(lockoutMs / 1000));
+  res.status(429).json({
+    message: "Login failed",
+    error: `Too many failed sign-in attempts. Try again in ${minutes} minute${
+      minutes === 1 ? "" : "s"
+    }.`,
+  });
+}
@@ -0,0 +1,43 @@
+// Types
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export type Mailer = (message: MailMessage) => Promise<void>;
+
+// No mail provider ships; deployments register one with registerMailer
+let mailer: Mailer | null = null;
+
+/**
+ * Use a mailer for outgoing email, replacing any registered before.
+ * Pass null to stop sending email.
+ */
+export function registerMailer(next: Mailer | null): void {
+  mailer = next;
+}
+
+export const isMailerConfigured = (): boolean => mailer !== null;
+
+/**
+ * Send an email through the registered mailer
+ * @throws if no mailer is registered or the mailer fails
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  if (!mailer) {
+    throw new Error("No mailer is registered");
+  }
+  await mailer(message);
+}
+
+/**
+ * A mailer that writes each message to the server log, for development
+ */
+export const createLogMailer = (): Mailer => async (message) => {
+  console.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+};
+
+if (process.env.MAIL_STUB === "log") {
+  registerMailer(createLogMailer());
+}
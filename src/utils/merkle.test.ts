@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import {
+  buildMerkleTree,
+  canonicalizeAddresses,
+  getMerkleProof,
+  verifyMerkleProof,
+} from "./merkle";
+
+const ADDRESSES = [
+  "0x1111111111111111111111111111111111111111",
+  "0x2222222222222222222222222222222222222222",
+  "0x3333333333333333333333333333333333333333",
+];
+
+// Enough leaves that the tree isn't complete, so uneven levels are covered
+const MANY_ADDRESSES = Array.from(
+  { length: 11 },
+  (_, i) => `0x${(i + 1).toString(16).padStart(40, "0")}`
+);
+
+describe("buildMerkleTree", () => {
+  it("matches a StandardMerkleTree vector", () => {
+    const tree = buildMerkleTree(ADDRESSES);
+    assert.equal(
+      tree.root,
+      "0xae6afff7b7c4d883d5efd44afa0b98e80317697e8984b4c2de7c54b49c1c4dd4"
+    );
+    assert.deepEqual(getMerkleProof(tree, ADDRESSES[0])?.proof, [
+      "0x708e7cb9a75ffb24191120fba1c3001faa9078147150c6f2747569edbadee751",
+      "0xbd164a4590db938a0b098da1b25cf37b155f857b38c37c016ad5b8f8fce80192",
+    ]);
+  });
+
+  it("gives StandardMerkleTree's root and proofs for every address", () => {
+    const tree = buildMerkleTree(MANY_ADDRESSES);
+    const reference = StandardMerkleTree.of(
+      MANY_ADDRESSES.map((address) => [address]),
+      ["address"]
+    );
+
+    assert.equal(tree.root, reference.root);
+    MANY_ADDRESSES.forEach((address) => {
+      const proof = getMerkleProof(tree, address);
+      assert.ok(proof);
+      assert.deepEqual(proof.proof, reference.getProof([address]));
+      assert.equal(proof.leaf, reference.leafHash([address]));
+      assert.ok(verifyMerkleProof(tree.root, proof.leaf, proof.proof));
+    });
+  });
+
+  it("gives the same root whatever the order or case of the addresses", () => {
+    const shuffled = [ADDRESSES[2], `0x${ADDRESSES[0].slice(2).toUpperCase()}`, ADDRESSES[1]];
+    assert.equal(buildMerkleTree(shuffled).root, buildMerkleTree(ADDRESSES).root);
+  });
+
+  it("refuses an empty list", () => {
+    assert.throws(() => buildMerkleTree([]));
+  });
+});
+
+describe("getMerkleProof", () => {
+  it("returns null for addresses not in the tree", () => {
+    const tree = buildMerkleTree(ADDRESSES);
+    assert.equal(getMerkleProof(tree, "0x4444444444444444444444444444444444444444"), null);
+    assert.equal(getMerkleProof(tree, "not an address"), null);
+  });
+});
+
+describe("canonicalizeAddresses", () => {
+  it("checksums, dedupes and drops invalid values", () => {
+    const address = "0x52908400098527886e0f7030069857d2e4169ee7";
+    assert.deepEqual(
+      canonicalizeAddresses([address, ` 0x${address.slice(2).toUpperCase()} `, "0x123", 42, null]),
+      ["0x52908400098527886E0F7030069857D2E4169EE7"]
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  concat,
+  encodeAbiParameters,
+  getAddress,
+  Hex,
+  isAddress,
+  keccak256,
+} from "viem";
+
+// Types
+export interface MerkleTree {
+  root: Hex;
+  // Checksummed addresses in leaf order
+  addresses: string[];
+  // Each address's position in `addresses`
+  leafIndexes: Map<string, number>;
+  // The whole tree as OpenZeppelin's StandardMerkleTree lays it out: the root
+  // first, each node's children at 2i + 1 and 2i + 2, and leaves at the end
+  nodes: Hex[];
+}
+
+export interface MerkleProof {
+  address: string;
+  leaf: Hex;
+  proof: Hex[];
+}
+
+// Helper Functions
+// OpenZeppelin's MerkleProof hashes each pair in sorted order, so proofs
+// don't need to say which side a sibling is on
+const hashPair = (a: Hex, b: Hex): Hex =>
+  keccak256(BigInt(a) < BigInt(b) ? concat([a, b]) : concat([b, a]));
+
+const compareHex = (a: Hex, b: Hex): number =>
+  BigInt(a) < BigInt(b) ? -1 : BigInt(a) > BigInt(b) ? 1 : 0;
+
+/**
+ * The leaf for an address, hashed twice like StandardMerkleTree's
+ * ["address"] leaves. A contract checks it with
+ * `keccak256(bytes.concat(keccak256(abi.encode(account))))`.
+ */
+export const getMerkleLeaf = (address: string): Hex =>
+  keccak256(keccak256(encodeAbiParameters([{ type: "address" }], [getAddress(address)])));
+
+/**
+ * Checksum and dedupe addresses with viem, dropping anything that isn't a
+ * valid EVM address
+ */
+export function canonicalizeAddresses(values: unknown[]): string[] {
+  const addresses = new Set<string>();
+  values.forEach((value) => {
+    if (typeof value === "string" && isAddress(value.trim(), { strict: false })) {
+      addresses.add(getAddress(value.trim()));
+    }
+  });
+  return Array.from(addresses);
+}
+
+/**
+ * Build the tree for a set of addresses, with leaves sorted by hash so the
+ * same addresses always give the same root
+ * @throws if there are no addresses
+ */
+export function buildMerkleTree(addresses: string[]): MerkleTree {
+  if (addresses.length === 0) {
+    throw new Error("An allowlist needs at least one address");
+  }
+
+  const leaves = canonicalizeAddresses(addresses)
+    .map((address) => ({ address, leaf: getMerkleLeaf(address) }))
+    .sort((a, b) => compareHex(a.leaf, b.leaf));
+
+  const nodes: Hex[] = new Array(2 * leaves.length - 1);
+  leaves.forEach(({ leaf }, i) => {
+    nodes[nodes.length - 1 - i] = leaf;
+  });
+  for (let i = nodes.length - 1 - leaves.length; i >= 0; i--) {
+    nodes[i] = hashPair(nodes[2 * i + 1], nodes[2 * i + 2]);
+  }
+
+  return {
+    root: nodes[0],
+    addresses: leaves.map(({ address }) => address),
+    leafIndexes: new Map(leaves.map(({ address }, i) => [address, i])),
+    nodes,
+  };
+}
+
+/**
+ * The proof for one address, to pass to `MerkleProof.verify` with the root
+ * @returns null if the address isn't in the tree
+ */
+export function getMerkleProof(tree: MerkleTree, address: string): MerkleProof | null {
+  if (!isAddress(address, { strict: false })) {
+    return null;
+  }
+  const checksummed = getAddress(address);
+  const leafIndex = tree.leafIndexes.get(checksummed);
+  if (leafIndex === undefined) {
+    return null;
+  }
+
+  const proof: Hex[] = [];
+  let index = tree.nodes.length - 1 - leafIndex;
+  while (index > 0) {
+    proof.push(tree.nodes[index % 2 === 1 ? index + 1 : index - 1]);
+    index = Math.floor((index - 1) / 2);
+  }
+  return { address: checksummed, leaf: tree.nodes[tree.nodes.length - 1 - leafIndex], proof };
+}
+
+/**
+ * Check a proof the way OpenZeppelin's `MerkleProof.verify` does
+ */
+export const verifyMerkleProof = (root: Hex, leaf: Hex, proof: Hex[]): boolean =>
+  proof.reduce(hashPair, leaf) === root;
@@ -0,0 +1,222 @@
+import type { NextApiRequest } from "next";
+import {
+  DocumentData,
+  FieldPath,
+  Query,
+  QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import { DEFAULT_SORT, SortParams } from "./sorting";
+
+// Constants
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 100;
+
+// Types
+export type SortValue = string | number | boolean | null;
+
+export interface PageCursor {
+  // The sort field's value on the last document of a page
+  value: SortValue;
+  id: string;
+  // The sort the cursor was issued for, as "field:order"
+  sort: string;
+}
+
+export interface PaginationParams {
+  page: number;
+  limit: number;
+  offset: number;
+  cursor: PageCursor | null;
+}
+
+export interface PaginationResponse {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  nextCursor: string | null;
+}
+
+export interface PageResult {
+  docs: QueryDocumentSnapshot<DocumentData>[];
+  nextCursor: string | null;
+}
+
+const getSortKey = (sort: SortParams): string => `${sort.field}:${sort.order}`;
+
+const isSortValue = (value: unknown): value is SortValue =>
+  value === null || ["string", "number", "boolean"].includes(typeof value);
+
+// Firestore orders values of different types null, booleans, numbers, strings
+const TYPE_ORDER = ["null", "boolean", "number", "string"];
+
+/**
+ * Compare two sort values the way Firestore orders them. Missing values
+ * count as null.
+ */
+export function compareSortValues(a: unknown, b: unknown): number {
+  const left = isSortValue(a) ? a : null;
+  const right = isSortValue(b) ? b : null;
+  const typeDifference =
+    TYPE_ORDER.indexOf(left === null ? "null" : typeof left) -
+    TYPE_ORDER.indexOf(right === null ? "null" : typeof right);
+  if (typeDifference !== 0 || left === null || right === null) {
+    return typeDifference;
+  }
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Encode a cursor as an opaque, URL-safe string
+ * @param cursor The sort key of the last document on a page
+ */
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(
+    JSON.stringify([cursor.value, cursor.id, cursor.sort])
+  ).toString("base64url");
+}
+
+/**
+ * Decode a cursor produced by encodeCursor. Cursors issued before sorting
+ * existed carry no sort and are for createdAt desc.
+ * @returns The cursor, or null if the string is not a valid cursor
+ */
+export function decodeCursor(value: string): PageCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, "base64url").toString());
+    if (
+      !Array.isArray(decoded) ||
+      !isSortValue(decoded[0]) ||
+      typeof decoded[1] !== "string"
+    ) {
+      return null;
+    }
+    return {
+      value: decoded[0],
+      id: decoded[1],
+      sort: typeof decoded[2] === "string" ? decoded[2] : getSortKey(DEFAULT_SORT),
+    };
+  } catch (error) {
+    return null;
+  }
+}
+
+const createCursor = (
+  doc: QueryDocumentSnapshot<DocumentData>,
+  sort: SortParams
+): string =>
+  encodeCursor({
+    value: doc.get(sort.field) ?? null,
+    id: doc.id,
+    sort: getSortKey(sort),
+  });
+
+/**
+ * Read page, limit and cursor from the query string. `page` is still accepted
+ * on its own for older clients, which fall back to offset pagination.
+ * @param sort The sort the page is read in; cursors from another sort are
+ * rejected
+ * @returns The pagination params, or null if the cursor is malformed
+ */
+export function getPaginationParams(
+  query: NextApiRequest["query"],
+  sort: SortParams = DEFAULT_SORT
+): PaginationParams | null {
+  const page = Math.max(1, parseInt(query.page as string) || 1);
+  const limit = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(1, parseInt(query.limit as string) || DEFAULT_PAGE_SIZE)
+  );
+  const offset = (page - 1) * limit;
+
+  let cursor: PageCursor | null = null;
+  if (typeof query.cursor === "string" && query.cursor) {
+    cursor = decodeCursor(query.cursor);
+    if (!cursor || cursor.sort !== getSortKey(sort)) {
+      return null;
+    }
+  }
+
+  return { page, limit, offset, cursor };
+}
+
+/**
+ * Fetch one page of a query in the given sort (createdAt desc by default),
+ * using the document id as a tie-breaker so the cursor position is always
+ * unique. Documents without the sort field are left out by Firestore.
+ */
+export async function paginateQuery(
+  query: Query<DocumentData>,
+  { limit, offset, cursor }: PaginationParams,
+  sort: SortParams = DEFAULT_SORT
+): Promise<PageResult> {
+  let pageQuery = query
+    .orderBy(sort.field, sort.order)
+    .orderBy(FieldPath.documentId(), sort.order);
+
+  if (cursor) {
+    pageQuery = pageQuery.startAfter(cursor.value, cursor.id);
+  } else if (offset > 0) {
+    pageQuery = pageQuery.offset(offset);
+  }
+
+  // Read one extra document to learn whether another page exists
+  const snapshot = await pageQuery.limit(limit + 1).get();
+  const docs = snapshot.docs.slice(0, limit);
+  const lastDoc = docs[docs.length - 1];
+
+  const nextCursor =
+    snapshot.docs.length > limit && lastDoc ? createCursor(lastDoc, sort) : null;
+
+  return { docs, nextCursor };
+}
+
+/**
+ * Order documents in memory the way paginateQuery orders them in Firestore
+ */
+export function sortDocs(
+  docs: QueryDocumentSnapshot<DocumentData>[],
+  sort: SortParams = DEFAULT_SORT
+): QueryDocumentSnapshot<DocumentData>[] {
+  const direction = sort.order === "asc" ? 1 : -1;
+  return [...docs].sort(
+    (a, b) =>
+      direction *
+      (compareSortValues(a.get(sort.field), b.get(sort.field)) ||
+        compareSortValues(a.id, b.id))
+  );
+}
+
+/**
+ * Paginate documents that were filtered in memory, with the same cursor
+ * semantics as paginateQuery. Docs must already be ordered with sortDocs in
+ * the same sort.
+ */
+export function paginateDocs(
+  docs: QueryDocumentSnapshot<DocumentData>[],
+  { limit, offset, cursor }: PaginationParams,
+  sort: SortParams = DEFAULT_SORT
+): PageResult {
+  const direction = sort.order === "asc" ? 1 : -1;
+  let start = offset;
+  if (cursor) {
+    start = docs.findIndex(
+      (doc) =>
+        direction *
+          (compareSortValues(doc.get(sort.field), cursor.value) ||
+            compareSortValues(doc.id, cursor.id)) >
+        0
+    );
+    if (start === -1) {
+      start = docs.length;
+    }
+  }
+
+  const pageDocs = docs.slice(start, start + limit);
+  const lastDoc = pageDocs[pageDocs.length - 1];
+
+  const nextCursor =
+    start + limit < docs.length && lastDoc ? createCursor(lastDoc, sort) : null;
+
+  return { docs: pageDocs, nextCursor };
+}
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  DRAW_ALGORITHM,
+  DrawEntry,
+  DrawRecord,
+  drawWinners,
+  hashDrawSeed,
+  hashEntrySet,
+  verifyDrawRecord,
+} from "./raffle";
+
+const SEED = "a".repeat(64);
+
+const ENTRIES: DrawEntry[] = [
+  { id: "entry-a", weight: 1 },
+  { id: "entry-b", weight: 5 },
+  { id: "entry-c", weight: 2 },
+  { id: "entry-d", weight: 1 },
+  { id: "entry-e", weight: 10 },
+];
+
+const buildRecord = (overrides: Partial<DrawRecord> = {}): DrawRecord => ({
+  algorithm: DRAW_ALGORITHM,
+  seed: SEED,
+  seedHash: hashDrawSeed(SEED),
+  entrySetHash: hashEntrySet(ENTRIES),
+  winnerCount: 3,
+  entries: ENTRIES,
+  winners: drawWinners(SEED, ENTRIES, 3),
+  ...overrides,
+});
+
+describe("drawWinners", () => {
+  // Changing these breaks every record already published, which should
+  // come with a new DRAW_ALGORITHM
+  it("gives the published winners for a fixed seed", () => {
+    assert.equal(
+      hashDrawSeed(SEED),
+      "ffe054fe7ae0cb6dc65c3af9b61d5209f439851db43d0ba5997337df154668eb"
+    );
+    assert.equal(
+      hashEntrySet(ENTRIES),
+      "95a07551c79a33eefa0fb1190dddf6465c060bcd9e125ac43411b0f9d61f029b"
+    );
+    assert.deepEqual(drawWinners(SEED, ENTRIES, 3), ["entry-e", "entry-b", "entry-a"]);
+  });
+
+  it("doesn't depend on the order entries are passed in", () => {
+    assert.deepEqual(
+      drawWinners(SEED, [...ENTRIES].reverse(), 3),
+      drawWinners(SEED, ENTRIES, 3)
+    );
+  });
+
+  it("draws each entry at most once", () => {
+    const winners = drawWinners(SEED, ENTRIES, 10);
+    assert.equal(winners.length, ENTRIES.length);
+    assert.equal(new Set(winners).size, ENTRIES.length);
+  });
+
+  it("reaches every entry when the ticket total passes the safe integer range", () => {
+    const entries = [
+      { id: "x", weight: Number.MAX_SAFE_INTEGER },
+      { id: "y", weight: Number.MAX_SAFE_INTEGER },
+      { id: "z", weight: 1 },
+    ];
+    assert.deepEqual([...drawWinners(SEED, entries, 3)].sort(), ["x", "y", "z"]);
+  });
+
+  it("rejects weights that aren't positive whole numbers", () => {
+    [0, -1, 1.5, Number.NaN].forEach((weight) => {
+      assert.throws(() => drawWinners(SEED, [{ id: "entry-a", weight }], 1));
+    });
+  });
+});
+
+describe("verifyDrawRecord", () => {
+  it("accepts a record re-run as drawn", () => {
+    assert.deepEqual(verifyDrawRecord(buildRecord()), []);
+  });
+
+  it("reports changed winners, entries and seeds", () => {
+    assert.deepEqual(verifyDrawRecord(buildRecord({ winners: ["entry-a"] })), [
+      "Re-running the draw gives different winners",
+    ]);
+    assert.ok(
+      verifyDrawRecord(
+        buildRecord({ entries: [...ENTRIES, { id: "entry-f", weight: 1 }] })
+      ).includes("The entries don't match the entry set hash")
+    );
+    assert.ok(
+      verifyDrawRecord(buildRecord({ seed: "b".repeat(64) })).includes(
+        "The seed doesn't match the committed seed hash"
+      )
+    );
+  });
+
+  it("refuses unknown algorithms", () => {
+    assert.deepEqual(verifyDrawRecord(buildRecord({ algorithm: "other" })), [
+      'Unknown draw algorithm "other"',
+    ]);
+  });
+});
@@ -0,0 +1,143 @@
+import { createHash, createHmac, randomBytes } from "crypto";
+
+// Constants
+// Stored with each draw, so a changed algorithm can't silently re-verify old
+// records differently
+export const DRAW_ALGORITHM = "hmac-sha256-weighted-v1";
+
+export const MAX_DRAW_WINNERS = 1000;
+
+// Most tickets one entry holds. Weights come from a field participants fill
+// in themselves, so larger values are cut down to this.
+export const MAX_DRAW_WEIGHT = 1000;
+
+const SEED_BYTES = 32;
+
+// Types
+export interface DrawEntry {
+  id: string;
+  // Tickets the entry holds; 1 in unweighted draws
+  weight: number;
+}
+
+// Everything needed to re-run a draw without access to the database
+export interface DrawRecord {
+  algorithm: string;
+  seed: string;
+  seedHash: string;
+  entrySetHash: string;
+  winnerCount: number;
+  entries: DrawEntry[];
+  // Entry ids in the order they were drawn
+  winners: string[];
+}
+
+// Helper Functions
+const sha256 = (value: string): string =>
+  createHash("sha256").update(value).digest("hex");
+
+/**
+ * The number behind one pick: HMAC-SHA256 keyed by the seed over the entry
+ * set hash and the round, read as a 256-bit integer. Reducing it modulo the
+ * ticket total is unbiased for any practical total.
+ */
+const drawRandom = (seed: string, entrySetHash: string, round: number): bigint =>
+  BigInt(`0x${createHmac("sha256", seed).update(`${entrySetHash}:${round}`).digest("hex")}`);
+
+const isValidWeight = (weight: number): boolean =>
+  Number.isSafeInteger(weight) && weight > 0;
+
+/**
+ * A fresh secret seed, as hex
+ */
+export const generateDrawSeed = (): string => randomBytes(SEED_BYTES).toString("hex");
+
+/**
+ * The commitment published before a draw: the SHA-256 of the seed's hex
+ */
+export const hashDrawSeed = (seed: string): string => sha256(seed);
+
+/**
+ * Entries in the canonical order draws use: by id, compared as strings
+ */
+export const sortDrawEntries = (entries: DrawEntry[]): DrawEntry[] =>
+  [...entries].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+/**
+ * SHA-256 over one "id:weight" line per entry in canonical order, so any
+ * added, removed or reweighted entry changes it
+ */
+export const hashEntrySet = (entries: DrawEntry[]): string =>
+  sha256(
+    sortDrawEntries(entries)
+      .map(({ id, weight }) => `${id}:${weight}\n`)
+      .join("")
+  );
+
+/**
+ * Pick winners without replacement, each pick weighted by the tickets of the
+ * entries still in the draw. The same seed and entries always give the same
+ * winners in the same order.
+ * @throws if an entry's weight is not a positive integer
+ */
+export function drawWinners(
+  seed: string,
+  entries: DrawEntry[],
+  winnerCount: number
+): string[] {
+  if (!entries.every(({ weight }) => isValidWeight(weight))) {
+    throw new Error("Draw weights must be positive whole numbers");
+  }
+
+  const remaining = sortDrawEntries(entries);
+  const entrySetHash = hashEntrySet(remaining);
+  // Tickets are counted as bigints, so no total of safe weights loses
+  // precision and every ticket lands on an entry
+  let total = remaining.reduce((sum, { weight }) => sum + BigInt(weight), BigInt(0));
+  const winners: string[] = [];
+
+  for (let round = 0; round < winnerCount && remaining.length > 0; round++) {
+    let ticket = drawRandom(seed, entrySetHash, round) % total;
+    const index = remaining.findIndex(({ weight }) => {
+      ticket -= BigInt(weight);
+      return ticket < BigInt(0);
+    });
+    const [winner] = remaining.splice(index, 1);
+    winners.push(winner.id);
+    total -= BigInt(winner.weight);
+  }
+
+  return winners;
+}
+
+/**
+ * Re-run a draw from its record
+ * @returns What doesn't match; empty when the record verifies
+ */
+export function verifyDrawRecord(record: DrawRecord): string[] {
+  const problems: string[] = [];
+
+  if (record.algorithm !== DRAW_ALGORITHM) {
+    return [`Unknown draw algorithm "${record.algorithm}"`];
+  }
+  if (hashDrawSeed(record.seed) !== record.seedHash) {
+    problems.push("The seed doesn't match the committed seed hash");
+  }
+  if (hashEntrySet(record.entries) !== record.entrySetHash) {
+    problems.push("The entries don't match the entry set hash");
+  }
+  if (new Set(record.entries.map(({ id }) => id)).size !== record.entries.length) {
+    problems.push("An entry appears more than once");
+  }
+  if (!record.entries.every(({ weight }) => isValidWeight(weight))) {
+    problems.push("An entry has a weight that isn't a positive whole number");
+    return problems;
+  }
+
+  const winners = drawWinners(record.seed, record.entries, record.winnerCount);
+  if (winners.join("\n") !== record.winners.join("\n")) {
+    problems.push("Re-running the draw gives different winners");
+  }
+
+  return problems;
+}
@@ -0,0 +1,133 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getClientIp } from "./request";
+
+// Types
+export interface RateLimitRule {
+  // Identifies the route; requests to different routes never share a limit
+  name: string;
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // When the oldest counted request leaves the window
+  resetAt: number;
+}
+
+/**
+ * Backing store for request timestamps. The in-memory store only limits a
+ * single server process; deployments with several instances can plug in a
+ * shared store (e.g. Redis) with setRateLimitStore.
+ */
+export interface RateLimitStore {
+  /**
+   * Count a request against `key` if fewer than `limit` requests fall inside
+   * the sliding window ending at `now`. Rejected requests aren't counted.
+   */
+  take(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now: number
+  ): Promise<RateLimitResult>;
+}
+
+// Constants
+// Keys with no recent requests are swept at most this often
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Helper Functions
+/**
+ * Sliding-window log kept in process memory
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const hits = new Map<string, number[]>();
+  const windows = new Map<string, number>();
+  let lastSweep = 0;
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    lastSweep = now;
+    hits.forEach((timestamps, key) => {
+      const windowMs = windows.get(key) || 0;
+      if (timestamps[timestamps.length - 1] <= now - windowMs) {
+        hits.delete(key);
+        windows.delete(key);
+      }
+    });
+  };
+
+  return {
+    async take(key, limit, windowMs, now) {
+      sweep(now);
+
+      const timestamps = (hits.get(key) || []).filter(
+        (timestamp) => timestamp > now - windowMs
+      );
+      const allowed = timestamps.length < limit;
+      if (allowed) {
+        timestamps.push(now);
+      }
+      hits.set(key, timestamps);
+      windows.set(key, windowMs);
+
+      return {
+        allowed,
+        remaining: Math.max(0, limit - timestamps.length),
+        resetAt: timestamps[0] + windowMs,
+      };
+    },
+  };
+}
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+/**
+ * Replace the store every rate limit uses
+ */
+export function setRateLimitStore(nextStore: RateLimitStore): void {
+  store = nextStore;
+}
+
+/**
+ * Count the request against the rule for the caller's IP. Sends a 429 with
+ * Retry-After when the limit is reached.
+ * @returns Whether the request may proceed
+ */
+export async function rateLimit(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  rule: RateLimitRule
+): Promise<boolean> {
+  const now = Date.now();
+  const key = `${rule.name}:${getClientIp(req) || "unknown"}`;
+
+  let result: RateLimitResult;
+  try {
+    result = await store.take(key, rule.limit, rule.windowMs, now);
+  } catch (error) {
+    // An unavailable store shouldn't take the endpoint down with it
+    console.error("Rate limit store error:", error);
+    return true;
+  }
+
+  const resetSeconds = Math.max(1, Math.ceil((result.resetAt - now) / 1000));
+  res.setHeader("RateLimit-Limit", rule.limit);
+  res.setHeader("RateLimit-Remaining", result.remaining);
+  res.setHeader("RateLimit-Reset", resetSeconds);
+
+  if (!result.allowed) {
+    res.setHeader("Retry-After", resetSeconds);
+    res.status(429).json({
+      error: "Too many requests. Please try again later.",
+      retryAfter: resetSeconds,
+    });
+    return false;
+  }
+
+  return true;
+}
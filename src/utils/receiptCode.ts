@@ -0,0 +1,89 @@
+import { z } from "zod";
+import { Transaction } from "firebase-admin/firestore";
+import { firestoreDB } from "./firebaseAdmin";
+import { UNIQUE_KEYS_COLLECTION } from "./uniqueKeys";
+
+// Constants
+// Crockford base32: no I, L, O or U, so codes read back without confusion
+const RECEIPT_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+// Characters in a code, shown in groups of four
+const RECEIPT_CODE_LENGTH = 8;
+const RECEIPT_GROUP_SIZE = 4;
+
+// Letters people type for the digits they resemble
+const RECEIPT_LOOKALIKES: Record<string, string> = { O: "0", I: "1", L: "1" };
+
+// Fresh codes tried before giving up; with 40 random bits even one retry
+// is rare
+const MAX_RECEIPT_CODE_ATTEMPTS = 5;
+
+// Validation Schemas
+// Accepts codes in any case, with or without the dash
+export const ReceiptCodeSchema = z
+  .string()
+  .transform((value) => normalizeReceiptCode(value))
+  .refine(
+    (value) =>
+      value.replace("-", "").length === RECEIPT_CODE_LENGTH &&
+      [...value.replace("-", "")].every((char) => RECEIPT_ALPHABET.includes(char)),
+    "Enter the receipt code from your confirmation, like ABCD-1234"
+  );
+
+/**
+ * A random receipt code such as "7KQ2-M9XD". 40 random bits, so codes don't
+ * reveal how many entries there are and can't be guessed.
+ */
+export function generateReceiptCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(RECEIPT_CODE_LENGTH));
+  const code = Array.from(bytes, (byte) => RECEIPT_ALPHABET[byte % RECEIPT_ALPHABET.length]);
+  return `${code.slice(0, RECEIPT_GROUP_SIZE).join("")}-${code
+    .slice(RECEIPT_GROUP_SIZE)
+    .join("")}`;
+}
+
+// Each code holds a key at uniq/receipt:{code}. Keys outlive their entries,
+// so a code is never handed out twice.
+const getReceiptKeyRef = (code: string) =>
+  firestoreDB.collection(UNIQUE_KEYS_COLLECTION).doc(`receipt:${code}`);
+
+/**
+ * Pick a receipt code no entry holds yet, inside a transaction. Only reads,
+ * so it can run before the transaction's writes; the code is taken with
+ * `claimReceiptCode`.
+ */
+export async function findFreeReceiptCode(transaction: Transaction): Promise<string> {
+  for (let attempt = 0; attempt < MAX_RECEIPT_CODE_ATTEMPTS; attempt++) {
+    const code = generateReceiptCode();
+    if (!(await transaction.get(getReceiptKeyRef(code))).exists) {
+      return code;
+    }
+  }
+  throw new Error("No free receipt code found");
+}
+
+/**
+ * Take a code from `findFreeReceiptCode` for an entry. A concurrent
+ * submission taking the same code makes one transaction retry with a new one.
+ */
+export function claimReceiptCode(
+  transaction: Transaction,
+  code: string,
+  entry: { entryId: string; topicId: string }
+): void {
+  transaction.create(getReceiptKeyRef(code), { ...entry, createdAt: Date.now() });
+}
+
+/**
+ * The stored form of a code as a participant typed it: uppercase, with
+ * lookalike letters read as digits and the dash put back
+ */
+export function normalizeReceiptCode(input: string): string {
+  const chars = input
+    .toUpperCase()
+    .replace(/[\s-]/g, "")
+    .replace(/[OIL]/g, (char) => RECEIPT_LOOKALIKES[char]);
+  return chars.length > RECEIPT_GROUP_SIZE
+    ? `${chars.slice(0, RECEIPT_GROUP_SIZE)}-${chars.slice(RECEIPT_GROUP_SIZE)}`
+    : chars;
+}
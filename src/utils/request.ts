@@ -0,0 +1,29 @@
+import type { NextApiRequest } from "next";
+import { z } from "zod";
+
+// Query string values arrive as strings, and blank filters mean "any"
+export const optionalQueryParam = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => (value === "" ? undefined : value), schema.optional());
+
+/**
+ * The caller's IP address. x-forwarded-for is only read when
+ * TRUSTED_PROXY_HOPS says how many proxies in front of the app append to it:
+ * the client is the hop the outermost of them added, and anything further
+ * left came from the client and can't be trusted. Otherwise the socket
+ * address is used.
+ */
+export function getClientIp(req: NextApiRequest): string | null {
+  const trustedHops = Number(process.env.TRUSTED_PROXY_HOPS) || 0;
+  const forwarded = req.headers["x-forwarded-for"];
+  const forwardedFor = Array.isArray(forwarded) ? forwarded.join(",") : forwarded;
+  if (trustedHops > 0 && forwardedFor) {
+    const hops = forwardedFor
+      .split(",")
+      .map((hop) => hop.trim())
+      .filter(Boolean);
+    if (hops.length > 0) {
+      return hops[Math.max(0, hops.length - trustedHops)];
+    }
+  }
+  return req.socket?.remoteAddress || null;
+}
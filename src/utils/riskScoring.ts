@@ -0,0 +1,403 @@
+import { createHmac } from "crypto";
+import { DocumentData, FieldPath, QueryDocumentSnapshot } from "firebase-admin/firestore";
+import { firestoreDB } from "./firebaseAdmin";
+import { CanonicalFields, CanonicalSource, canonicalizeEntry } from "./canonical";
+import { normalizeHandleSearch } from "./entrySearch";
+import {
+  EntryRisk,
+  getRiskLevel,
+  RISK_SIGNALS,
+  RiskReason,
+  RiskSignal,
+} from "./entryRisk";
+
+// Constants
+const RISK_SIGNAL_WEIGHTS: Record<RiskSignal, number> = {
+  email_alias: 30,
+  email_sequence: 20,
+  similar_telegram: 20,
+  similar_platform: 20,
+  // Households and offices share addresses, so an IP alone counts for less
+  shared_ip: 15,
+  shared_device: 40,
+  burst: 25,
+};
+
+// Entries from one IP or device this close together count toward a burst,
+// which takes at least this many besides the entry itself
+const BURST_WINDOW_MS = 10 * 60 * 1000;
+const BURST_MIN_RELATED = 2;
+
+// Most earlier entries compared with a new one, and related ids kept per reason
+const MAX_RISK_MATCHES = 100;
+const MAX_RELATED_IDS = 20;
+
+// Shorter email or handle stems match too many unrelated participants
+const MIN_EMAIL_STEM_LENGTH = 3;
+const MIN_HANDLE_STEM_LENGTH = 4;
+
+// Firestore allows at most 500 writes in one batch
+const BATCH_SIZE = 500;
+
+// Entry fields a re-scan reads; the rest of each entry is left on the server
+const RESCAN_FIELDS = [
+  "walletAddress",
+  "email",
+  "telegramUsername",
+  "platformUsername",
+  "discordUsername",
+  "canonical",
+  "riskFingerprints",
+  "createdAt",
+];
+
+// Types
+// Fingerprints are stored on entries as "kind:hash" in `riskFingerprints`
+type FingerprintKind =
+  | "emailBase"
+  | "emailStem"
+  | "telegram"
+  | "platform"
+  | "ip"
+  | "device";
+
+// Where a submission came from; only known when it is made
+export interface RiskContext {
+  ip: string | null;
+  deviceId?: string;
+}
+
+export interface RiskCandidate {
+  id: string;
+  fingerprints: string[];
+  createdAt: number;
+}
+
+type RiskSource = CanonicalSource & {
+  canonical?: CanonicalFields;
+  riskFingerprints?: string[];
+  risk?: EntryRisk;
+  createdAt: number;
+};
+
+// The signal raised when two entries share a fingerprint of each kind
+const KIND_SIGNALS: Record<FingerprintKind, RiskSignal> = {
+  emailBase: "email_alias",
+  emailStem: "email_sequence",
+  telegram: "similar_telegram",
+  platform: "similar_platform",
+  ip: "shared_ip",
+  device: "shared_device",
+};
+
+// Kinds taken from the submission rather than the entry's fields
+const CONTEXT_KINDS: FingerprintKind[] = ["ip", "device"];
+
+// Helper Functions
+let warnedScoringDisabled = false;
+
+/**
+ * Whether entries are risk scored; off until RISK_FINGERPRINT_SECRET is set.
+ * Scores are only hints, so a missing secret skips them rather than failing
+ * submissions, with one warning in the server log.
+ */
+export const isRiskScoringEnabled = (): boolean => {
+  if (process.env.RISK_FINGERPRINT_SECRET) {
+    return true;
+  }
+  if (!warnedScoringDisabled) {
+    console.warn("RISK_FINGERPRINT_SECRET is not set, so entries aren't risk scored");
+    warnedScoringDisabled = true;
+  }
+  return false;
+};
+
+const getFingerprintSecret = (): string => {
+  const secret = process.env.RISK_FINGERPRINT_SECRET;
+  if (!secret) {
+    throw new Error("RISK_FINGERPRINT_SECRET is not set");
+  }
+  return secret;
+};
+
+// Values are keyed with a server secret, so stored fingerprints can't be
+// matched against hashes of guessed IPs, emails or handles
+const fingerprint = (kind: FingerprintKind, value: string): string =>
+  `${kind}:${createHmac("sha256", getFingerprintSecret())
+    .update(`${kind}:${value}`)
+    .digest("hex")
+    .slice(0, 32)}`;
+
+const getKind = (value: string): FingerprintKind =>
+  value.slice(0, value.indexOf(":")) as FingerprintKind;
+
+// Lowercase letters and digits only, without a trailing number, so
+// "alice_01" and "alice.02" compare equal
+const getHandleStem = (handle: string): string =>
+  normalizeHandleSearch(handle).replace(/[^a-z0-9]/g, "").replace(/\d+$/, "");
+
+const buildRisk = (reasons: RiskReason[]): EntryRisk => {
+  const score = Math.min(
+    100,
+    reasons.reduce((sum, { signal }) => sum + RISK_SIGNAL_WEIGHTS[signal], 0)
+  );
+  return { score, level: getRiskLevel(score), reasons, scoredAt: Date.now() };
+};
+
+/**
+ * Fingerprints of an entry's email and handles. Plus-tags are dropped from
+ * every email domain, and trailing numbers from email local parts and handles.
+ */
+export function buildFieldFingerprints(canonical: CanonicalFields): string[] {
+  const fingerprints: string[] = [];
+
+  if (canonical.email) {
+    const atIndex = canonical.email.lastIndexOf("@");
+    const domain = canonical.email.slice(atIndex + 1);
+    const base = canonical.email.slice(0, atIndex).split("+")[0];
+    const stem = base.replace(/\d+$/, "");
+    fingerprints.push(fingerprint("emailBase", `${base}@${domain}`));
+    if (stem.length >= MIN_EMAIL_STEM_LENGTH) {
+      fingerprints.push(fingerprint("emailStem", `${stem}@${domain}`));
+    }
+  }
+
+  const handles: [FingerprintKind, string | undefined][] = [
+    ["telegram", canonical.telegramUsername],
+    ["platform", canonical.platformUsername],
+  ];
+  handles.forEach(([kind, handle]) => {
+    const stem = handle ? getHandleStem(handle) : "";
+    if (stem.length >= MIN_HANDLE_STEM_LENGTH) {
+      fingerprints.push(fingerprint(kind, stem));
+    }
+  });
+
+  return fingerprints;
+}
+
+/**
+ * Fingerprints of a new submission: its fields plus where it came from
+ */
+export function buildRiskFingerprints(
+  canonical: CanonicalFields,
+  context: RiskContext
+): string[] {
+  const fingerprints = buildFieldFingerprints(canonical);
+  if (context.ip) {
+    fingerprints.push(fingerprint("ip", context.ip));
+  }
+  if (context.deviceId) {
+    fingerprints.push(fingerprint("device", context.deviceId));
+  }
+  return fingerprints;
+}
+
+/**
+ * Recompute an entry's field fingerprints after its fields change, keeping
+ * the IP and device it was submitted from
+ */
+export function refreshRiskFingerprints(
+  stored: string[] | undefined,
+  canonical: CanonicalFields
+): string[] {
+  return [
+    ...buildFieldFingerprints(canonical),
+    ...(stored || []).filter((value) => CONTEXT_KINDS.includes(getKind(value))),
+  ];
+}
+
+/**
+ * Score an entry against others in its topic. Sharing an email stem only
+ * counts when the emails don't already share an inbox.
+ */
+export function scoreEntryRisk(
+  entry: RiskCandidate,
+  others: RiskCandidate[]
+): EntryRisk {
+  const related = new Map<RiskSignal, string[]>();
+  const addRelated = (signal: RiskSignal, id: string) =>
+    related.set(signal, [...(related.get(signal) || []), id]);
+
+  others.forEach((other) => {
+    if (other.id === entry.id) {
+      return;
+    }
+    const shared = new Set(
+      other.fingerprints.filter((value) => entry.fingerprints.includes(value)).map(getKind)
+    );
+    shared.forEach((kind) => {
+      if (kind !== "emailStem" || !shared.has("emailBase")) {
+        addRelated(KIND_SIGNALS[kind], other.id);
+      }
+    });
+    if (
+      (shared.has("ip") || shared.has("device")) &&
+      Math.abs(other.createdAt - entry.createdAt) <= BURST_WINDOW_MS
+    ) {
+      addRelated("burst", other.id);
+    }
+  });
+
+  if ((related.get("burst") || []).length < BURST_MIN_RELATED) {
+    related.delete("burst");
+  }
+
+  return buildRisk(
+    RISK_SIGNALS.filter((signal) => related.has(signal)).map((signal) => ({
+      signal,
+      relatedIds: related.get(signal)!.slice(0, MAX_RELATED_IDS),
+    }))
+  );
+}
+
+/**
+ * The most recent entries in a topic sharing any of the fingerprints
+ */
+export async function findRiskCandidates(
+  topicId: string,
+  fingerprints: string[]
+): Promise<RiskCandidate[]> {
+  if (fingerprints.length === 0) {
+    return [];
+  }
+  const snapshot = await firestoreDB
+    .collection("entries")
+    .where("topicId", "==", topicId)
+    .where("riskFingerprints", "array-contains-any", fingerprints)
+    .orderBy("createdAt", "desc")
+    .select("riskFingerprints", "createdAt")
+    .limit(MAX_RISK_MATCHES)
+    .get();
+
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    fingerprints: (doc.get("riskFingerprints") as string[]) || [],
+    createdAt: doc.get("createdAt") as number,
+  }));
+}
+
+/**
+ * Add a newly scored entry to the reasons of the entries it was matched
+ * with, so every entry in a cluster is flagged and not only the latest
+ */
+export async function flagRelatedEntries(
+  entryId: string,
+  risk: EntryRisk
+): Promise<void> {
+  const relatedIds = Array.from(
+    new Set(risk.reasons.flatMap(({ relatedIds }) => relatedIds))
+  );
+  if (relatedIds.length === 0) {
+    return;
+  }
+
+  const docs = await firestoreDB.getAll(
+    ...relatedIds.map((id) => firestoreDB.collection("entries").doc(id)),
+    { fieldMask: ["risk"] }
+  );
+  const batch = firestoreDB.batch();
+  docs
+    .filter((doc) => doc.exists)
+    .forEach((doc) => {
+      const reasons = [...((doc.get("risk") as EntryRisk | undefined)?.reasons || [])];
+      risk.reasons
+        .filter(({ relatedIds }) => relatedIds.includes(doc.id))
+        .forEach(({ signal }) => {
+          const index = reasons.findIndex((reason) => reason.signal === signal);
+          if (index === -1) {
+            reasons.push({ signal, relatedIds: [entryId] });
+          } else if (
+            !reasons[index].relatedIds.includes(entryId) &&
+            reasons[index].relatedIds.length < MAX_RELATED_IDS
+          ) {
+            reasons[index] = {
+              signal,
+              relatedIds: [...reasons[index].relatedIds, entryId],
+            };
+          }
+        });
+      reasons.sort((a, b) => RISK_SIGNALS.indexOf(a.signal) - RISK_SIGNALS.indexOf(b.signal));
+      batch.update(doc.ref, { risk: buildRisk(reasons) });
+    });
+  await batch.commit();
+}
+
+/**
+ * A topic's entries reduced to their refreshed fingerprints, read a page at a
+ * time with only the fields scoring needs
+ */
+const loadTopicRiskCandidates = async (topicId: string): Promise<RiskCandidate[]> => {
+  const baseQuery = firestoreDB
+    .collection("entries")
+    .where("topicId", "==", topicId)
+    .orderBy(FieldPath.documentId())
+    .select(...RESCAN_FIELDS)
+    .limit(BATCH_SIZE);
+
+  const candidates: RiskCandidate[] = [];
+  let lastDoc: QueryDocumentSnapshot<DocumentData> | undefined;
+  while (true) {
+    const snapshot = await (lastDoc ? baseQuery.startAfter(lastDoc) : baseQuery).get();
+    snapshot.docs.forEach((doc) => {
+      const entry = doc.data() as RiskSource;
+      candidates.push({
+        id: doc.id,
+        fingerprints: refreshRiskFingerprints(
+          entry.riskFingerprints,
+          entry.canonical || canonicalizeEntry(entry)
+        ),
+        createdAt: entry.createdAt,
+      });
+    });
+    if (snapshot.size < BATCH_SIZE) {
+      return candidates;
+    }
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+};
+
+/**
+ * Re-score every entry in a topic against all the others, refreshing their
+ * field fingerprints. Entries from before risk scoring only have field
+ * fingerprints, since their IP and device were never recorded.
+ * @returns How many entries were scanned and how many scored above low
+ */
+export async function rescanTopicRisk(
+  topicId: string
+): Promise<{ scanned: number; flagged: number }> {
+  const candidates = await loadTopicRiskCandidates(topicId);
+
+  const byFingerprint = new Map<string, RiskCandidate[]>();
+  candidates.forEach((candidate) =>
+    candidate.fingerprints.forEach((value) => {
+      const matches = byFingerprint.get(value);
+      if (matches) {
+        matches.push(candidate);
+      } else {
+        byFingerprint.set(value, [candidate]);
+      }
+    })
+  );
+
+  let flagged = 0;
+  for (let i = 0; i < candidates.length; i += BATCH_SIZE) {
+    const batch = firestoreDB.batch();
+    candidates.slice(i, i + BATCH_SIZE).forEach((candidate) => {
+      const others = new Set(
+        candidate.fingerprints.flatMap((value) => byFingerprint.get(value) || [])
+      );
+      const risk = scoreEntryRisk(candidate, Array.from(others));
+      if (risk.level !== "low") {
+        flagged++;
+      }
+      batch.update(firestoreDB.collection("entries").doc(candidate.id), {
+        risk,
+        riskFingerprints: candidate.fingerprints,
+      });
+    });
+    await batch.commit();
+  }
+
+  return { scanned: candidates.length, flagged };
+}
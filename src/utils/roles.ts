@@ -0,0 +1,34 @@
+import { z } from "zod";
+
+// Constants
+// Ordered from least to most privileged
+export const ADMIN_ROLES = ["viewer", "editor", "owner"] as const;
+
+// Types
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  viewer: "Viewer",
+  editor: "Editor",
+  owner: "Owner",
+};
+
+export const ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+  viewer: "Can view and export topics and entries",
+  editor: "Can also create, edit and delete topics and entries",
+  owner: "Can also purge topics from the trash and assign roles",
+};
+
+export const AdminRoleSchema = z.enum(ADMIN_ROLES);
+
+/**
+ * Whether a role grants at least the permissions of another
+ * @param role The admin's role, if known
+ * @param required The least privileged role that is allowed
+ */
+export function hasRole(
+  role: AdminRole | null | undefined,
+  required: AdminRole
+): boolean {
+  return !!role && ADMIN_ROLES.indexOf(role) >= ADMIN_ROLES.indexOf(required);
+}
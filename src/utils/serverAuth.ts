@@ -1,5 +1,5 @@
 import { cookies } from 'next/headers';
-import { verifyToken } from './auth';
+import { SESSION_COOKIE_NAME, verifySession } from './session';
 
 /**
  * Check if the user is authenticated on the server side
@@ -8,9 +8,10 @@ import { verifyToken } from './auth';
 export async function isAuthenticated(): Promise<boolean> {
   try {
     const cookieStore = await cookies();
-    const token = cookieStore.get('token')?.value || '';
-    const admin = verifyToken(token);
-    return !!admin;
+    const session = await verifySession(
+      cookieStore.get(SESSION_COOKIE_NAME)?.value
+    );
+    return !!session;
   } catch (error) {
     console.error('Authentication check error:', error);
     return false;
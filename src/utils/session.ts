@@ -0,0 +1,239 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { DecodedIdToken } from "firebase-admin/auth";
+import { adminAuth, firestoreDB } from "./firebaseAdmin";
+import { AdminPayload, verifyToken } from "./auth";
+import { AdminRole, AdminRoleSchema, hasRole } from "./roles";
+
+// Constants
+export const SESSION_COOKIE_NAME = "session";
+export const SESSION_MAX_AGE = 60 * 60; // 1 hour in seconds
+export const ADMIN_EMAIL_DOMAIN = "capx.global";
+// Role assignments live at admins/{lowercased email}
+export const ADMINS_COLLECTION = "admins";
+
+// Types
+export interface AdminSession {
+  // Firebase uid, or the username for the legacy password login
+  uid: string;
+  email: string | null;
+  method: "firebase" | "password";
+  role: AdminRole;
+  expiresAt: number;
+}
+
+// Why a Firebase account can't sign in, in words the admin can act on
+export class AdminAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AdminAccessError";
+  }
+}
+
+export const isAdminEmail = (email?: string | null): email is string =>
+  !!email && email.toLowerCase().endsWith(`@${ADMIN_EMAIL_DOMAIN}`);
+
+/**
+ * Whether the ADMIN_USERNAME / ADMIN_PASSWORD_HASH login is configured.
+ * It is an optional fallback for deployments without Firebase Auth users.
+ */
+export const isPasswordLoginEnabled = (): boolean =>
+  !!(
+    process.env.ADMIN_USERNAME &&
+    process.env.ADMIN_PASSWORD_HASH &&
+    process.env.JWT_SECRET
+  );
+
+// Owners listed in OWNER_EMAILS can't be demoted, so there is always one
+export const getOwnerEmails = (): string[] =>
+  (process.env.OWNER_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+
+/**
+ * Look up the role assigned to an admin email
+ * @returns null if no role has been assigned
+ */
+export async function getAdminRole(email: string): Promise<AdminRole | null> {
+  const normalized = email.toLowerCase();
+  if (getOwnerEmails().includes(normalized)) {
+    return "owner";
+  }
+  const adminDoc = await firestoreDB
+    .collection(ADMINS_COLLECTION)
+    .doc(normalized)
+    .get();
+  const role = AdminRoleSchema.safeParse(adminDoc.get("role"));
+  return role.success ? role.data : null;
+}
+
+/**
+ * The role a Firebase user signs in with. Anyone can create an account on
+ * the admin domain, so the address must also be verified and have a role
+ * assigned by an owner.
+ * @throws AdminAccessError saying why the account can't sign in
+ */
+async function getFirebaseAdminRole(decoded: DecodedIdToken): Promise<AdminRole> {
+  if (!isAdminEmail(decoded.email)) {
+    throw new AdminAccessError(`Only @${ADMIN_EMAIL_DOMAIN} accounts can sign in`);
+  }
+  if (decoded.email_verified !== true) {
+    throw new AdminAccessError("Verify your email address before signing in");
+  }
+  const role = await getAdminRole(decoded.email);
+  if (!role) {
+    throw new AdminAccessError("Your account hasn't been given an admin role yet");
+  }
+  return role;
+}
+
+/**
+ * Verify a session cookie. Firebase session cookies are checked first,
+ * including revocation; legacy password-login tokens only when enabled.
+ * @returns The session, or null if the cookie is missing or invalid
+ */
+export async function verifySession(
+  cookie: string | undefined
+): Promise<AdminSession | null> {
+  if (!cookie) {
+    return null;
+  }
+
+  try {
+    const decoded = await adminAuth.verifySessionCookie(cookie, true);
+    return {
+      uid: decoded.uid,
+      email: decoded.email || null,
+      method: "firebase",
+      // Checked on every request, so removing a role ends open sessions
+      role: await getFirebaseAdminRole(decoded),
+      expiresAt: decoded.exp * 1000,
+    };
+  } catch (error) {
+    if (error instanceof AdminAccessError) {
+      return null;
+    }
+    // Not a Firebase session cookie; fall through to the legacy token
+  }
+
+  if (!isPasswordLoginEnabled()) {
+    return null;
+  }
+  const payload = verifyToken(cookie) as (AdminPayload & { exp?: number }) | null;
+  if (!payload || payload.username !== process.env.ADMIN_USERNAME) {
+    return null;
+  }
+  // The fallback account is configured by whoever runs the deployment
+  return {
+    uid: payload.username,
+    email: null,
+    method: "password",
+    role: "owner",
+    expiresAt: (payload.exp || 0) * 1000,
+  };
+}
+
+/**
+ * Check that a Firebase ID token belongs to an admin who may sign in
+ * @throws AdminAccessError if the account isn't a verified admin with a
+ * role, or another error if the token is invalid
+ */
+export async function verifyAdminIdToken(idToken: string): Promise<AdminRole> {
+  return getFirebaseAdminRole(await adminAuth.verifyIdToken(idToken, true));
+}
+
+/**
+ * Exchange a freshly issued Firebase ID token for a session cookie value
+ * @throws as verifyAdminIdToken does
+ */
+export async function createFirebaseSession(idToken: string): Promise<string> {
+  await verifyAdminIdToken(idToken);
+  return adminAuth.createSessionCookie(idToken, {
+    expiresIn: SESSION_MAX_AGE * 1000,
+  });
+}
+
+// Firebase Auth REST errors that mean the email or password is wrong
+const INVALID_CREDENTIAL_ERRORS = [
+  "EMAIL_NOT_FOUND",
+  "INVALID_PASSWORD",
+  "INVALID_LOGIN_CREDENTIALS",
+  "USER_DISABLED",
+];
+
+/**
+ * Check an email and password with Firebase Auth on the server, so failed
+ * attempts can be counted here rather than only in the browser
+ * @returns A fresh ID token, or null if the credentials are wrong
+ * @throws for any other Firebase error
+ */
+export async function signInWithFirebasePassword(
+  email: string,
+  password: string
+): Promise<string | null> {
+  const response = await fetch(
+    `https://identitytoolkit.googleapis.com/v1/accounts:signInWithPassword?key=${process.env.NEXT_PUBLIC_FIREBASE_API_KEY}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email, password, returnSecureToken: true }),
+    }
+  );
+  const data = await response.json();
+
+  if (response.ok) {
+    return data.idToken;
+  }
+  const reason: string = data.error?.message || "";
+  if (INVALID_CREDENTIAL_ERRORS.some((code) => reason.startsWith(code))) {
+    return null;
+  }
+  throw new Error(reason || "Firebase sign-in failed");
+}
+
+const buildCookie =(value: string, maxAge: number): string => {
+  const cookieOptions = [
+    `${SESSION_COOKIE_NAME}=${value}`,
+    "Path=/",
+    `Max-Age=${maxAge}`,
+    "HttpOnly",
+    "SameSite=Lax",
+  ];
+
+  if (process.env.NODE_ENV === "production") {
+    cookieOptions.push("Secure");
+  }
+
+  return cookieOptions.join("; ");
+};
+
+export function setSessionCookie(res: NextApiResponse, value: string): void {
+  res.setHeader("Set-Cookie", buildCookie(value, SESSION_MAX_AGE));
+}
+
+export function clearSessionCookie(res: NextApiResponse): void {
+  res.setHeader("Set-Cookie", buildCookie("", 0));
+}
+
+/**
+ * Guard for admin API routes. Responds with 401 when there is no valid
+ * session and 403 when the admin's role is too low, so callers only need to
+ * return when this resolves to null.
+ * @param required The least privileged role allowed, viewer by default
+ */
+export async function requireAdmin(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  required: AdminRole = "viewer"
+): Promise<AdminSession | null> {
+  const session = await verifySession(req.cookies[SESSION_COOKIE_NAME]);
+  if (!session) {
+    res.status(401).json({ error: "Unauthorized" });
+    return null;
+  }
+  if (!hasRole(session.role, required)) {
+    res.status(403).json({ error: "Your role doesn't allow this action" });
+    return null;
+  }
+  return session;
+}
@@ -0,0 +1,83 @@
+import type { NextApiRequest } from "next";
+
+// Constants
+export const SORT_ORDERS = ["asc", "desc"] as const;
+
+// Columns entries can be sorted by, and the indexed field behind each.
+// Handles, emails and wallets sort by their lowercased search copies.
+export const ENTRY_SORT_FIELDS = {
+  createdAt: "createdAt",
+  topicName: "topicName",
+  wallet: "search.wallet",
+  email: "search.email",
+  telegram: "search.telegram",
+  discord: "search.discord",
+  platform: "search.platform",
+  status: "status",
+  risk: "risk.score",
+} as const;
+
+// Columns topics can be sorted by
+export const TOPIC_SORT_FIELDS = {
+  createdAt: "createdAt",
+  name: "name",
+  opensAt: "opensAt",
+  closesAt: "closesAt",
+} as const;
+
+// Types
+export type SortOrder = (typeof SORT_ORDERS)[number];
+
+export type EntrySortKey = keyof typeof ENTRY_SORT_FIELDS;
+
+export type TopicSortKey = keyof typeof TOPIC_SORT_FIELDS;
+
+export interface SortParams {
+  field: string;
+  order: SortOrder;
+}
+
+export const DEFAULT_SORT: SortParams = { field: "createdAt", order: "desc" };
+
+/**
+ * The order a column starts in when it is first sorted by: newest first for
+ * the submission date, A to Z for everything else
+ */
+export const getDefaultOrder = (key: string): SortOrder =>
+  key === "createdAt" ? "desc" : "asc";
+
+/**
+ * The sort after clicking a column header: the same column flips its order,
+ * a new column starts in its default order
+ */
+export function toggleSort<K extends string>(
+  current: { key: K; order: SortOrder },
+  key: K
+): { key: K; order: SortOrder } {
+  if (current.key === key) {
+    return { key, order: current.order === "asc" ? "desc" : "asc" };
+  }
+  return { key, order: getDefaultOrder(key) };
+}
+
+/**
+ * Read `sort` and `order` from the query string against an allowlist
+ * @param fields Allowed sort keys and the field each one sorts by
+ * @returns The sort, or null if the key or order isn't allowed
+ */
+export function getSortParams(
+  query: NextApiRequest["query"],
+  fields: Record<string, string>
+): SortParams | null {
+  const key = typeof query.sort === "string" && query.sort ? query.sort : "createdAt";
+  if (!Object.prototype.hasOwnProperty.call(fields, key)) {
+    return null;
+  }
+
+  const order = query.order || getDefaultOrder(key);
+  if (!SORT_ORDERS.includes(order as SortOrder)) {
+    return null;
+  }
+
+  return { field: fields[key], order: order as SortOrder };
+}
@@ -0,0 +1,113 @@
+// Constants
+export const STATS_GRANULARITIES = ["day", "hour"] as const;
+
+export const STATS_EXPORT_FORMATS = ["csv", "json"] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Types
+export type StatsGranularity = (typeof STATS_GRANULARITIES)[number];
+
+export type StatsExportFormat = (typeof STATS_EXPORT_FORMATS)[number];
+
+export interface EmailDomainCount {
+  domain: string;
+  count: number;
+}
+
+export interface TopicStatsReport {
+  topicId: string;
+  topicName: string;
+  total: number;
+  wallets: number;
+  uniqueWallets: number;
+  withDiscord: number;
+  // Most common first
+  emailDomains: EmailDomainCount[];
+  // Submissions per bucket, lined up with the report's buckets
+  series: number[];
+}
+
+export interface StatsReport {
+  granularity: StatsGranularity;
+  from: string;
+  to: string;
+  // UTC days as YYYY-MM-DD, or hours as YYYY-MM-DDTHH
+  buckets: string[];
+  // Distinct wallets across the reported topics
+  uniqueWallets: number;
+  topics: TopicStatsReport[];
+}
+
+// One row of an exported series
+export interface StatsSeriesRow {
+  bucket: string;
+  topicId: string;
+  topicName: string;
+  submissions: number;
+}
+
+// Days shown when no range is given, and the longest range allowed
+export const DEFAULT_RANGE_DAYS: Record<StatsGranularity, number> = {
+  day: 30,
+  hour: 2,
+};
+
+export const MAX_RANGE_DAYS: Record<StatsGranularity, number> = {
+  day: 366,
+  hour: 31,
+};
+
+/**
+ * Shift a YYYY-MM-DD date by whole days
+ */
+export const addDays = (date: string, days: number): string =>
+  new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Number of days from one YYYY-MM-DD date to another, both included
+ */
+export const countDays = (from: string, to: string): number =>
+  Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS) + 1;
+
+/**
+ * Every bucket between two UTC days, both included
+ */
+export function getStatsBuckets(
+  granularity: StatsGranularity,
+  from: string,
+  to: string
+): string[] {
+  const buckets: string[] = [];
+  for (let i = 0; i < countDays(from, to); i++) {
+    const date = addDays(from, i);
+    if (granularity === "day") {
+      buckets.push(date);
+      continue;
+    }
+    for (let hour = 0; hour < 24; hour++) {
+      buckets.push(`${date}T${String(hour).padStart(2, "0")}`);
+    }
+  }
+  return buckets;
+}
+
+/**
+ * Share of a topic's entries with a Discord username, from 0 to 1
+ */
+export const getDiscordShare = (topic: TopicStatsReport): number =>
+  topic.total > 0 ? topic.withDiscord / topic.total : 0;
+
+/**
+ * Flatten a report into one row per topic and bucket
+ */
+export function toSeriesRows(report: StatsReport): StatsSeriesRow[] {
+  return report.topics.flatMap((topic) =>
+    report.buckets.map((bucket, i) => ({
+      bucket,
+      topicId: topic.topicId,
+      topicName: topic.topicName,
+      submissions: topic.series[i],
+    }))
+  );
+}
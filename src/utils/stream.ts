@@ -0,0 +1,58 @@
+import type { NextApiResponse } from "next";
+
+// Types
+export class ResponseClosedError extends Error {
+  constructor() {
+    super("The client closed the connection");
+    this.name = "ResponseClosedError";
+  }
+}
+
+/**
+ * Stop a streamed export once the client has gone, so no more pages are read
+ * @throws ResponseClosedError if the response was closed
+ */
+export const assertResponseOpen = (res: NextApiResponse): void => {
+  if (res.destroyed) {
+    throw new ResponseClosedError();
+  }
+};
+
+/**
+ * Write to a streamed response, waiting for it to drain when the buffer is
+ * full so large exports don't pile up in memory. A client that disconnects
+ * while the buffer is full never drains it, so closing rejects the wait.
+ * @throws ResponseClosedError if the response is or gets closed first
+ */
+export const writeChunk = (res: NextApiResponse, chunk: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (res.destroyed) {
+      reject(new ResponseClosedError());
+      return;
+    }
+    if (res.write(chunk)) {
+      resolve();
+      return;
+    }
+
+    const onDrain = () => {
+      cleanup();
+      resolve();
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new ResponseClosedError());
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const cleanup = () => {
+      res.off("drain", onDrain);
+      res.off("close", onClose);
+      res.off("error", onError);
+    };
+    res.once("drain", onDrain);
+    res.once("close", onClose);
+    res.once("error", onError);
+  });
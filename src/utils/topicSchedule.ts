@@ -0,0 +1,42 @@
+// Types
+export interface TopicSchedule {
+  isActive: boolean;
+  opensAt?: number | null;
+  closesAt?: number | null;
+  deletedAt?: number | null;
+}
+
+export type TopicStatus = "active" | "inactive" | "scheduled" | "closed";
+
+/**
+ * Work out where a topic is in its lifecycle. `isActive` is the manual
+ * switch; the optional opensAt/closesAt window narrows it further.
+ * @param topic The topic's switch and schedule
+ * @param now Timestamp to evaluate against, in milliseconds
+ */
+export function getTopicStatus(
+  topic: TopicSchedule,
+  now: number = Date.now()
+): TopicStatus {
+  // Topics in the trash never accept entries, whatever their switch says
+  if (!topic.isActive || topic.deletedAt) {
+    return "inactive";
+  }
+  if (topic.opensAt && now < topic.opensAt) {
+    return "scheduled";
+  }
+  if (topic.closesAt && now >= topic.closesAt) {
+    return "closed";
+  }
+  return "active";
+}
+
+/**
+ * Whether a topic is currently accepting entries
+ */
+export function isTopicOpen(
+  topic: TopicSchedule,
+  now: number = Date.now()
+): boolean {
+  return getTopicStatus(topic, now) === "active";
+}
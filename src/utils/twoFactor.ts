@@ -0,0 +1,141 @@
+import crypto from "crypto";
+import { firestoreDB } from "./firebaseAdmin";
+import { AdminSession } from "./session";
+import { hashBackupCode, verifyTotp } from "./totp";
+
+// Constants
+// Two-factor settings per account live at adminTwoFactor/{account}
+export const ADMIN_TWO_FACTOR_COLLECTION = "adminTwoFactor";
+// Sign-ins waiting for their second factor
+export const LOGIN_CHALLENGES_COLLECTION = "loginChallenges";
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+// Types
+export interface TwoFactorRecord {
+  enabled: boolean;
+  secret: string | null;
+  // Set during enrollment until the first code confirms it
+  pendingSecret: string | null;
+  // SHA-256 hashes of the unused backup codes
+  backupCodes: string[];
+  lastUsedStep: number | null;
+  enabledAt: number | null;
+  updatedAt: number;
+}
+
+// A sign-in whose password checked out
+export type PendingLogin =
+  | { account: string; method: "firebase"; idToken: string }
+  | { account: string; method: "password"; username: string };
+
+// A pending sign-in waiting for its second factor
+export type LoginChallenge = PendingLogin & { expiresAt: number };
+
+// Helper Functions
+/**
+ * The key lockouts and two-factor settings are stored under: the lowercased
+ * email for Firebase accounts, or the username for the password login
+ */
+export const getLoginAccount = (
+  method: AdminSession["method"],
+  identifier: string
+): string =>
+  method === "firebase"
+    ? identifier.toLowerCase()
+    : `password:${identifier.toLowerCase()}`;
+
+export const getSessionAccount = (session: AdminSession): string =>
+  session.method === "firebase" && session.email
+    ? getLoginAccount("firebase", session.email)
+    : getLoginAccount("password", session.uid);
+
+export const getTwoFactorRef = (account: string) =>
+  firestoreDB
+    .collection(ADMIN_TWO_FACTOR_COLLECTION)
+    .doc(encodeURIComponent(account));
+
+export async function getTwoFactor(
+  account: string
+): Promise<TwoFactorRecord | null> {
+  const snapshot = await getTwoFactorRef(account).get();
+  return snapshot.exists ? (snapshot.data() as TwoFactorRecord) : null;
+}
+
+/**
+ * Check an authenticator code or unused backup code for the account. An
+ * accepted TOTP code can't be reused and an accepted backup code is spent.
+ */
+export async function verifySecondFactor(
+  account: string,
+  code: string
+): Promise<boolean> {
+  const twoFactorRef = getTwoFactorRef(account);
+
+  return firestoreDB.runTransaction(async (transaction) => {
+    const record = (await transaction.get(twoFactorRef)).data() as
+      | TwoFactorRecord
+      | undefined;
+    if (!record?.enabled || !record.secret) {
+      return false;
+    }
+
+    const step = verifyTotp(record.secret, code, record.lastUsedStep);
+    if (step !== null) {
+      transaction.update(twoFactorRef, {
+        lastUsedStep: step,
+        updatedAt: Date.now(),
+      });
+      return true;
+    }
+
+    const backupHash = hashBackupCode(code);
+    if (record.backupCodes.includes(backupHash)) {
+      transaction.update(twoFactorRef, {
+        backupCodes: record.backupCodes.filter((hash) => hash !== backupHash),
+        updatedAt: Date.now(),
+      });
+      return true;
+    }
+
+    return false;
+  });
+}
+
+/**
+ * Park a sign-in until its second factor arrives
+ * @returns The challenge id the client sends back with the code
+ */
+export async function createLoginChallenge(
+  challenge: PendingLogin
+): Promise<string> {
+  const challengeId = crypto.randomBytes(32).toString("hex");
+  await firestoreDB
+    .collection(LOGIN_CHALLENGES_COLLECTION)
+    .doc(challengeId)
+    .set({ ...challenge, expiresAt: Date.now() + CHALLENGE_TTL_MS });
+  return challengeId;
+}
+
+/**
+ * @returns The challenge, or null if it doesn't exist or has expired
+ */
+export async function getLoginChallenge(
+  challengeId: string
+): Promise<LoginChallenge | null> {
+  const snapshot = await firestoreDB
+    .collection(LOGIN_CHALLENGES_COLLECTION)
+    .doc(challengeId)
+    .get();
+  const challenge = snapshot.data() as LoginChallenge | undefined;
+  if (!challenge || challenge.expiresAt < Date.now()) {
+    return null;
+  }
+  return challenge;
+}
+
+export async function deleteLoginChallenge(challengeId: string): Promise<void> {
+  await firestoreDB
+    .collection(LOGIN_CHALLENGES_COLLECTION)
+    .doc(challengeId)
+    .delete();
+}
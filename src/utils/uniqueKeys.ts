@@ -0,0 +1,247 @@
+import {
+  DocumentData,
+  DocumentReference,
+  FieldPath,
+  Query,
+  Transaction,
+} from "firebase-admin/firestore";
+import { firestoreDB } from "./firebaseAdmin";
+import {
+  CanonicalKey,
+  CanonicalSource,
+  canonicalizeEmail,
+  canonicalizeHandle,
+  canonicalizeWallet,
+  isCanonicalWallet,
+} from "./canonical";
+
+// Key documents live at uniq/{topicId}:{field}:{value}, one per unique field
+export const UNIQUE_KEYS_COLLECTION = "uniq";
+
+// Types
+export type UniqueFieldName = "wallet" | "email" | "telegram" | "platform";
+
+// Fields a topic's form doesn't ask for simply hold no key
+export interface UniqueKeySource extends CanonicalSource {
+  topicId: string;
+}
+
+interface UniqueField {
+  name: UniqueFieldName;
+  source: CanonicalKey;
+  message: string;
+  canonicalize: (value: string) => string;
+  // Values that can't be canonicalized hold no key
+  accepts?: (value: string) => boolean;
+}
+
+export interface UniqueKey {
+  field: UniqueFieldName;
+  message: string;
+  ref: DocumentReference;
+}
+
+// Checked in this order, so the first conflict reported matches the old checks.
+// Values are canonicalized, so keys are derived the same way for legacy
+// entries that were stored without a canonical form.
+const UNIQUE_FIELDS: UniqueField[] = [
+  {
+    name: "wallet",
+    source: "walletAddress",
+    message: "This wallet address has already been submitted for this topic",
+    // Key ids keep the lowercased address rather than the checksummed one
+    canonicalize: (value) => canonicalizeWallet(value).toLowerCase(),
+    accepts: isCanonicalWallet,
+  },
+  {
+    name: "email",
+    source: "email",
+    message: "This email address has already been submitted for this topic",
+    canonicalize: canonicalizeEmail,
+  },
+  {
+    name: "telegram",
+    source: "telegramUsername",
+    message: "This Telegram username has already been submitted for this topic",
+    canonicalize: canonicalizeHandle,
+  },
+  {
+    name: "platform",
+    source: "platformUsername",
+    message: "This platform username has already been submitted for this topic",
+    canonicalize: canonicalizeHandle,
+  },
+];
+
+export class DuplicateEntryError extends Error {
+  constructor(public readonly field: UniqueFieldName, message: string) {
+    super(message);
+    this.name = "DuplicateEntryError";
+  }
+}
+
+/**
+ * Build the key document references an entry occupies
+ * @param entry The entry's topic and unique field values
+ */
+export function getUniqueKeys(entry: UniqueKeySource): UniqueKey[] {
+  return UNIQUE_FIELDS.filter((field) => {
+    const value = entry[field.source];
+    return (
+      typeof value === "string" && !!value && (!field.accepts || field.accepts(value))
+    );
+  }).map((field) => {
+    const value = field.canonicalize(entry[field.source] as string);
+    return {
+      field: field.name,
+      message: field.message,
+      ref: firestoreDB
+        .collection(UNIQUE_KEYS_COLLECTION)
+        .doc(`${entry.topicId}:${field.name}:${encodeURIComponent(value)}`),
+    };
+  });
+}
+
+/**
+ * Claim every unique key for an entry inside a transaction. Keys already held
+ * by the same entry are left as they are, so claiming is idempotent.
+ * @throws DuplicateEntryError when another entry holds one of the keys
+ */
+export async function claimUniqueKeys(
+  transaction: Transaction,
+  entryId: string,
+  entry: UniqueKeySource
+): Promise<void> {
+  const keys = getUniqueKeys(entry);
+  if (keys.length === 0) {
+    return;
+  }
+  const snapshots = await transaction.getAll(...keys.map((key) => key.ref));
+
+  const taken = keys.find(
+    (_, i) => snapshots[i].exists && snapshots[i].get("entryId") !== entryId
+  );
+  if (taken) {
+    throw new DuplicateEntryError(taken.field, taken.message);
+  }
+
+  keys.forEach((key) => {
+    transaction.set(key.ref, {
+      topicId: entry.topicId,
+      field: key.field,
+      entryId,
+      createdAt: Date.now(),
+    });
+  });
+}
+
+/**
+ * Delete the unique keys held by an entry inside a transaction.
+ * Keys owned by a different entry are never touched.
+ */
+export async function releaseUniqueKeys(
+  transaction: Transaction,
+  entryId: string,
+  entry: UniqueKeySource
+): Promise<void> {
+  const keys = getUniqueKeys(entry);
+  if (keys.length === 0) {
+    return;
+  }
+  const snapshots = await transaction.getAll(...keys.map((key) => key.ref));
+
+  keys.forEach((key, i) => {
+    if (snapshots[i].exists && snapshots[i].get("entryId") === entryId) {
+      transaction.delete(key.ref);
+    }
+  });
+}
+
+/**
+ * Move an edited entry's unique keys from its old values to its new ones
+ * inside a transaction. Keys for values that didn't change are left alone.
+ * @throws DuplicateEntryError when another entry holds one of the new keys
+ */
+export async function updateUniqueKeys(
+  transaction: Transaction,
+  entryId: string,
+  before: UniqueKeySource,
+  after: UniqueKeySource
+): Promise<void> {
+  const oldKeys = getUniqueKeys(before);
+  const newKeys = getUniqueKeys(after);
+  const added = newKeys.filter(
+    (key) => !oldKeys.some((oldKey) => oldKey.ref.path === key.ref.path)
+  );
+  const removed = oldKeys.filter(
+    (key) => !newKeys.some((newKey) => newKey.ref.path === key.ref.path)
+  );
+  if (added.length === 0 && removed.length === 0) {
+    return;
+  }
+  const snapshots = await transaction.getAll(
+    ...[...added, ...removed].map((key) => key.ref)
+  );
+
+  const taken = added.find(
+    (_, i) => snapshots[i].exists && snapshots[i].get("entryId") !== entryId
+  );
+  if (taken) {
+    throw new DuplicateEntryError(taken.field, taken.message);
+  }
+
+  removed.forEach((key, i) => {
+    const snapshot = snapshots[added.length + i];
+    if (snapshot.exists && snapshot.get("entryId") === entryId) {
+      transaction.delete(key.ref);
+    }
+  });
+  added.forEach((key) => {
+    transaction.set(key.ref, {
+      topicId: after.topicId,
+      field: key.field,
+      entryId,
+      createdAt: Date.now(),
+    });
+  });
+}
+
+/**
+ * Find the key documents held by each of several entries, for deleting them
+ * in batched writes rather than one transaction per entry
+ * @returns Key references by entry id; keys owned by a different entry are
+ * left out
+ */
+export async function getHeldUniqueKeys(
+  entries: { id: string; entry: UniqueKeySource }[]
+): Promise<Map<string, DocumentReference[]>> {
+  const keys = entries.flatMap(({ id, entry }) =>
+    getUniqueKeys(entry).map((key) => ({ entryId: id, ref: key.ref }))
+  );
+  const held = new Map<string, DocumentReference[]>(
+    entries.map(({ id }) => [id, []])
+  );
+  if (keys.length === 0) {
+    return held;
+  }
+
+  const snapshots = await firestoreDB.getAll(...keys.map((key) => key.ref));
+  keys.forEach((key, i) => {
+    if (snapshots[i].exists && snapshots[i].get("entryId") === key.entryId) {
+      held.get(key.entryId)?.push(key.ref);
+    }
+  });
+  return held;
+}
+
+/**
+ * Every key document held by entries of one topic. Key ids start with
+ * "{topicId}:", and ";" is the next character after ":", so this is an id
+ * range scan.
+ */
+export function getTopicUniqueKeysQuery(topicId: string): Query<DocumentData> {
+  return firestoreDB
+    .collection(UNIQUE_KEYS_COLLECTION)
+    .where(FieldPath.documentId(), ">=", `${topicId}:`)
+    .where(FieldPath.documentId(), "<", `${topicId};`);
+}
@@ -0,0 +1,160 @@
+import { FieldValue, FormField } from "./formFields";
+import {
+  getUsernameProviderOptions,
+  registerUsernameProvider,
+  UsernameCheck,
+  UsernameCheckStatus,
+  UsernameProvider,
+  verifyUsername,
+} from "./usernameVerification";
+
+// Types
+export interface StubProviderOptions {
+  // Usernames the stub reports as not found (case-insensitive)
+  unknownUsernames?: string[];
+  // Simulated network latency
+  delayMs?: number;
+  // Throw on every call, to exercise retries and the circuit breaker
+  fail?: boolean;
+}
+
+export class UsernameVerificationError extends Error {
+  constructor(
+    public readonly field: string,
+    public readonly status: Exclude<UsernameCheckStatus, "valid">,
+    message: string
+  ) {
+    super(message);
+    this.name = "UsernameVerificationError";
+  }
+}
+
+// Helper Functions
+const parseList = (value?: string): string[] =>
+  (value || "")
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+
+/**
+ * A provider that answers locally, for development and tests. It knows
+ * every username except the ones it is told are unknown.
+ */
+export function createStubUsernameProvider(
+  name: string,
+  options: StubProviderOptions = {}
+): UsernameProvider {
+  const unknown = new Set(
+    (options.unknownUsernames || []).map((username) => username.toLowerCase())
+  );
+
+  return {
+    name,
+    async verify(username, signal) {
+      if (options.delayMs) {
+        await new Promise<void>((resolve, reject) => {
+          const timer = setTimeout(resolve, options.delayMs);
+          signal.addEventListener("abort", () => {
+            clearTimeout(timer);
+            reject(new Error("Aborted"));
+          });
+        });
+      }
+      if (options.fail) {
+        throw new Error(`${name} stub is set to fail`);
+      }
+      return unknown.has(username.toLowerCase())
+        ? { valid: false, reason: "Username not found" }
+        : { valid: true };
+    },
+  };
+}
+
+/**
+ * Register the stub providers for the platform, Telegram and Discord
+ * fields. Swap in real providers by registering them for the same fields.
+ */
+export function registerStubUsernameProviders(): void {
+  const stubOptions: StubProviderOptions = {
+    unknownUsernames: parseList(process.env.USERNAME_STUB_UNKNOWN),
+    delayMs: Number(process.env.USERNAME_STUB_DELAY_MS) || 0,
+  };
+  registerUsernameProvider(
+    "platformUsername",
+    createStubUsernameProvider("Platform stub", stubOptions)
+  );
+  registerUsernameProvider(
+    "telegramUsername",
+    createStubUsernameProvider("Telegram stub", stubOptions)
+  );
+  registerUsernameProvider(
+    "discordUsername",
+    createStubUsernameProvider("Discord stub", stubOptions)
+  );
+}
+
+// The stubs accept almost any username, so production only uses them when
+// asked to explicitly
+if (process.env.NODE_ENV !== "production" || process.env.USERNAME_STUB === "on") {
+  registerStubUsernameProviders();
+}
+
+// Telegram handles are typed with their @, but looked up without it
+const normalizeUsername = (field: string, username: string): string =>
+  field === "telegramUsername" ? username.replace(/^@/, "") : username;
+
+/**
+ * Check one field's username with its provider
+ * @returns null when no provider is registered for the field
+ */
+export const verifyFieldUsername = (
+  field: string,
+  username: string
+): Promise<UsernameCheck | null> =>
+  verifyUsername(field, normalizeUsername(field, username));
+
+/**
+ * Check every username field of a submission that has a provider
+ * @returns Each checked field's status, to store with the entry
+ * @throws UsernameVerificationError for an unknown username, or when a
+ *   fail-closed provider can't be reached
+ */
+export async function verifyEntryUsernames(
+  fields: FormField[],
+  values: Record<string, FieldValue>
+): Promise<Record<string, UsernameCheckStatus>> {
+  const checked = await Promise.all(
+    fields
+      .filter((field) => typeof values[field.name] === "string" && values[field.name])
+      .map(async (field) => ({
+        field,
+        check: await verifyFieldUsername(field.name, values[field.name] as string),
+      }))
+  );
+
+  const results: Record<string, UsernameCheckStatus> = {};
+  for (const { field, check } of checked) {
+    if (!check) {
+      continue;
+    }
+    if (check.status === "invalid") {
+      throw new UsernameVerificationError(
+        field.name,
+        "invalid",
+        `${field.label} could not be found`
+      );
+    }
+    if (
+      check.status === "unavailable" &&
+      getUsernameProviderOptions(field.name)?.failClosed
+    ) {
+      throw new UsernameVerificationError(
+        field.name,
+        "unavailable",
+        `${field.label} can't be checked right now. Please try again later.`
+      );
+    }
+    results[field.name] = check.status;
+  }
+  return results;
+}
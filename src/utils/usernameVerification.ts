@@ -0,0 +1,216 @@
+// Types
+export type UsernameCheckStatus = "valid" | "invalid" | "unavailable";
+
+export interface UsernameCheck {
+  status: UsernameCheckStatus;
+  // Why the username was rejected or couldn't be checked
+  reason?: string;
+}
+
+/**
+ * An external service that can tell whether a username exists. Throwing (or
+ * not answering before the signal aborts) counts as the service failing,
+ * not as the username being invalid.
+ */
+export interface UsernameProvider {
+  name: string;
+  verify(
+    username: string,
+    signal: AbortSignal
+  ): Promise<{ valid: boolean; reason?: string }>;
+}
+
+export interface UsernameProviderOptions {
+  timeoutMs: number;
+  // Extra attempts after a failure, with exponential backoff between them
+  retries: number;
+  retryDelayMs: number;
+  // How long definite answers are reused; failures are never cached
+  cacheTtlMs: number;
+  // Consecutive failures that open the circuit, and how long it stays open
+  failureThreshold: number;
+  cooldownMs: number;
+  // Reject submissions while the provider is unavailable instead of letting
+  // them through unchecked
+  failClosed: boolean;
+}
+
+interface CircuitState {
+  failures: number;
+  openUntil: number;
+  // A trial request is in flight after the cooldown
+  halfOpen: boolean;
+}
+
+interface RegisteredProvider {
+  provider: UsernameProvider;
+  options: UsernameProviderOptions;
+  circuit: CircuitState;
+  cache: Map<string, { check: UsernameCheck; expiresAt: number }>;
+}
+
+// Constants
+export const DEFAULT_PROVIDER_OPTIONS: UsernameProviderOptions = {
+  timeoutMs: 3000,
+  retries: 2,
+  retryDelayMs: 200,
+  cacheTtlMs: 10 * 60 * 1000,
+  failureThreshold: 5,
+  cooldownMs: 30 * 1000,
+  failClosed: false,
+};
+
+const MAX_CACHE_ENTRIES = 1000;
+
+// Providers are registered per entry field name
+const providers = new Map<string, RegisteredProvider>();
+
+// Helper Functions
+/**
+ * Use a provider for an entry field, replacing any provider registered for it
+ */
+export function registerUsernameProvider(
+  field: string,
+  provider: UsernameProvider,
+  options: Partial<UsernameProviderOptions> = {}
+): void {
+  providers.set(field, {
+    provider,
+    options: { ...DEFAULT_PROVIDER_OPTIONS, ...options },
+    circuit: { failures: 0, openUntil: 0, halfOpen: false },
+    cache: new Map(),
+  });
+}
+
+export function unregisterUsernameProvider(field: string): void {
+  providers.delete(field);
+}
+
+export const hasUsernameProvider = (field: string): boolean =>
+  providers.has(field);
+
+export const getUsernameProviderOptions = (
+  field: string
+): UsernameProviderOptions | undefined => providers.get(field)?.options;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Run one attempt, aborting it once the timeout passes
+const verifyWithTimeout = async (
+  provider: UsernameProvider,
+  username: string,
+  timeoutMs: number
+) => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`${provider.name} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([
+      provider.verify(username, controller.signal),
+      timeout,
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const isCircuitOpen = (circuit: CircuitState, now: number): boolean => {
+  if (circuit.openUntil === 0) {
+    return false;
+  }
+  if (now < circuit.openUntil || circuit.halfOpen) {
+    return true;
+  }
+  // Cooldown is over: let one trial request through
+  circuit.halfOpen = true;
+  return false;
+};
+
+const recordSuccess = (circuit: CircuitState) => {
+  circuit.failures = 0;
+  circuit.openUntil = 0;
+  circuit.halfOpen = false;
+};
+
+const recordFailure = (
+  circuit: CircuitState,
+  options: UsernameProviderOptions,
+  now: number
+) => {
+  circuit.failures += 1;
+  if (circuit.halfOpen || circuit.failures >= options.failureThreshold) {
+    circuit.openUntil = now + options.cooldownMs;
+    circuit.halfOpen = false;
+  }
+};
+
+const cacheCheck = (
+  registered: RegisteredProvider,
+  key: string,
+  check: UsernameCheck
+) => {
+  // Maps keep insertion order, so the first key is the oldest
+  if (registered.cache.size >= MAX_CACHE_ENTRIES) {
+    const oldest = registered.cache.keys().next().value;
+    if (oldest !== undefined) {
+      registered.cache.delete(oldest);
+    }
+  }
+  registered.cache.set(key, {
+    check,
+    expiresAt: Date.now() + registered.options.cacheTtlMs,
+  });
+};
+
+/**
+ * Check a username with the provider registered for its field
+ * @returns null when no provider is registered for the field
+ */
+export async function verifyUsername(
+  field: string,
+  username: string
+): Promise<UsernameCheck | null> {
+  const registered = providers.get(field);
+  if (!registered) {
+    return null;
+  }
+  const { provider, options, circuit, cache } = registered;
+
+  const key = username.trim().toLowerCase();
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.check;
+  }
+
+  if (isCircuitOpen(circuit, Date.now())) {
+    return { status: "unavailable", reason: `${provider.name} is unavailable` };
+  }
+
+  for (let attempt = 0; attempt <= options.retries; attempt++) {
+    try {
+      const result = await verifyWithTimeout(provider, username, options.timeoutMs);
+      recordSuccess(circuit);
+      const check: UsernameCheck = result.valid
+        ? { status: "valid" }
+        : { status: "invalid", reason: result.reason };
+      cacheCheck(registered, key, check);
+      return check;
+    } catch (error) {
+      console.error(`${provider.name} check failed:`, error);
+      recordFailure(circuit, options, Date.now());
+      // A half-open trial gets no retries; the circuit has just reopened
+      if (circuit.openUntil > Date.now() || attempt === options.retries) {
+        break;
+      }
+      await sleep(options.retryDelayMs * 2 ** attempt);
+    }
+  }
+
+  return { status: "unavailable", reason: `${provider.name} is unavailable` };
+}
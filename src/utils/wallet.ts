@@ -0,0 +1,55 @@
+import {
+  Address,
+  createWalletClient,
+  custom,
+  EIP1193Provider,
+  Hex,
+  WalletClient,
+} from "viem";
+
+// Types
+export interface ConnectedWallet {
+  address: Address;
+  chainId: number;
+}
+
+// Helper Functions
+/**
+ * The wallet the browser extension injects (MetaMask, Rabby, ...), if any
+ */
+export function getInjectedProvider(): EIP1193Provider | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  return (window as Window & { ethereum?: EIP1193Provider }).ethereum || null;
+}
+
+const getWalletClient = (): WalletClient => {
+  const provider = getInjectedProvider();
+  if (!provider) {
+    throw new Error("No browser wallet found. Install one to continue.");
+  }
+  return createWalletClient({ transport: custom(provider) });
+};
+
+/**
+ * Ask the injected wallet for its current account
+ */
+export async function connectWallet(): Promise<ConnectedWallet> {
+  const client = getWalletClient();
+  const [address] = await client.requestAddresses();
+  if (!address) {
+    throw new Error("No account was selected in your wallet");
+  }
+  return { address, chainId: await client.getChainId() };
+}
+
+/**
+ * Have the wallet sign a plain-text (personal_sign) message
+ */
+export async function signWalletMessage(
+  address: Address,
+  message: string
+): Promise<Hex> {
+  return getWalletClient().signMessage({ account: address, message });
+}
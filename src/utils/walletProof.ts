@@ -0,0 +1,132 @@
+import type { NextApiRequest } from "next";
+import { DocumentReference, Transaction } from "firebase-admin/firestore";
+import { getAddress, isAddress, verifyMessage } from "viem";
+import { createSiweMessage, generateSiweNonce } from "viem/siwe";
+import { z } from "zod";
+import { firestoreDB } from "./firebaseAdmin";
+
+// Constants
+// Issued sign-in messages live at walletNonces/{nonce} until used or expired
+export const WALLET_NONCES_COLLECTION = "walletNonces";
+const NONCE_TTL_MS = 10 * 60 * 1000;
+
+// Types
+interface WalletNonce {
+  address: string;
+  topicId: string;
+  message: string;
+  expiresAt: number;
+}
+
+// Validation Schemas
+export const WalletAddressSchema = z
+  .string()
+  .refine((address) => isAddress(address), "Invalid Ethereum wallet address")
+  .transform((address) => getAddress(address));
+
+export const WalletProofSchema = z.object({
+  nonce: z.string().min(1, "Nonce is required"),
+  signature: z
+    .string()
+    .regex(/^0x[0-9a-fA-F]+$/, "Invalid signature")
+    .transform((signature) => signature as `0x${string}`),
+});
+
+export type WalletProof = z.infer<typeof WalletProofSchema>;
+
+export class WalletProofError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WalletProofError";
+  }
+}
+
+// Helper Functions
+const getRequestOrigin = (req: NextApiRequest): { domain: string; uri: string } => {
+  const domain = req.headers.host || "localhost";
+  const forwardedProto = req.headers["x-forwarded-proto"];
+  const protocol =
+    (Array.isArray(forwardedProto) ? forwardedProto[0] : forwardedProto) ||
+    (process.env.NODE_ENV === "production" ? "https" : "http");
+  return { domain, uri: `${protocol}://${domain}` };
+};
+
+/**
+ * Issue an EIP-4361 (Sign-In with Ethereum) message for the participant to
+ * sign, binding the wallet to one topic submission
+ * @returns The nonce to send back with the signature, and the message to sign
+ */
+export async function createWalletChallenge(
+  req: NextApiRequest,
+  challenge: { address: string; chainId: number; topicId: string; topicName: string }
+): Promise<{ nonce: string; message: string }> {
+  const { domain, uri } = getRequestOrigin(req);
+  const nonce = generateSiweNonce();
+  const issuedAt = new Date();
+  const expiresAt = issuedAt.getTime() + NONCE_TTL_MS;
+  const address = getAddress(challenge.address);
+
+  const message = createSiweMessage({
+    address,
+    chainId: challenge.chainId,
+    domain,
+    uri,
+    nonce,
+    version: "1",
+    statement: `Confirm that you own this wallet to submit an entry for ${challenge.topicName}.`,
+    issuedAt,
+    expirationTime: new Date(expiresAt),
+    resources: [`${uri}/submit/${challenge.topicId}`],
+  });
+
+  const record: WalletNonce = {
+    address,
+    topicId: challenge.topicId,
+    message,
+    expiresAt,
+  };
+  await firestoreDB.collection(WALLET_NONCES_COLLECTION).doc(nonce).set(record);
+
+  return { nonce, message };
+}
+
+/**
+ * Check a signed challenge inside the transaction that writes the entry
+ * @returns The nonce document, which the caller deletes in the same
+ *   transaction (after its other reads) so the signature can't be replayed
+ * @throws WalletProofError if the proof doesn't match the submission
+ */
+export async function verifyWalletProof(
+  transaction: Transaction,
+  proof: WalletProof,
+  submission: { address: string; topicId: string }
+): Promise<DocumentReference> {
+  const nonceRef = firestoreDB.collection(WALLET_NONCES_COLLECTION).doc(proof.nonce);
+  const nonce = (await transaction.get(nonceRef)).data() as WalletNonce | undefined;
+
+  if (!nonce || nonce.expiresAt < Date.now()) {
+    throw new WalletProofError(
+      "Your wallet signature has expired. Please sign again."
+    );
+  }
+  if (
+    nonce.topicId !== submission.topicId ||
+    !isAddress(submission.address) ||
+    nonce.address !== getAddress(submission.address)
+  ) {
+    throw new WalletProofError(
+      "The signed wallet doesn't match the wallet address entered"
+    );
+  }
+
+  const isValid = await verifyMessage({
+    address: nonce.address as `0x${string}`,
+    message: nonce.message,
+    signature: proof.signature,
+  }).catch(() => false);
+  if (!isValid) {
+    throw new WalletProofError("The wallet signature is invalid");
+  }
+
+  return nonceRef;
+}